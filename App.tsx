@@ -3,15 +3,60 @@ import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { GridCell } from './components/GridCell';
 import { Recorder } from './components/Recorder';
 import { VideoTrimmer } from './components/VideoTrimmer';
-import { PadCell, PadTransform } from './types';
-import { saveClip, getAllClips, deleteClip, updateClipVolume, updateClipOverlap, getClip, updateClipTrim } from './services/db';
-import { decodeAudio, findBeatOnset, getAudioContext } from './services/audio';
-import { exportProject, importProject } from './services/project';
-import { X, Settings2, Loader2, Info, Video, Layers, Volume2, Trash2, Save, FolderOpen, Heart, AlertTriangle } from 'lucide-react';
+import { Sequencer } from './components/Sequencer';
+import { TakesPanel } from './components/TakesPanel';
+import { ProjectBrowser } from './components/ProjectBrowser';
+import { TransformEditor } from './components/TransformEditor';
+import { MidiPanel } from './components/MidiPanel';
+import { KeyMapPanel } from './components/KeyMapPanel';
+import { PitchEditor } from './components/PitchEditor';
+import { FxEditor } from './components/FxEditor';
+import { MixerPanel } from './components/MixerPanel';
+import { SliceEditor } from './components/SliceEditor';
+import { KitExporter } from './components/KitExporter';
+import { KitImporter } from './components/KitImporter';
+import { StoragePanel } from './components/StoragePanel';
+import { ConsolidateDialog, ConsolidateResult } from './components/ConsolidateDialog';
+import { ImportReportDialog } from './components/ImportReportDialog';
+import { ConsolidateOptions, consolidateClip } from './services/consolidate';
+import { ChromaticSettings, MidiMapping, MixerSettings, PadCell, PadEnvelope, PadFx, PadPitch, PadPlayback, PadTransform, ProjectInfo, SequencerSettings, Take } from './types';
+import { saveClip, saveMedia, getAllClips, deleteClip, updateClipVolume, updateClipOverlap, updateClipTransform, updateClipPlayback, updateClipPitch, updateClipFx, moveClip, duplicateClip, getClip, getProjectUsage, ProjectUsage, updateClipTrim, getAllPatterns, savePattern, clearPatterns, getSetting, saveSetting, getAllTakes, saveTake, deleteTake, clearTakes, getAllProjects, getProject, createProject, renameProject, duplicateProject, deleteProject, setActiveProject, getLastProjectId, saveLastProjectId } from './services/db';
+import { decodeAudio, findBufferOnset, getAudioContext, setMixerSettings } from './services/audio';
+import { exportProject, importProject, isAbortError } from './services/project';
+import { ImportReport } from './services/manifest';
+import { Kit, exportKit, readKit, saveKitPad } from './services/kit';
+import { HistoryState, HistoryStep, createHistory } from './services/history';
+import { onConnectivityChange, onUpdateAvailable } from './services/pwa';
+import { StorageEstimate, checkRecordingSpace, describeStorageError, formatBytes, getStorageEstimate, requestPersistentStorage } from './services/storage';
+import { createSequencer, DEFAULT_SEQUENCER_SETTINGS, isSequencerSettings, resizePattern } from './services/sequencer';
+import { triggerPad, releasePad, stopAllPads, onPadTrigger, setChromatic } from './services/pads';
+import { DEFAULT_KEY_MAP, SHORTCUTS, getHistoryShortcut, getPadForKey, isKeyMap, isReservedKey, isTypingTarget } from './services/keyboard';
+import { DEFAULT_TRANSFORM } from './services/transform';
+import { DEFAULT_PLAYBACK, normalizePlayback } from './services/playback';
+import { DEFAULT_PITCH, getScaleOffset, isChromaticSettings, normalizePitch } from './services/pitch';
+import { DEFAULT_FX, normalizeFx } from './services/fx';
+import { DEFAULT_MIXER, isMixerSettings, normalizeMixer } from './services/mixer';
+import { DEFAULT_ENVELOPE, normalizeEnvelope } from './services/envelope';
+import { createMidiController, isMidiMappingList, requestMidiAccess } from './services/midi';
+import { BANKS, DEFAULT_BANK, PADS_PER_BANK, getBankOf, getPadNumber, toPadId } from './services/banks';
+import { createPerformanceRenderer } from './services/performance';
+import { createTakeRecorder, createTakePlayer, quantizeTake } from './services/takes';
+import { downloadBlob, getExtensionForMime, isAudioOnlyMime, loadImportedFile, probeMedia } from './services/media';
+import { renderWaveformPoster } from './services/waveform';
+import { Slice } from './services/slicer';
+import { X, Settings2, Loader2, Info, Video, Layers, Volume2, Trash2, Save, Heart, AlertTriangle, Drum, Clapperboard, ListMusic, Library, Piano, Keyboard, SlidersVertical, Repeat, Music, SlidersHorizontal, SquareSplitHorizontal, Package, PackageOpen, Undo2, Redo2, WifiOff, RefreshCw, HardDrive } from 'lucide-react';
 
-const GRID_SIZE = 12;
 const DEFAULT_VOLUME = 5.0; 
-const DEFAULT_TRANSFORM: PadTransform = { scale: 1, x: 0, y: 0, rotation: 0 };
+
+// Los clips solo de audio muestran su forma de onda, con un color por posición del pad
+const getPosterUrl = (id: number, blob: Blob, buffer: AudioBuffer | null | undefined) =>
+  buffer && isAudioOnlyMime(blob.type) ? renderWaveformPoster(buffer, (getPadNumber(id) * 30) % 360) : null;
+
+const createEmptyCell = (id: number): PadCell => ({
+  id, videoUrl: null, audioBuffer: null, startTime: 0, endTime: 0, isEmpty: true,
+  volume: DEFAULT_VOLUME, transform: DEFAULT_TRANSFORM, allowOverlap: false, playback: DEFAULT_PLAYBACK, pitch: DEFAULT_PITCH,
+  fx: DEFAULT_FX, envelope: DEFAULT_ENVELOPE
+});
 
 export default function App() {
   const [cells, setCells] = useState<PadCell[]>([]);
@@ -20,22 +65,131 @@ export default function App() {
   const [isProjectAction, setIsProjectAction] = useState(false);
   const [showInfo, setShowInfo] = useState(false);
   
+  const [projects, setProjects] = useState<ProjectInfo[]>([]);
+  const [activeProject, setActiveProjectInfo] = useState<ProjectInfo | null>(null);
+  const [showProjects, setShowProjects] = useState(false);
+
   const [showSaveModal, setShowSaveModal] = useState(false);
   const [newProjectName, setNewProjectName] = useState('');
   const [actionMessage, setActionMessage] = useState<string | null>(null);
+  // Exportación o importación en curso que el usuario puede cancelar desde el aviso
+  const [transfer, setTransfer] = useState<AbortController | null>(null);
   const [isConfirmingClear, setIsConfirmingClear] = useState(false);
   const clearTimerRef = useRef<number | null>(null);
 
   const [activeCellId, setActiveCellId] = useState<number | null>(null);
   const [showRecorder, setShowRecorder] = useState(false);
-  const [trimmerData, setTrimmerData] = useState<{ id: number, blob: Blob, url: string, start: number, end: number, volume: number } | null>(null);
+  const [trimmerData, setTrimmerData] = useState<{ id: number, blob: Blob, url: string, start: number, end: number, volume: number, envelope: PadEnvelope } | null>(null);
+  // Toma larga que se reparte entre los pads vacíos
+  const [isSliceRecording, setIsSliceRecording] = useState(false);
+  const [sliceData, setSliceData] = useState<{ blob: Blob, buffer: AudioBuffer, url: string } | null>(null);
+  const [showKitExport, setShowKitExport] = useState(false);
+  const [kitImport, setKitImport] = useState<Kit | null>(null);
+  const [consolidate, setConsolidate] = useState<{ padIds: number[]; sizes: Record<number, number> } | null>(null);
+  const [importReport, setImportReport] = useState<ImportReport | null>(null);
+
+  const [transformCellId, setTransformCellId] = useState<number | null>(null);
+  const transformCell = cells.find(c => c.id === transformCellId && !c.isEmpty && c.videoUrl);
+  const [pitchCellId, setPitchCellId] = useState<number | null>(null);
+  const pitchCell = cells.find(c => c.id === pitchCellId && !c.isEmpty);
+  const [fxCellId, setFxCellId] = useState<number | null>(null);
+  const fxCell = cells.find(c => c.id === fxCellId && !c.isEmpty);
+  // Con un editor abierto la rejilla no responde y el historial tampoco
+  const isEditing = showRecorder || !!trimmerData || !!sliceData || !!transformCell || !!pitchCell || !!fxCell || !!kitImport || !!consolidate;
+  const [mixer, setMixer] = useState<MixerSettings>(DEFAULT_MIXER);
+  const [chromatic, setChromaticState] = useState<ChromaticSettings | null>(null);
 
   const [cameraStream, setCameraStream] = useState<MediaStream | null>(null);
   const [facingMode, setFacingMode] = useState<'user' | 'environment'>('user');
 
+  const [currentBank, setCurrentBank] = useState(DEFAULT_BANK);
+  const bankCells = cells.filter(c => getBankOf(c.id) === currentBank);
+
+  // Solo uno de los paneles inferiores (secuenciador, tomas, MIDI, teclado, mezclador) está abierto a la vez
+  const [activePanel, setActivePanel] = useState<'sequencer' | 'takes' | 'midi' | 'keys' | 'mixer' | 'storage' | null>(null);
+  const togglePanel = (panel: 'sequencer' | 'takes' | 'midi' | 'keys' | 'mixer' | 'storage') => setActivePanel(prev => prev === panel ? null : panel);
+
+  const [sequencerSettings, setSequencerSettings] = useState<SequencerSettings>(DEFAULT_SEQUENCER_SETTINGS);
+  const [patterns, setPatterns] = useState<Record<number, number[]>>({});
+  const [isSequencerRunning, setIsSequencerRunning] = useState(false);
+  const [currentStep, setCurrentStep] = useState<number | null>(null);
+  const sequencerSettingsRef = useRef(sequencerSettings);
+  const patternsRef = useRef(patterns);
+  sequencerSettingsRef.current = sequencerSettings;
+  patternsRef.current = patterns;
+
+  const sequencerRef = useRef<ReturnType<typeof createSequencer> | null>(null);
+  if (!sequencerRef.current) {
+    sequencerRef.current = createSequencer({
+      getSettings: () => sequencerSettingsRef.current,
+      getPatterns: () => patternsRef.current,
+      onTrigger: (padId, when, velocity) => triggerPad(padId, { when, velocity }),
+      onStep: (step, when) => {
+        // Mostrar el paso actual cuando realmente suena
+        const delay = Math.max(0, (when - getAudioContext().currentTime) * 1000);
+        window.setTimeout(() => {
+          if (sequencerRef.current?.isRunning()) setCurrentStep(step);
+        }, delay);
+      }
+    });
+  }
+
+  const [isPerforming, setIsPerforming] = useState(false);
+  const cellsRef = useRef<PadCell[]>([]);
+  const currentBankRef = useRef(DEFAULT_BANK);
+  const performanceRef = useRef<ReturnType<typeof createPerformanceRenderer> | null>(null);
+  if (!performanceRef.current) {
+    performanceRef.current = createPerformanceRenderer(() => cellsRef.current, () => currentBankRef.current);
+  }
+
+  const [takes, setTakes] = useState<Take[]>([]);
+  const [isTakeArmed, setIsTakeArmed] = useState(false);
+  const [playingTakeId, setPlayingTakeId] = useState<string | null>(null);
+  const takeRecorderRef = useRef(createTakeRecorder());
+  const takePlayerRef = useRef<ReturnType<typeof createTakePlayer> | null>(null);
+  if (!takePlayerRef.current) {
+    takePlayerRef.current = createTakePlayer({
+      onTrigger: ({ padId, velocity, volume, allowOverlap, transpose = 0 }, when) => triggerPad(padId, { when, velocity, volume, allowOverlap, transpose }),
+      onEnded: () => setPlayingTakeId(null)
+    });
+  }
+
+  const [midiMappings, setMidiMappings] = useState<MidiMapping[]>([]);
+  const [midiInputs, setMidiInputs] = useState<string[]>([]);
+  const [midiLearnPadId, setMidiLearnPadId] = useState<number | null>(null);
+  const [midiError, setMidiError] = useState<string | null>(null);
+  const [isMidiEnabled, setIsMidiEnabled] = useState(false);
+  const midiRef = useRef<ReturnType<typeof createMidiController> | null>(null);
+
+  const [storageEstimate, setStorageEstimate] = useState<StorageEstimate | null>(null);
+  const [projectUsage, setProjectUsage] = useState<ProjectUsage | null>(null);
+  const [isStorageLoading, setIsStorageLoading] = useState(false);
+  // Avisos y errores con acciones concretas (sustituyen a los alert genéricos)
+  const [notice, setNotice] = useState<{ message: string; actions?: { label: string; run: () => void }[] } | null>(null);
+  const persistRequestedRef = useRef(false);
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const [applyUpdate, setApplyUpdate] = useState<(() => void) | null>(null);
+  const [historyState, setHistoryState] = useState<HistoryState>({ canUndo: false, canRedo: false, undoLabel: null, redoLabel: null });
+  const historyRef = useRef<ReturnType<typeof createHistory> | null>(null);
+  if (!historyRef.current) {
+    historyRef.current = createHistory(setHistoryState);
+  }
+  const history = historyRef.current;
+
+  const [keyMap, setKeyMap] = useState<string[]>(DEFAULT_KEY_MAP);
+  const [keyLearnIndex, setKeyLearnIndex] = useState<number | null>(null);
+  const keyHandlerRef = useRef<(e: KeyboardEvent) => void>(() => {});
+  const lastTriggeredPadRef = useRef<number | null>(null);
+  // Tecla pulsada → pad que disparó, para soltar el mismo pad aunque cambie el banco
+  const heldKeysRef = useRef<Map<string, number>>(new Map());
+
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const kitInputRef = useRef<HTMLInputElement>(null);
   const activeUrlsRef = useRef<Map<number, string>>(new Map());
 
+  cellsRef.current = cells;
+  currentBankRef.current = currentBank;
+
   const getTrackedUrl = useCallback((id: number, blob: Blob) => {
     const existing = activeUrlsRef.current.get(id);
     if (existing) URL.revokeObjectURL(existing);
@@ -92,28 +246,38 @@ export default function App() {
     try {
       const storedClips = await getAllClips();
       const loadedCells: PadCell[] = [];
+      // Los pads de una toma troceada comparten Blob: se decodifica una sola vez
+      const decoded = new Map<Blob, AudioBuffer | null>();
       
-      for (let i = 0; i < GRID_SIZE; i++) {
-        const id = i + 1;
+      for (const bank of BANKS) for (let i = 0; i < PADS_PER_BANK; i++) {
+        const id = toPadId(bank, i + 1);
         const found = storedClips.find(c => c.id === id);
         
         if (found && found.blob) {
-          const existingCell = cells.find(c => c.id === id && !c.isEmpty);
+          // Una carga completa (cambio de proyecto, importación) no reutiliza buffers antiguos
+          const existingCell = isInitial ? null : cells.find(c => c.id === id && !c.isEmpty);
           let buffer = existingCell?.audioBuffer || null;
           
+          if (!buffer && decoded.has(found.blob)) buffer = decoded.get(found.blob) || null;
           if (!buffer) {
             try { buffer = await decodeAudio(found.blob); } catch (err) { console.warn(`Error decodificando pad ${id}:`, err); }
+            decoded.set(found.blob, buffer);
           }
 
           let videoUrl = activeUrlsRef.current.get(id) || getTrackedUrl(id, found.blob);
+          const posterUrl = existingCell?.posterUrl ?? getPosterUrl(id, found.blob, buffer);
           loadedCells.push({
-            id, videoUrl, audioBuffer: buffer, startTime: found.startTime, endTime: found.endTime,
+            id, videoUrl, posterUrl, audioBuffer: buffer, startTime: found.startTime, endTime: found.endTime,
             isEmpty: false, volume: found.volume ?? DEFAULT_VOLUME,
             transform: (found.transform as any) || DEFAULT_TRANSFORM,
-            allowOverlap: found.allowOverlap ?? false
+            allowOverlap: found.allowOverlap ?? false,
+            playback: normalizePlayback(found.playback),
+            pitch: normalizePitch(found.pitch),
+            fx: normalizeFx(found.fx),
+            envelope: normalizeEnvelope(found.envelope)
           });
         } else {
-          loadedCells.push({ id, videoUrl: null, audioBuffer: null, startTime: 0, endTime: 0, isEmpty: true, volume: DEFAULT_VOLUME, transform: DEFAULT_TRANSFORM, allowOverlap: false });
+          loadedCells.push(createEmptyCell(id));
         }
       }
       setCells(loadedCells);
@@ -124,11 +288,475 @@ export default function App() {
     }
   }, [getTrackedUrl, cells]);
 
+  const loadSequencer = useCallback(async () => {
+    try {
+      const storedSettings = await getSetting('sequencer', isSequencerSettings);
+      const storedPatterns = await getAllPatterns();
+      setSequencerSettings(storedSettings || DEFAULT_SEQUENCER_SETTINGS);
+      const loaded: Record<number, number[]> = {};
+      storedPatterns.forEach(p => { loaded[p.padId] = p.steps; });
+      setPatterns(loaded);
+    } catch (e) {
+      console.error("Error cargando secuencias:", e);
+    }
+  }, []);
+
+  const loadTakes = useCallback(async () => {
+    try {
+      setTakes(await getAllTakes());
+    } catch (e) {
+      console.error("Error cargando tomas:", e);
+    }
+  }, []);
+
+  const loadMidiMappings = useCallback(async () => {
+    try {
+      const stored = (await getSetting('midiMappings', isMidiMappingList)) || [];
+      setMidiMappings(stored);
+      midiRef.current?.setMappings(stored);
+    } catch (e) {
+      console.error("Error cargando asignaciones MIDI:", e);
+    }
+  }, []);
+
+  const handleMidiMappingsChange = async (mappings: MidiMapping[]) => {
+    setMidiMappings(mappings);
+    midiRef.current?.setMappings(mappings);
+    try {
+      await saveSetting('midiMappings', mappings);
+    } catch (e) {
+      console.error(e);
+    }
+  };
+
+  const handleEnableMidi = async () => {
+    if (midiRef.current) return;
+    setMidiError(null);
+    try {
+      const access = await requestMidiAccess();
+      midiRef.current = createMidiController(access, {
+        mappings: midiMappings,
+        onTrigger: (padId, velocity) => triggerPad(padId, { velocity, hold: true }),
+        onRelease: releasePad,
+        onMappingsChange: handleMidiMappingsChange,
+        onLearnChange: setMidiLearnPadId,
+        onInputsChange: setMidiInputs
+      });
+      setIsMidiEnabled(true);
+    } catch (e) {
+      console.error("Error activando MIDI:", e);
+      setMidiError(e instanceof Error ? e.message : "No se pudo acceder a los dispositivos MIDI.");
+    }
+  };
+
+  const loadKeyMap = useCallback(async () => {
+    try {
+      setKeyMap((await getSetting('keyMap', isKeyMap)) || DEFAULT_KEY_MAP);
+    } catch (e) {
+      console.error("Error cargando el teclado:", e);
+    }
+  }, []);
+
+  const handleKeyMapChange = async (next: string[]) => {
+    setKeyMap(next);
+    try {
+      await saveSetting('keyMap', next);
+    } catch (e) {
+      console.error(e);
+    }
+  };
+
+  // El bus maestro toma estos valores al crearse el AudioContext o al instante si ya existe
+  const loadMixer = useCallback(async () => {
+    try {
+      const next = normalizeMixer(await getSetting('mixer', isMixerSettings));
+      setMixer(next);
+      setMixerSettings(next);
+    } catch (e) {
+      console.error("Error cargando el mezclador:", e);
+    }
+  }, []);
+
+  const handleMixerChange = async (next: MixerSettings) => {
+    setMixer(next);
+    setMixerSettings(next);
+    try {
+      await saveSetting('mixer', next);
+    } catch (e) {
+      console.error(e);
+    }
+  };
+
+  const loadChromatic = useCallback(async () => {
+    try {
+      setChromaticState(await getSetting('chromatic', isChromaticSettings) || null);
+    } catch (e) {
+      console.error("Error cargando el modo cromático:", e);
+    }
+  }, []);
+
+  const handleChromaticChange = async (next: ChromaticSettings | null) => {
+    setChromaticState(next);
+    try {
+      await saveSetting('chromatic', next);
+    } catch (e) {
+      console.error(e);
+    }
+  };
+
+  // El registro de pads desvía los disparos del banco cromático al pad origen
+  useEffect(() => {
+    setChromatic(chromatic);
+  }, [chromatic]);
+
+  const refreshProjects = useCallback(async () => {
+    try {
+      setProjects(await getAllProjects());
+    } catch (e) {
+      console.error("Error cargando proyectos:", e);
+    }
+  }, []);
+
+  const openProject = async (project: ProjectInfo) => {
+    sequencerRef.current?.stop();
+    takePlayerRef.current?.stop();
+    setIsSequencerRunning(false);
+    setCurrentStep(null);
+    setPlayingTakeId(null);
+
+    setActiveProject(project.id);
+    setActiveProjectInfo(project);
+    setCurrentBank(DEFAULT_BANK);
+    cleanupAllUrls();
+    await saveLastProjectId(project.id);
+    midiRef.current?.cancelLearn();
+    await Promise.all([loadData(true), loadSequencer(), loadTakes(), loadMidiMappings(), loadKeyMap(), loadChromatic(), loadMixer(), refreshProjects(), history.load()]);
+  };
+
   useEffect(() => {
-    loadData(true);
+    (async () => {
+      try {
+        const stored = await getAllProjects();
+        const lastId = await getLastProjectId();
+        const project = stored.find(p => p.id === lastId) || stored[0] || await createProject('Mi Proyecto');
+        await openProject(project);
+      } catch (e) {
+        console.error("Error abriendo proyecto:", e);
+        setIsLoading(false);
+      }
+    })();
+    return () => {
+      sequencerRef.current?.stop();
+      takePlayerRef.current?.stop();
+      midiRef.current?.dispose();
+    };
   }, []);
 
-  const handleStartRecording = async (id: number) => {
+  const switchBank = (step: number) => {
+    setCurrentBank(prev => {
+      const index = BANKS.indexOf(prev) + step;
+      return BANKS[(index + BANKS.length) % BANKS.length];
+    });
+  };
+
+  const handlePanic = () => {
+    sequencerRef.current?.stop();
+    takePlayerRef.current?.stop();
+    setIsSequencerRunning(false);
+    setCurrentStep(null);
+    setPlayingTakeId(null);
+    stopAllPads();
+  };
+
+  // El último pad que sonó es el destino del atajo del recortador
+  useEffect(() => onPadTrigger(({ padId }) => { lastTriggeredPadRef.current = padId; }), []);
+
+  useEffect(() => onConnectivityChange(setIsOnline), []);
+  useEffect(() => onUpdateAvailable(apply => setApplyUpdate(() => apply)), []);
+
+  // Teclado: pads del banco activo, reasignación de teclas y atajos
+  keyHandlerRef.current = (e: KeyboardEvent) => {
+    if (isTypingTarget(e.target)) return;
+    const historyShortcut = getHistoryShortcut(e);
+    if (historyShortcut) {
+      e.preventDefault();
+      if (!isEditing) handleHistoryStep(historyShortcut);
+      return;
+    }
+    if (e.metaKey || e.ctrlKey || e.altKey) return;
+
+    if (keyLearnIndex !== null) {
+      e.preventDefault();
+      if (e.code === SHORTCUTS.panic) { setKeyLearnIndex(null); return; }
+      if (isReservedKey(e.code)) return;
+      handleKeyMapChange(keyMap.map((code, i) => i === keyLearnIndex ? e.code : code === e.code ? '' : code));
+      setKeyLearnIndex(null);
+      return;
+    }
+
+    const pad = getPadForKey(keyMap, e.code);
+    if (pad !== null && !e.shiftKey) {
+      e.preventDefault();
+      if (!e.repeat && !isDeleteMode) {
+        const padId = toPadId(currentBank, pad);
+        heldKeysRef.current.set(e.code, padId);
+        triggerPad(padId, { hold: true });
+      }
+      return;
+    }
+    if (e.repeat) return;
+
+    // Shift + 1..4 salta directamente a un banco
+    const bankDigit = e.shiftKey && e.code.startsWith('Digit') ? parseInt(e.code.slice(5), 10) : NaN;
+    if (!isNaN(bankDigit) && BANKS[bankDigit - 1]) {
+      setCurrentBank(BANKS[bankDigit - 1]);
+      return;
+    }
+
+    switch (e.code) {
+      case SHORTCUTS.prevBank: switchBank(-1); break;
+      case SHORTCUTS.nextBank: switchBank(1); break;
+      case SHORTCUTS.editMode: setIsDeleteMode(prev => !prev); break;
+      case SHORTCUTS.panic: handlePanic(); break;
+      case SHORTCUTS.trimmer:
+        if (lastTriggeredPadRef.current !== null && !trimmerData) handleOpenTrimmer(lastTriggeredPadRef.current);
+        break;
+    }
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => keyHandlerRef.current(e);
+    const handleKeyUp = (e: KeyboardEvent) => {
+      const padId = heldKeysRef.current.get(e.code);
+      if (padId === undefined) return;
+      heldKeysRef.current.delete(e.code);
+      releasePad(padId);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+    };
+  }, []);
+
+  const handleToggleTakeArm = async () => {
+    const recorder = takeRecorderRef.current;
+    if (!recorder.isArmed()) {
+      const ctx = getAudioContext();
+      if (ctx.state === 'suspended') await ctx.resume();
+      recorder.arm();
+      setIsTakeArmed(true);
+      return;
+    }
+
+    setIsTakeArmed(false);
+    const take = recorder.stop(`Toma ${takes.length + 1}`);
+    if (!take) return;
+    setTakes(prev => [...prev, take]);
+    try {
+      await saveTake(take);
+    } catch (e) {
+      console.error(e);
+    }
+  };
+
+  const handlePlayTake = async (take: Take) => {
+    const ctx = getAudioContext();
+    if (ctx.state === 'suspended') await ctx.resume();
+    takePlayerRef.current?.play(take);
+    setPlayingTakeId(take.id);
+  };
+
+  const handleStopTake = () => {
+    takePlayerRef.current?.stop();
+    setPlayingTakeId(null);
+  };
+
+  const updateTake = async (take: Take) => {
+    setTakes(prev => prev.map(t => t.id === take.id ? take : t));
+    try {
+      await saveTake(take);
+    } catch (e) {
+      console.error(e);
+    }
+  };
+
+  const handleDeleteTake = async (take: Take) => {
+    if (playingTakeId === take.id) handleStopTake();
+    setTakes(prev => prev.filter(t => t.id !== take.id));
+    try {
+      await deleteTake(take.id);
+    } catch (e) {
+      console.error(e);
+    }
+  };
+
+  const handleToggleSequencer = async () => {
+    const sequencer = sequencerRef.current;
+    if (!sequencer) return;
+    if (sequencer.isRunning()) {
+      sequencer.stop();
+      setIsSequencerRunning(false);
+      setCurrentStep(null);
+    } else {
+      const ctx = getAudioContext();
+      if (ctx.state === 'suspended') await ctx.resume();
+      sequencer.start();
+      setIsSequencerRunning(true);
+    }
+  };
+
+  const handleTogglePerformance = async () => {
+    const renderer = performanceRef.current;
+    if (!renderer || isProjectAction) return;
+
+    if (!renderer.isActive()) {
+      try {
+        const ctx = getAudioContext();
+        if (ctx.state === 'suspended') await ctx.resume();
+        renderer.start();
+        setIsPerforming(true);
+      } catch (e) {
+        showStorageError(e, "Este navegador no permite grabar la actuación");
+      }
+      return;
+    }
+
+    setIsPerforming(false);
+    setIsProjectAction(true);
+    setActionMessage("Renderizando...");
+    try {
+      const { blob } = await renderer.stop();
+      const stamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-');
+      downloadBlob(blob, `videopad_actuacion_${stamp}.${getExtensionForMime(blob.type)}`);
+    } catch (e) {
+      showStorageError(e, "No se pudo renderizar la actuación");
+    } finally {
+      setIsProjectAction(false);
+      setActionMessage(null);
+    }
+  };
+
+  const handleSequencerSettingsChange = async (settings: SequencerSettings) => {
+    setSequencerSettings(settings);
+    try {
+      await saveSetting('sequencer', settings);
+    } catch (e) {
+      console.error(e);
+    }
+  };
+
+  const handleStepChange = async (padId: number, step: number, velocity: number) => {
+    const steps = resizePattern(patternsRef.current[padId], Math.max(sequencerSettings.steps, step + 1));
+    steps[step] = velocity;
+    setPatterns(prev => ({ ...prev, [padId]: steps }));
+    try {
+      await savePattern(padId, steps);
+    } catch (e) {
+      console.error(e);
+    }
+  };
+
+  const handleClearPatterns = async () => {
+    setPatterns({});
+    try {
+      await clearPatterns();
+    } catch (e) {
+      console.error(e);
+    }
+  };
+
+  const refreshStorage = async () => {
+    setIsStorageLoading(true);
+    try {
+      const [estimate, usage] = await Promise.all([getStorageEstimate(), getProjectUsage()]);
+      setStorageEstimate(estimate);
+      setProjectUsage(usage);
+    } catch (e) {
+      console.error("Error leyendo el almacenamiento:", e);
+    } finally {
+      setIsStorageLoading(false);
+    }
+  };
+
+  const openStoragePanel = () => {
+    setNotice(null);
+    setActivePanel('storage');
+    refreshStorage();
+  };
+
+  const showStorageError = (e: unknown, action: string) => {
+    console.error(`${action}:`, e);
+    setNotice({ message: describeStorageError(e, action), actions: [{ label: 'Ver almacenamiento', run: openStoragePanel }] });
+  };
+
+  const handlePersistStorage = async () => {
+    const granted = await requestPersistentStorage();
+    if (!granted) setNotice({ message: "El navegador no ha concedido el almacenamiento persistente. Instala VideoPad como app o añádelo a favoritos y vuelve a intentarlo." });
+    refreshStorage();
+  };
+
+  const handleClearHistory = async () => {
+    try {
+      await history.clear();
+    } catch (e) {
+      console.error(e);
+    }
+    refreshStorage();
+  };
+
+  const openConsolidate = async (padIds: number[]) => {
+    if (isProjectAction || padIds.length === 0) return;
+    try {
+      const usage = await getProjectUsage();
+      const sizes: Record<number, number> = {};
+      usage.pads.forEach(pad => { sizes[pad.padId] = pad.bytes; });
+      stopAllPads();
+      setActivePanel(null);
+      setConsolidate({ padIds, sizes });
+    } catch (e) {
+      showStorageError(e, "No se pudo leer el espacio de los pads");
+    }
+  };
+
+  // Se aplica solo si el clip nuevo ocupa menos que el medio que sustituye
+  const handleConsolidatePad = async (id: number, options: ConsolidateOptions): Promise<ConsolidateResult> => {
+    const cell = cells.find(c => c.id === id && !c.isEmpty);
+    const clip = await getClip(id);
+    if (!cell?.audioBuffer || !clip?.blob) throw new Error("El pad no tiene audio.");
+    const result = await consolidateClip(clip.blob, cell.audioBuffer, cell, options);
+    if (result.blob.size >= clip.blob.size) return { after: result.blob.size, applied: false };
+
+    const transform = result.bakedTransform ? DEFAULT_TRANSFORM : cell.transform;
+    await history.record('Consolidar pad', [id], () =>
+      saveClip(id, result.blob, 0, result.duration, cell.volume, transform, cell.allowOverlap, cell.playback, cell.pitch, cell.fx, cell.envelope),
+      { withMedia: true }
+    );
+    const buffer = await decodeAudio(result.blob).catch(() => cell.audioBuffer);
+    const videoUrl = getTrackedUrl(id, result.blob);
+    setCells(prev => prev.map(c => c.id === id ? {
+      ...c, videoUrl, posterUrl: getPosterUrl(id, result.blob, buffer), audioBuffer: buffer, startTime: 0, endTime: result.duration, transform
+    } : c));
+    return { after: result.blob.size, applied: true };
+  };
+
+  // Antes de abrir la cámara se comprueba que quepa otra grabación
+  const confirmRecordingSpace = async (start: () => void) => {
+    const free = await checkRecordingSpace();
+    if (free === null) return true;
+    setNotice({
+      message: `Solo quedan ${formatBytes(free)} libres: puede que la grabación no se pueda guardar.`,
+      actions: [
+        { label: 'Grabar igualmente', run: () => { setNotice(null); start(); } },
+        { label: 'Ver almacenamiento', run: openStoragePanel },
+      ],
+    });
+    return false;
+  };
+
+  const handleStartRecording = async (id: number, skipSpaceCheck = false) => {
+    if (!skipSpaceCheck && !(await confirmRecordingSpace(() => handleStartRecording(id, true)))) return;
     setActiveCellId(id);
     const stream = await initCamera();
     if (stream) setShowRecorder(true);
@@ -147,11 +775,12 @@ export default function App() {
       url: currentCell.videoUrl,
       start: clip.startTime, 
       end: clip.endTime || 0,
-      volume: clip.volume ?? DEFAULT_VOLUME
+      volume: clip.volume ?? DEFAULT_VOLUME,
+      envelope: currentCell.envelope
     });
   };
 
-  const handleSaveTrim = async (start: number, end: number) => {
+  const handleSaveTrim = async (start: number, end: number, envelope: PadEnvelope) => {
     if (!trimmerData) return;
     const { id } = trimmerData;
     
@@ -161,19 +790,19 @@ export default function App() {
     try {
       // Usar updateClipTrim para evitar reenviar el Blob a IndexedDB, 
       // lo cual previene errores de serialización "Error preparing Blob/File data".
-      await updateClipTrim(id, start, end);
+      await history.record('Recorte', [id], () => updateClipTrim(id, start, end, envelope));
 
       // Actualizar estado local inmediatamente.
       setCells(prev => prev.map(c => c.id === id ? {
         ...c,
         startTime: start,
-        endTime: end
+        endTime: end,
+        envelope
       } : c));
       
       console.log(`Pad ${id} recortado correctamente a: ${start.toFixed(2)}s - ${end.toFixed(2)}s`);
     } catch (e) {
-      console.error("Error al guardar recorte:", e);
-      alert("No se pudo aplicar el recorte.");
+      showStorageError(e, "No se pudo aplicar el recorte");
     } finally {
       setTrimmerData(null);
       setIsProjectAction(false);
@@ -181,33 +810,109 @@ export default function App() {
     }
   };
 
+  // Pads vacíos empezando por el banco actual, en orden de pad (trocear tomas, importar kits)
+  const getEmptyTargets = () => {
+    const start = BANKS.indexOf(currentBank);
+    const order = [...BANKS.slice(start), ...BANKS.slice(0, start)];
+    return order.flatMap(bank => cells.filter(c => c.isEmpty && getBankOf(c.id) === bank).map(c => c.id));
+  };
+
+  const handleStartSliceRecording = async (skipSpaceCheck = false) => {
+    if (!skipSpaceCheck && !(await confirmRecordingSpace(() => handleStartSliceRecording(true)))) return;
+    setIsSliceRecording(true);
+    const stream = await initCamera();
+    if (stream) setShowRecorder(true); else setIsSliceRecording(false);
+  };
+
+  const handleSliceCapture = async (blob: Blob) => {
+    stopCamera();
+    setShowRecorder(false);
+    setIsSliceRecording(false);
+    setIsProjectAction(true);
+    setActionMessage("Analizando...");
+    try {
+      const buffer = await decodeAudio(blob);
+      setSliceData({ blob, buffer, url: URL.createObjectURL(blob) });
+    } catch (e) {
+      showStorageError(e, "La toma no tiene audio que se pueda trocear");
+    } finally {
+      setIsProjectAction(false);
+      setActionMessage(null);
+    }
+  };
+
+  const closeSlicer = () => {
+    if (sliceData) URL.revokeObjectURL(sliceData.url);
+    setSliceData(null);
+  };
+
+  // Cada trozo apunta a la misma toma guardada una sola vez, con su propio recorte
+  const handleConfirmSlices = async (slices: Slice[]) => {
+    if (!sliceData) return;
+    const { blob, buffer } = sliceData;
+    const targets = getEmptyTargets();
+    setIsProjectAction(true);
+    setActionMessage("Troceando...");
+    try {
+      const assigned = slices.slice(0, targets.length);
+      const saved: PadCell[] = [];
+      await history.record('Trocear toma', targets.slice(0, assigned.length), async () => {
+        const media = await saveMedia(blob);
+        for (const [index, { start, end }] of assigned.entries()) {
+          const id = targets[index];
+          await saveClip(id, media, start, end, DEFAULT_VOLUME, DEFAULT_TRANSFORM, false, DEFAULT_PLAYBACK, DEFAULT_PITCH, DEFAULT_FX, DEFAULT_ENVELOPE);
+          saved.push({ ...createEmptyCell(id), videoUrl: getTrackedUrl(id, blob), posterUrl: getPosterUrl(id, blob, buffer), audioBuffer: buffer, startTime: start, endTime: end, isEmpty: false });
+        }
+      }, { withMedia: true });
+      setCells(prev => prev.map(c => saved.find(s => s.id === c.id) || c));
+    } catch (e) {
+      showStorageError(e, "No se pudo repartir la toma en los pads");
+    } finally {
+      closeSlicer();
+      setIsProjectAction(false);
+      setActionMessage(null);
+    }
+  };
+
+  // Grabaciones e importaciones pasan por el mismo análisis de ataque y guardado
+  const storeClip = async (label: string, id: number, blob: Blob, buffer: AudioBuffer, duration: number) => {
+    const startTime = findBufferOnset(buffer);
+    const currentCell = cells.find(c => c.id === id);
+    const vol = currentCell?.isEmpty ? DEFAULT_VOLUME : currentCell?.volume ?? DEFAULT_VOLUME;
+    await history.record(label, [id], () =>
+      saveClip(id, blob, startTime, duration, vol, DEFAULT_TRANSFORM, false, DEFAULT_PLAYBACK, DEFAULT_PITCH, DEFAULT_FX, DEFAULT_ENVELOPE),
+      { withMedia: true }
+    );
+    // Con el primer clip guardado pedimos que el navegador no borre los datos
+    if (!persistRequestedRef.current) {
+      persistRequestedRef.current = true;
+      requestPersistentStorage();
+    }
+
+    const videoUrl = getTrackedUrl(id, blob);
+    setCells(prev => prev.map(c => c.id === id ? {
+      id, videoUrl, posterUrl: getPosterUrl(id, blob, buffer), audioBuffer: buffer, startTime, endTime: duration,
+      isEmpty: false, volume: vol, transform: DEFAULT_TRANSFORM, allowOverlap: false, playback: DEFAULT_PLAYBACK, pitch: DEFAULT_PITCH, fx: DEFAULT_FX, envelope: DEFAULT_ENVELOPE
+    } : c));
+  };
+
   const handleCaptureComplete = async (blob: Blob) => {
+    if (isSliceRecording) {
+      await handleSliceCapture(blob);
+      return;
+    }
     if (activeCellId === null) return;
     stopCamera();
     setIsProjectAction(true);
     setActionMessage("Analizando...");
     try {
-      const startTime = await findBeatOnset(blob);
-      const v = document.createElement('video');
-      const u = URL.createObjectURL(blob);
-      const duration = await new Promise<number>((resolve) => {
-        v.onloadedmetadata = () => resolve(v.duration || 1);
-        v.onerror = () => resolve(1);
-        v.src = u;
-      });
-      const currentCell = cells.find(c => c.id === activeCellId);
-      const vol = currentCell?.isEmpty ? DEFAULT_VOLUME : currentCell?.volume ?? DEFAULT_VOLUME;
-      await saveClip(activeCellId, blob, startTime, duration, vol, DEFAULT_TRANSFORM, false);
-      
       const buffer = await decodeAudio(blob);
-      const videoUrl = getTrackedUrl(activeCellId, blob);
-      setCells(prev => prev.map(c => c.id === activeCellId ? {
-        id: activeCellId, videoUrl, audioBuffer: buffer, startTime, endTime: duration,
-        isEmpty: false, volume: vol, transform: DEFAULT_TRANSFORM, allowOverlap: false
-      } : c));
-
+      // Las grabaciones webm a veces no declaran duración; el audio decodificado sí la tiene
+      const probe = await probeMedia(blob).catch(() => null);
+      const duration = probe && Number.isFinite(probe.duration) && probe.duration > 0 ? probe.duration : buffer.duration;
+      await storeClip('Grabar pad', activeCellId, blob, buffer, duration);
     } catch (e) {
-      console.error(e);
+      showStorageError(e, "No se pudo guardar la grabación");
     } finally {
       setIsProjectAction(false);
       setActionMessage(null);
@@ -216,19 +921,33 @@ export default function App() {
     }
   };
 
+  const handleImportFile = async (id: number, file: File) => {
+    if (isProjectAction) return;
+    setIsProjectAction(true);
+    setActionMessage("Importando...");
+    try {
+      const { blob, buffer, duration } = await loadImportedFile(file);
+      await storeClip('Importar archivo', id, blob, buffer, duration);
+    } catch (e) {
+      showStorageError(e, "No se pudo importar el archivo");
+    } finally {
+      setIsProjectAction(false);
+      setActionMessage(null);
+    }
+  };
+
   const handleDelete = async (id: number) => {
     setIsProjectAction(true);
     setActionMessage("Borrando...");
     try {
-      await deleteClip(id);
+      await history.record('Borrar pad', [id], () => deleteClip(id), { withMedia: true });
       const url = activeUrlsRef.current.get(id);
       if (url) {
         URL.revokeObjectURL(url);
         activeUrlsRef.current.delete(id);
       }
-      setCells(prev => prev.map(c => c.id === id ? {
-        id, videoUrl: null, audioBuffer: null, startTime: 0, endTime: 0, isEmpty: true, volume: DEFAULT_VOLUME, transform: DEFAULT_TRANSFORM, allowOverlap: false
-      } : c));
+      setCells(prev => prev.map(c => c.id === id ? createEmptyCell(id) : c));
+      if (chromatic?.sourceId === id) await handleChromaticChange(null);
     } catch (e) {
       console.error(e);
     } finally {
@@ -237,24 +956,183 @@ export default function App() {
     }
   };
 
+  // Las URLs siguen al clip: al mover se intercambian, al duplicar el nuevo pad estrena las suyas
+  const handleMovePad = async (from: number, to: number, copy: boolean) => {
+    const source = cells.find(c => c.id === from && !c.isEmpty);
+    const target = cells.find(c => c.id === to);
+    if (isProjectAction || !source || !target || from === to) return;
+    if (copy && !target.isEmpty) return;
+    setIsProjectAction(true);
+    setActionMessage(copy ? "Duplicando..." : "Moviendo...");
+    try {
+      if (copy) {
+        await history.record('Duplicar pad', [from, to], () => duplicateClip(from, to), { withMedia: true });
+        const clip = await getClip(to);
+        if (!clip?.blob) return;
+        const videoUrl = getTrackedUrl(to, clip.blob);
+        const posterUrl = getPosterUrl(to, clip.blob, source.audioBuffer);
+        setCells(prev => prev.map(c => c.id === to ? { ...source, id: to, videoUrl, posterUrl } : c));
+        return;
+      }
+
+      await history.record(target.isEmpty ? 'Mover pad' : 'Intercambiar pads', [from, to], () => moveClip(from, to), { withMedia: true });
+      stopAllPads();
+      const urls = activeUrlsRef.current;
+      const sourceUrl = urls.get(from);
+      const targetUrl = urls.get(to);
+      urls.delete(from);
+      urls.delete(to);
+      if (sourceUrl) urls.set(to, sourceUrl);
+      if (targetUrl) urls.set(from, targetUrl);
+      setCells(prev => prev.map(c =>
+        c.id === to ? { ...source, id: to } :
+        c.id === from ? (target.isEmpty ? createEmptyCell(from) : { ...target, id: from }) : c
+      ));
+      // El modo cromático sigue a su clip de origen
+      if (chromatic && (chromatic.sourceId === from || chromatic.sourceId === to)) {
+        await handleChromaticChange({ ...chromatic, sourceId: chromatic.sourceId === from ? to : from });
+      }
+    } catch (e) {
+      console.error("Error al mover el pad:", e);
+    } finally {
+      setIsProjectAction(false);
+      setActionMessage(null);
+    }
+  };
+
+  const handleDuplicatePad = (id: number) => {
+    const [target] = getEmptyTargets();
+    if (target === undefined) {
+      setNotice({ message: "No quedan pads vacíos para duplicar." });
+      return;
+    }
+    handleMovePad(id, target, true);
+  };
+
   const handleVolumeChange = async (id: number, volume: number) => {
     try {
-      await updateClipVolume(id, volume);
+      await history.record('Volumen', [id], () => updateClipVolume(id, volume), { coalesce: `volume-${id}` });
       setCells(prev => prev.map(cell => cell.id === id ? { ...cell, volume } : cell));
     } catch (e) {
       console.error(e);
     }
   };
 
+  const handleSaveTransform = async (transform: PadTransform) => {
+    if (transformCellId === null) return;
+    const id = transformCellId;
+    try {
+      await history.record('Encuadre', [id], () => updateClipTransform(id, transform));
+      setCells(prev => prev.map(cell => cell.id === id ? { ...cell, transform } : cell));
+    } catch (e) {
+      console.error(e);
+    } finally {
+      setTransformCellId(null);
+    }
+  };
+
   const handleToggleOverlap = async (id: number, allowOverlap: boolean) => {
     try {
-      await updateClipOverlap(id, allowOverlap);
+      await history.record('Solapamiento', [id], () => updateClipOverlap(id, allowOverlap));
       setCells(prev => prev.map(cell => cell.id === id ? { ...cell, allowOverlap } : cell));
     } catch (e) {
       console.error(e);
     }
   };
 
+  const handlePlaybackChange = async (id: number, playback: PadPlayback) => {
+    try {
+      await history.record('Modo de reproducción', [id], () => updateClipPlayback(id, playback));
+      setCells(prev => prev.map(cell => cell.id === id ? { ...cell, playback } : cell));
+    } catch (e) {
+      console.error(e);
+    }
+  };
+
+  const handleSavePitch = async (pitch: PadPitch, nextChromatic: ChromaticSettings | null) => {
+    if (pitchCellId === null) return;
+    const id = pitchCellId;
+    try {
+      await history.record('Afinación', [id], () => updateClipPitch(id, pitch));
+      setCells(prev => prev.map(cell => cell.id === id ? { ...cell, pitch } : cell));
+      if (nextChromatic !== chromatic) await handleChromaticChange(nextChromatic);
+    } catch (e) {
+      console.error(e);
+    } finally {
+      setPitchCellId(null);
+    }
+  };
+
+  const handleSaveFx = async (fx: PadFx) => {
+    if (fxCellId === null) return;
+    const id = fxCellId;
+    try {
+      await history.record('Efectos', [id], () => updateClipFx(id, fx));
+      setCells(prev => prev.map(cell => cell.id === id ? { ...cell, fx } : cell));
+    } catch (e) {
+      console.error(e);
+    } finally {
+      setFxCellId(null);
+    }
+  };
+
+  // Tras deshacer o rehacer solo se releen los pads afectados
+  const refreshPads = async ({ padIds, withMedia }: HistoryStep) => {
+    const updated = new Map<number, PadCell>();
+    const decoded = new Map<Blob, AudioBuffer | null>();
+    for (const id of padIds) {
+      const clip = await getClip(id);
+      if (!clip?.blob) {
+        const url = activeUrlsRef.current.get(id);
+        if (url) {
+          URL.revokeObjectURL(url);
+          activeUrlsRef.current.delete(id);
+        }
+        updated.set(id, createEmptyCell(id));
+        continue;
+      }
+      const current = cells.find(c => c.id === id && !c.isEmpty);
+      const keepMedia = !withMedia && current;
+      let buffer = keepMedia ? current.audioBuffer : decoded.get(clip.blob) ?? null;
+      if (!keepMedia && !decoded.has(clip.blob)) {
+        try { buffer = await decodeAudio(clip.blob); } catch (err) { console.warn(`Error decodificando pad ${id}:`, err); }
+        decoded.set(clip.blob, buffer);
+      }
+      updated.set(id, {
+        ...createEmptyCell(id),
+        videoUrl: keepMedia ? current.videoUrl : getTrackedUrl(id, clip.blob),
+        posterUrl: keepMedia ? current.posterUrl : getPosterUrl(id, clip.blob, buffer),
+        audioBuffer: buffer, startTime: clip.startTime, endTime: clip.endTime,
+        isEmpty: false, volume: clip.volume ?? DEFAULT_VOLUME,
+        transform: clip.transform || DEFAULT_TRANSFORM,
+        allowOverlap: clip.allowOverlap ?? false,
+        playback: normalizePlayback(clip.playback),
+        pitch: normalizePitch(clip.pitch),
+        fx: normalizeFx(clip.fx),
+        envelope: normalizeEnvelope(clip.envelope)
+      });
+    }
+    setCells(prev => prev.map(c => updated.get(c.id) || c));
+    if (chromatic && updated.get(chromatic.sourceId)?.isEmpty) await handleChromaticChange(null);
+  };
+
+  const handleHistoryStep = async (direction: 'undo' | 'redo') => {
+    if (isProjectAction) return;
+    if (direction === 'undo' ? !historyState.canUndo : !historyState.canRedo) return;
+    setIsProjectAction(true);
+    setActionMessage(direction === 'undo' ? "Deshaciendo..." : "Rehaciendo...");
+    try {
+      stopAllPads();
+      const step = direction === 'undo' ? await history.undo() : await history.redo();
+      if (step) await refreshPads(step);
+    } catch (e) {
+      console.error("Error en el historial:", e);
+    } finally {
+      setIsProjectAction(false);
+      setActionMessage(null);
+    }
+  };
+
   const handleClearAll = () => {
     if (!isConfirmingClear) {
       setIsConfirmingClear(true);
@@ -267,9 +1145,17 @@ export default function App() {
     (async () => {
       try {
         const clips = await getAllClips();
-        for (const clip of clips) await deleteClip(clip.id);
+        const ids = clips.map(clip => clip.id);
+        await history.record('Borrar todo', ids, async () => {
+          for (const id of ids) await deleteClip(id);
+        }, { withMedia: true });
+        await clearPatterns();
+        await clearTakes();
+        await handleChromaticChange(null);
         cleanupAllUrls();
         loadData(true);
+        loadSequencer();
+        loadTakes();
         setIsConfirmingClear(false);
       } catch (e) {
         console.error(e);
@@ -281,23 +1167,145 @@ export default function App() {
     if (isProjectAction) return;
     setIsProjectAction(true);
     setActionMessage("Exportando...");
+    const controller = new AbortController();
+    setTransfer(controller);
+    try {
+      await exportProject(newProjectName || "Sesion VideoPad", (done, total) => setActionMessage(`Exportando ${done}/${total}...`), controller.signal);
+      setShowSaveModal(false);
+    } catch (e) {
+      if (!isAbortError(e)) showStorageError(e, "No se pudo exportar el proyecto");
+    } finally { setIsProjectAction(false); setActionMessage(null); setTransfer(null); }
+  };
+
+  const handleExportKit = async (name: string, padIds: number[], withVideo: boolean) => {
+    if (isProjectAction) return;
+    setIsProjectAction(true);
+    setActionMessage("Exportando kit...");
+    try {
+      await exportKit(name, cells.filter(c => padIds.includes(c.id)), withVideo, (done, total) => setActionMessage(`Exportando kit ${done}/${total}...`));
+      setShowKitExport(false);
+    } catch (e) {
+      if (!isAbortError(e)) showStorageError(e, "No se pudo exportar el kit");
+    } finally { setIsProjectAction(false); setActionMessage(null); }
+  };
+
+  const handleKitFile = async (file: File) => {
     try {
-      await exportProject(newProjectName || "Sesion VideoPad");
+      setKitImport(await readKit(file));
       setShowSaveModal(false);
     } catch (e) {
-      alert("Error al exportar.");
+      showStorageError(e, "No se pudo leer el kit");
+    }
+  };
+
+  // Solo se tocan los huecos elegidos; el resto de la rejilla sigue igual
+  const handleImportKit = async (assignments: { index: number; padId: number }[]) => {
+    if (!kitImport) return;
+    setIsProjectAction(true);
+    setActionMessage("Importando kit...");
+    try {
+      await history.record('Importar kit', assignments.map(a => a.padId), async () => {
+        for (const { index, padId } of assignments) await saveKitPad(kitImport.pads[index], padId);
+      }, { withMedia: true });
+      const imported: PadCell[] = [];
+      for (const { index, padId } of assignments) {
+        const pad = kitImport.pads[index];
+        const { descriptor } = pad;
+        let buffer: AudioBuffer | null = null;
+        try { buffer = await decodeAudio(pad.media); } catch (err) { console.warn(`Error decodificando pad ${padId}:`, err); }
+        imported.push({
+          id: padId, videoUrl: getTrackedUrl(padId, pad.media), posterUrl: getPosterUrl(padId, pad.media, buffer), audioBuffer: buffer,
+          startTime: 0, endTime: descriptor.duration, isEmpty: false,
+          volume: descriptor.volume,
+          transform: descriptor.transform,
+          allowOverlap: descriptor.allowOverlap,
+          playback: descriptor.playback,
+          pitch: descriptor.pitch,
+          fx: descriptor.fx,
+          envelope: descriptor.envelope
+        });
+      }
+      setCells(prev => prev.map(c => imported.find(i => i.id === c.id) || c));
+      setKitImport(null);
+    } catch (e) {
+      showStorageError(e, "No se pudo importar el kit");
     } finally { setIsProjectAction(false); setActionMessage(null); }
   };
 
   const handleImport = async (file: File) => {
     setIsProjectAction(true);
     setActionMessage("Importando...");
+    const controller = new AbortController();
+    setTransfer(controller);
     try {
-      await importProject(file);
-      cleanupAllUrls();
-      loadData(true);
+      const { project, report } = await importProject(file, (done, total) => setActionMessage(`Importando ${done}/${total}...`), controller.signal);
+      await openProject(project);
+      setShowProjects(false);
+      setImportReport(report);
+    } catch (e) {
+      if (!isAbortError(e)) showStorageError(e, "No se pudo importar el proyecto");
+    } finally { setIsProjectAction(false); setActionMessage(null); setTransfer(null); }
+  };
+
+  const handleOpenProject = async (projectId: string) => {
+    const project = await getProject(projectId);
+    if (!project) return;
+    setIsProjectAction(true);
+    setActionMessage("Abriendo...");
+    try {
+      await openProject(project);
+      setShowProjects(false);
+    } catch (e) {
+      console.error(e);
+    } finally { setIsProjectAction(false); setActionMessage(null); }
+  };
+
+  const handleCreateProject = async (name: string) => {
+    try {
+      const project = await createProject(name);
+      await handleOpenProject(project.id);
+    } catch (e) {
+      console.error(e);
+    }
+  };
+
+  const handleRenameProject = async (projectId: string, name: string) => {
+    try {
+      await renameProject(projectId, name);
+      if (activeProject?.id === projectId) setActiveProjectInfo({ ...activeProject, name });
+      await refreshProjects();
+    } catch (e) {
+      console.error(e);
+    }
+  };
+
+  const handleDuplicateProject = async (projectId: string) => {
+    const source = projects.find(p => p.id === projectId);
+    if (!source) return;
+    setIsProjectAction(true);
+    setActionMessage("Duplicando...");
+    try {
+      await duplicateProject(projectId, `${source.name} (copia)`);
+      await refreshProjects();
+    } catch (e) {
+      console.error(e);
+    } finally { setIsProjectAction(false); setActionMessage(null); }
+  };
+
+  const handleDeleteProject = async (projectId: string) => {
+    setIsProjectAction(true);
+    setActionMessage("Borrando...");
+    try {
+      await deleteProject(projectId);
+      if (activeProject?.id === projectId) {
+        // Siempre tiene que haber un proyecto abierto
+        const remaining = await getAllProjects();
+        await openProject(remaining[0] || await createProject('Mi Proyecto'));
+      } else {
+        await refreshProjects();
+      }
     } catch (e) {
-      alert("Error al importar el proyecto.");
+      console.error(e);
     } finally { setIsProjectAction(false); setActionMessage(null); }
   };
 
@@ -315,24 +1323,80 @@ export default function App() {
       <input type="file" ref={fileInputRef} onChange={async (e) => {
         const f = e.target.files?.[0]; if (f) await handleImport(f); if (fileInputRef.current) fileInputRef.current.value = '';
       }} accept=".zip" className="hidden" />
+      <input type="file" ref={kitInputRef} onChange={async (e) => {
+        const f = e.target.files?.[0]; if (f) await handleKitFile(f); if (kitInputRef.current) kitInputRef.current.value = '';
+      }} accept=".zip" className="hidden" />
       
       <header className="flex-none p-4 flex items-center justify-between border-b border-gray-800 bg-gray-900/90 backdrop-blur-md z-20">
         <div className="flex items-center gap-3">
           <div className="relative w-10 h-10 rounded-xl overflow-hidden bg-white/10 shadow-lg ring-1 ring-white/10"><img src="/logo.png" alt="Logo" className="w-full h-full object-cover" /></div>
-          <h1 className="text-xl font-black tracking-tighter bg-clip-text text-transparent bg-gradient-to-r from-white to-gray-400">VideoPad <span className="text-pink-500 text-[10px] font-black align-top ml-0.5 uppercase tracking-tighter opacity-80">PRO</span></h1>
+          <div>
+            <div className="flex items-center gap-2">
+              <h1 className="text-xl font-black tracking-tighter bg-clip-text text-transparent bg-gradient-to-r from-white to-gray-400">VideoPad <span className="text-pink-500 text-[10px] font-black align-top ml-0.5 uppercase tracking-tighter opacity-80">PRO</span></h1>
+              {!isOnline && (
+                <span title="Sin conexión: la app y tus proyectos siguen funcionando en este dispositivo" className="flex items-center gap-1 px-2 py-0.5 rounded-full bg-yellow-500/15 border border-yellow-500/40 text-yellow-400 text-[9px] font-black uppercase tracking-widest">
+                  <WifiOff className="w-3 h-3" /> Sin conexión
+                </span>
+              )}
+            </div>
+            {activeProject && <p className="text-[9px] font-black uppercase tracking-widest text-gray-500 truncate max-w-[10rem]">{activeProject.name}</p>}
+          </div>
         </div>
         <div className="flex items-center gap-2">
-          <button onClick={() => fileInputRef.current?.click()} className="h-11 px-4 bg-gray-800 border border-gray-700 rounded-xl text-xs font-black flex items-center gap-2 transition-all active:scale-95 shadow-inner hover:bg-gray-700">
-            <FolderOpen className="w-4 h-4 text-blue-400"/><span className="hidden xs:inline uppercase">Cargar</span>
+          <div className="flex gap-1 p-1 mr-2 bg-gray-800/60 border border-gray-700 rounded-xl">
+            {BANKS.map(bank => {
+              const hasClips = cells.some(c => !c.isEmpty && getBankOf(c.id) === bank);
+              return (
+                <button key={bank} onClick={() => setCurrentBank(bank)} className={`relative w-9 h-9 rounded-lg text-xs font-black transition-all active:scale-95 ${currentBank === bank ? 'bg-pink-600 text-white shadow-lg shadow-pink-600/20' : 'text-gray-400 hover:text-white'}`}>
+                  {bank}
+                  {hasClips && currentBank !== bank && <span className="absolute top-1 right-1 w-1.5 h-1.5 rounded-full bg-pink-500" />}
+                </button>
+              );
+            })}
+          </div>
+          <button onClick={() => { refreshProjects(); setShowProjects(true); }} className="h-11 px-4 bg-gray-800 border border-gray-700 rounded-xl text-xs font-black flex items-center gap-2 transition-all active:scale-95 shadow-inner hover:bg-gray-700">
+            <Library className="w-4 h-4 text-blue-400"/><span className="hidden xs:inline uppercase">Proyectos</span>
           </button>
-          <button onClick={() => setShowSaveModal(true)} className="h-11 px-6 bg-white text-black rounded-xl text-xs font-black flex items-center gap-2 shadow-lg transition-all active:scale-95 hover:bg-gray-100">
+          <button onClick={() => { setNewProjectName(activeProject?.name || ''); setShowSaveModal(true); }} className="h-11 px-6 bg-white text-black rounded-xl text-xs font-black flex items-center gap-2 shadow-lg transition-all active:scale-95 hover:bg-gray-100">
             <Save className="w-4 h-4"/><span className="hidden xs:inline uppercase">Guardar</span>
           </button>
           <button onClick={handleClearAll} className={`h-11 px-4 rounded-xl text-xs font-black transition-all flex items-center gap-2 border shadow-lg ${isConfirmingClear ? 'bg-red-600 border-red-500 text-white animate-pulse' : 'bg-gray-800/50 border-gray-700 text-gray-500 hover:text-red-400'}`}>
             {isConfirmingClear ? <AlertTriangle className="w-4 h-4" /> : <Trash2 className="w-4 h-4" />}
             <span className="uppercase tracking-widest">{isConfirmingClear ? '¿Seguro?' : 'BORRAR TODO'}</span>
           </button>
+          <div className="flex gap-1 ml-2">
+            <button onClick={() => handleHistoryStep('undo')} disabled={!historyState.canUndo || isProjectAction} title={historyState.undoLabel ? `Deshacer: ${historyState.undoLabel}` : 'Deshacer'} className="w-11 h-11 flex items-center justify-center bg-gray-800 border border-gray-700 rounded-full text-gray-400 hover:text-white transition-colors disabled:opacity-30">
+              <Undo2 className="w-5 h-5" />
+            </button>
+            <button onClick={() => handleHistoryStep('redo')} disabled={!historyState.canRedo || isProjectAction} title={historyState.redoLabel ? `Rehacer: ${historyState.redoLabel}` : 'Rehacer'} className="w-11 h-11 flex items-center justify-center bg-gray-800 border border-gray-700 rounded-full text-gray-400 hover:text-white transition-colors disabled:opacity-30">
+              <Redo2 className="w-5 h-5" />
+            </button>
+          </div>
           <div className="flex gap-2 ml-2 border-l border-gray-800 pl-4">
+            <button onClick={() => handleStartSliceRecording()} className="w-11 h-11 flex items-center justify-center bg-gray-800 border border-gray-700 rounded-full text-gray-400 hover:text-white transition-colors">
+              <SquareSplitHorizontal className="w-5 h-5" />
+            </button>
+            <button onClick={handleTogglePerformance} className={`w-11 h-11 flex items-center justify-center rounded-full transition-all ${isPerforming ? 'bg-red-600 text-white shadow-xl shadow-red-600/30 animate-pulse' : 'bg-gray-800 border border-gray-700 text-gray-400 hover:text-white'}`}>
+              <Clapperboard className="w-5 h-5" />
+            </button>
+            <button onClick={() => togglePanel('keys')} className={`hidden sm:flex w-11 h-11 items-center justify-center rounded-full transition-all ${activePanel === 'keys' ? 'bg-pink-600 text-white shadow-xl shadow-pink-600/20' : 'bg-gray-800 border border-gray-700 text-gray-400 hover:text-white'}`}>
+              <Keyboard className="w-5 h-5" />
+            </button>
+            <button onClick={() => togglePanel('mixer')} className={`w-11 h-11 flex items-center justify-center rounded-full transition-all ${activePanel === 'mixer' ? 'bg-pink-600 text-white shadow-xl shadow-pink-600/20' : 'bg-gray-800 border border-gray-700 text-gray-400 hover:text-white'}`}>
+              <SlidersVertical className="w-5 h-5" />
+            </button>
+            <button onClick={() => activePanel === 'storage' ? setActivePanel(null) : openStoragePanel()} className={`hidden sm:flex w-11 h-11 items-center justify-center rounded-full transition-all ${activePanel === 'storage' ? 'bg-pink-600 text-white shadow-xl shadow-pink-600/20' : 'bg-gray-800 border border-gray-700 text-gray-400 hover:text-white'}`}>
+              <HardDrive className="w-5 h-5" />
+            </button>
+            <button onClick={() => togglePanel('midi')} className={`w-11 h-11 flex items-center justify-center rounded-full transition-all ${activePanel === 'midi' ? 'bg-pink-600 text-white shadow-xl shadow-pink-600/20' : 'bg-gray-800 border border-gray-700 text-gray-400 hover:text-white'}`}>
+              <Piano className="w-5 h-5" />
+            </button>
+            <button onClick={() => togglePanel('takes')} className={`w-11 h-11 flex items-center justify-center rounded-full transition-all ${activePanel === 'takes' || isTakeArmed ? 'bg-pink-600 text-white shadow-xl shadow-pink-600/20' : 'bg-gray-800 border border-gray-700 text-gray-400 hover:text-white'}`}>
+              <ListMusic className={`w-5 h-5 ${isTakeArmed ? 'animate-pulse' : ''}`} />
+            </button>
+            <button onClick={() => togglePanel('sequencer')} className={`w-11 h-11 flex items-center justify-center rounded-full transition-all ${activePanel === 'sequencer' || isSequencerRunning ? 'bg-pink-600 text-white shadow-xl shadow-pink-600/20' : 'bg-gray-800 border border-gray-700 text-gray-400 hover:text-white'}`}>
+              <Drum className={`w-5 h-5 ${isSequencerRunning ? 'animate-pulse' : ''}`} />
+            </button>
             <button onClick={() => setShowInfo(true)} className="w-11 h-11 flex items-center justify-center bg-gray-800 border border-gray-700 rounded-full text-gray-400 hover:text-white transition-colors">
               <Info className="w-5 h-5" />
             </button>
@@ -345,7 +1409,39 @@ export default function App() {
 
       {actionMessage && (
         <div className="fixed top-24 left-1/2 -translate-x-1/2 z-[100] bg-pink-600 px-6 py-3 rounded-full shadow-2xl flex items-center gap-3 animate-in slide-in-from-top-4 duration-300">
-          <Loader2 className="w-4 h-4 animate-spin" /><span className="text-xs font-black uppercase tracking-widest">{actionMessage}</span>
+          <Loader2 className="w-4 h-4 animate-spin" /><span className="text-xs font-black uppercase tracking-widest tabular-nums">{actionMessage}</span>
+          {transfer && (
+            <button onClick={() => { transfer.abort(); setActionMessage("Cancelando..."); }} disabled={transfer.signal.aborted} className="-mr-2 px-3 py-1 bg-black/20 hover:bg-black/40 rounded-full text-[10px] font-black uppercase tracking-widest transition-colors disabled:opacity-50">Cancelar</button>
+          )}
+        </div>
+      )}
+
+      {notice && (
+        <div className="fixed top-24 left-1/2 -translate-x-1/2 z-[130] w-[min(92vw,32rem)] bg-gray-900 border border-red-500/50 p-4 rounded-2xl shadow-2xl flex flex-col gap-3 animate-in slide-in-from-top-4 duration-300">
+          <div className="flex items-start gap-3">
+            <AlertTriangle className="flex-none w-4 h-4 mt-0.5 text-red-400" />
+            <p className="flex-1 text-xs font-bold text-gray-200">{notice.message}</p>
+            <button onClick={() => setNotice(null)} className="flex-none text-gray-500 hover:text-white"><X className="w-4 h-4" /></button>
+          </div>
+          {notice.actions && (
+            <div className="flex justify-end gap-2">
+              {notice.actions.map(action => (
+                <button key={action.label} onClick={action.run} className="px-3 py-1.5 bg-gray-800 border border-gray-700 rounded-lg text-[10px] font-black uppercase tracking-widest text-gray-300 hover:text-white">
+                  {action.label}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {applyUpdate && (
+        <div className="fixed bottom-16 left-1/2 -translate-x-1/2 z-[100] bg-gray-900 border border-gray-700 pl-5 pr-2 py-2 rounded-full shadow-2xl flex items-center gap-3 animate-in slide-in-from-bottom-4 duration-300">
+          <span className="text-[10px] font-black uppercase tracking-widest text-gray-300">Nueva versión disponible</span>
+          <button onClick={() => setApplyUpdate(null)} className="px-3 py-1.5 rounded-full text-[10px] font-black uppercase tracking-widest text-gray-500 hover:text-white">Luego</button>
+          <button onClick={applyUpdate} className="px-4 py-1.5 bg-pink-600 hover:bg-pink-500 rounded-full text-[10px] font-black uppercase tracking-widest text-white flex items-center gap-1.5 active:scale-95">
+            <RefreshCw className="w-3 h-3" /> Actualizar
+          </button>
         </div>
       )}
 
@@ -355,23 +1451,48 @@ export default function App() {
             <GridCell
               key={cell.id}
               cell={cell} 
+              isHidden={getBankOf(cell.id) !== currentBank}
               isDeleteMode={isDeleteMode} 
-              isSuspended={showRecorder || !!trimmerData}
+              isSuspended={isEditing}
+              chromaticNote={chromatic && getBankOf(cell.id) === chromatic.bank ? getScaleOffset(chromatic.scale, getPadNumber(cell.id)) : null}
               onRecord={handleStartRecording} 
+              onImport={handleImportFile}
+              onMovePad={handleMovePad}
+              onDuplicate={handleDuplicatePad}
+              onConsolidate={(id) => openConsolidate([id])}
               onDelete={handleDelete}
               onVolumeChange={handleVolumeChange} 
               onToggleOverlap={handleToggleOverlap}
+              onPlaybackChange={handlePlaybackChange}
               onTrim={handleOpenTrimmer}
+              onTransform={setTransformCellId}
+              onPitch={setPitchCellId}
+              onFx={setFxCellId}
             />
           ))}
         </div>
       </main>
 
-      <footer className="flex-none p-3 text-center text-[9px] text-gray-700 font-black uppercase tracking-[0.3em] bg-gray-950/50 backdrop-blur-sm flex flex-col gap-1">
-        <div>{isDeleteMode ? 'MODO EDICIÓN ACTIVADO' : 'SISTEMA LISTO • TOCA LOS PADS'}</div>
+      <footer className="flex-none p-3 text-center text-[9px] text-gray-700 font-black uppercase tracking-[0.3em] bg-gray-950/50 backdrop-blur-xs flex flex-col gap-1">
+        <div className={isPerforming ? 'text-red-500' : ''}>{isPerforming ? '● GRABANDO ACTUACIÓN • PULSA DE NUEVO PARA RENDERIZAR' : isDeleteMode ? 'MODO EDICIÓN ACTIVADO' : 'SISTEMA LISTO • TOCA LOS PADS'}</div>
         <div className="text-[7px] tracking-[0.4em] text-gray-800 opacity-60 uppercase">Geray Padilla Pérez</div>
       </footer>
 
+      {showProjects && (
+        <ProjectBrowser
+          projects={projects}
+          activeProjectId={activeProject?.id ?? null}
+          isBusy={isProjectAction}
+          onOpen={handleOpenProject}
+          onCreate={handleCreateProject}
+          onRename={handleRenameProject}
+          onDuplicate={handleDuplicateProject}
+          onDelete={handleDeleteProject}
+          onImport={() => fileInputRef.current?.click()}
+          onClose={() => setShowProjects(false)}
+        />
+      )}
+
       {showSaveModal && (
         <div className="fixed inset-0 z-[110] flex items-center justify-center p-4 bg-black/80 backdrop-blur-xl animate-in fade-in duration-200">
           <div className="bg-gray-900 border border-gray-800 w-full max-w-sm rounded-[2rem] p-8 space-y-6 shadow-2xl">
@@ -381,16 +1502,145 @@ export default function App() {
               <button onClick={() => setShowSaveModal(false)} className="flex-1 py-4 bg-gray-800 text-gray-400 font-black text-xs rounded-xl uppercase hover:text-white">Cerrar</button>
               <button onClick={handleExport} disabled={isProjectAction} className="flex-[2] py-4 bg-white text-black font-black text-xs rounded-xl uppercase shadow-xl disabled:opacity-50">Guardar</button>
             </div>
+            <div className="flex gap-3 pt-2 border-t border-gray-800">
+              <button onClick={() => { setShowSaveModal(false); setShowKitExport(true); }} className="flex-1 py-3 bg-gray-800 text-gray-400 font-black text-[10px] rounded-xl uppercase tracking-widest hover:text-white flex items-center justify-center gap-2"><Package className="w-4 h-4" />Exportar kit</button>
+              <button onClick={() => kitInputRef.current?.click()} className="flex-1 py-3 bg-gray-800 text-gray-400 font-black text-[10px] rounded-xl uppercase tracking-widest hover:text-white flex items-center justify-center gap-2"><PackageOpen className="w-4 h-4" />Importar kit</button>
+            </div>
           </div>
         </div>
       )}
 
+      {showKitExport && (
+        <KitExporter
+          cells={cells}
+          initialSelection={bankCells.filter(c => !c.isEmpty).map(c => c.id)}
+          isBusy={isProjectAction}
+          onExport={handleExportKit}
+          onCancel={() => setShowKitExport(false)}
+        />
+      )}
+
+      {kitImport && (
+        <KitImporter
+          kit={kitImport}
+          cells={cells}
+          defaultTargets={getEmptyTargets()}
+          isBusy={isProjectAction}
+          onImport={handleImportKit}
+          onCancel={() => setKitImport(null)}
+        />
+      )}
+
+      {activePanel === 'sequencer' && (
+        <Sequencer
+          cells={cells}
+          settings={sequencerSettings}
+          patterns={patterns}
+          isRunning={isSequencerRunning}
+          currentStep={currentStep}
+          onToggleRun={handleToggleSequencer}
+          onSettingsChange={handleSequencerSettingsChange}
+          onStepChange={handleStepChange}
+          onClear={handleClearPatterns}
+          onClose={() => setActivePanel(null)}
+        />
+      )}
+
+      {activePanel === 'keys' && (
+        <KeyMapPanel
+          keyMap={keyMap}
+          currentBank={currentBank}
+          learningIndex={keyLearnIndex}
+          onLearn={(index) => setKeyLearnIndex(keyLearnIndex === index ? null : index)}
+          onReset={() => handleKeyMapChange(DEFAULT_KEY_MAP)}
+          onClose={() => { setKeyLearnIndex(null); setActivePanel(null); }}
+        />
+      )}
+
+      {activePanel === 'mixer' && (
+        <MixerPanel
+          cells={cells}
+          mixer={mixer}
+          onChange={handleMixerChange}
+          onVolumeChange={handleVolumeChange}
+          onClose={() => setActivePanel(null)}
+        />
+      )}
+
+      {activePanel === 'storage' && (
+        <StoragePanel
+          estimate={storageEstimate}
+          usage={projectUsage}
+          isLoading={isStorageLoading}
+          onRefresh={refreshStorage}
+          onPersist={handlePersistStorage}
+          onClearHistory={handleClearHistory}
+          onConsolidate={() => openConsolidate(cells.filter(c => !c.isEmpty).map(c => c.id))}
+          onClose={() => setActivePanel(null)}
+        />
+      )}
+
+      {activePanel === 'midi' && (
+        <MidiPanel
+          cells={cells}
+          isEnabled={isMidiEnabled}
+          inputs={midiInputs}
+          mappings={midiMappings}
+          learningPadId={midiLearnPadId}
+          error={midiError}
+          onEnable={handleEnableMidi}
+          onLearn={(padId) => midiLearnPadId === padId ? midiRef.current?.cancelLearn() : midiRef.current?.startLearn(padId)}
+          onClearMapping={(padId) => handleMidiMappingsChange(midiMappings.filter(m => m.padId !== padId))}
+          onClose={() => { midiRef.current?.cancelLearn(); setActivePanel(null); }}
+        />
+      )}
+
+      {activePanel === 'takes' && (
+        <TakesPanel
+          takes={takes}
+          isArmed={isTakeArmed}
+          playingId={playingTakeId}
+          onToggleArm={handleToggleTakeArm}
+          onPlay={handlePlayTake}
+          onStop={handleStopTake}
+          onQuantize={(take, division) => updateTake(quantizeTake(take, sequencerSettings.bpm, division))}
+          onRename={(take, name) => updateTake({ ...take, name })}
+          onDelete={handleDeleteTake}
+          onDeleteEvent={(take, index) => updateTake({ ...take, events: take.events.filter((_, i) => i !== index) })}
+          onClose={() => setActivePanel(null)}
+        />
+      )}
+
       {showRecorder && cameraStream && (
-        <Recorder stream={cameraStream} facingMode={facingMode} onSwitchCamera={(mode) => initCamera(mode)} onRecordingComplete={handleCaptureComplete} onCancel={() => { stopCamera(); setShowRecorder(false); setActiveCellId(null); }} />
+        <Recorder stream={cameraStream} facingMode={facingMode} onSwitchCamera={(mode) => initCamera(mode)} onRecordingComplete={handleCaptureComplete} onCancel={() => { stopCamera(); setShowRecorder(false); setActiveCellId(null); setIsSliceRecording(false); }} />
       )}
 
       {trimmerData && (
-        <VideoTrimmer blob={trimmerData.blob} initialUrl={trimmerData.url} initialStart={trimmerData.start} initialEnd={trimmerData.end} volume={trimmerData.volume} onSave={handleSaveTrim} onCancel={() => setTrimmerData(null)} />
+        <VideoTrimmer blob={trimmerData.blob} initialUrl={trimmerData.url} posterUrl={cells.find(c => c.id === trimmerData.id)?.posterUrl} initialStart={trimmerData.start} initialEnd={trimmerData.end} volume={trimmerData.volume} initialEnvelope={trimmerData.envelope} onSave={handleSaveTrim} onCancel={() => setTrimmerData(null)} />
+      )}
+
+      {consolidate && (
+        <ConsolidateDialog padIds={consolidate.padIds} sizes={consolidate.sizes} onConsolidate={handleConsolidatePad} onClose={() => setConsolidate(null)} />
+      )}
+
+      {importReport && (
+        <ImportReportDialog report={importReport} onClose={() => setImportReport(null)} />
+      )}
+
+      {sliceData && (
+        <SliceEditor buffer={sliceData.buffer} videoUrl={sliceData.url} targets={getEmptyTargets()} onConfirm={handleConfirmSlices} onCancel={closeSlicer} />
+      )}
+
+      {transformCell && transformCell.videoUrl && (
+        <TransformEditor videoUrl={transformCell.videoUrl} posterUrl={transformCell.posterUrl} startTime={transformCell.startTime} initialTransform={transformCell.transform} onSave={handleSaveTransform} onCancel={() => setTransformCellId(null)} />
+      )}
+
+      {pitchCell && (
+        <PitchEditor padId={pitchCell.id} currentBank={currentBank} initialPitch={pitchCell.pitch} chromatic={chromatic} onSave={handleSavePitch} onCancel={() => setPitchCellId(null)} />
+      )}
+
+      {fxCell && (
+        <FxEditor padId={fxCell.id} initialFx={fxCell.fx} onSave={handleSaveFx} onCancel={() => setFxCellId(null)} />
       )}
 
       {showInfo && (
@@ -402,10 +1652,25 @@ export default function App() {
             </div>
             <div className="p-6 space-y-6 max-h-[55vh] overflow-y-auto no-scrollbar">
               <div className="grid gap-4">
-                 <div className="flex items-start gap-3"><div className="p-2 bg-gray-800 border border-gray-700 rounded-xl"><Settings2 className="w-4 h-4" /></div><div><p className="font-bold text-sm">Ajustes Individuales</p><p className="text-xs text-gray-400">Modifica el volumen, el comportamiento de las capas y el recorte de cada pad.</p></div></div>
-                 <div className="flex items-start gap-3"><div className="p-2 bg-pink-500/20 text-pink-500 rounded-xl border border-pink-500/50"><Video className="w-4 h-4" /></div><div><p className="font-bold text-sm text-pink-500">Grabar Clips</p><p className="text-xs text-gray-400">El sistema detecta automáticamente el inicio del sonido.</p></div></div>
+                 <div className="flex items-start gap-3"><div className="p-2 bg-gray-800 border border-gray-700 rounded-xl"><Settings2 className="w-4 h-4" /></div><div><p className="font-bold text-sm">Ajustes Individuales</p><p className="text-xs text-gray-400">Modifica el volumen, el comportamiento de las capas, el recorte y el encuadre de cada pad. En edición, arrastra el asa de un pad a otro para moverlo o intercambiarlo; con Alt, o con el botón de copiar, lo duplicas en un pad vacío.</p></div></div>
+                 <div className="flex items-start gap-3"><div className="p-2 bg-pink-500/20 text-pink-500 rounded-xl border border-pink-500/50"><Video className="w-4 h-4" /></div><div><p className="font-bold text-sm text-pink-500">Grabar Clips</p><p className="text-xs text-gray-400">El sistema detecta automáticamente el inicio del sonido. También puedes soltar un vídeo o audio sobre un pad, o elegirlo con «Archivo».</p></div></div>
+                 <div className="flex items-start gap-3"><div className="p-2 bg-gray-800 border border-gray-700 rounded-xl"><SquareSplitHorizontal className="w-4 h-4" /></div><div><p className="font-bold text-sm">Trocear Toma</p><p className="text-xs text-gray-400">Graba una toma larga y repártela por ataques entre los pads vacíos. Revisa los cortes antes de confirmar.</p></div></div>
+                 <div className="flex items-start gap-3"><div className="p-2 bg-gray-800 border border-gray-700 rounded-xl"><Undo2 className="w-4 h-4" /></div><div><p className="font-bold text-sm">Deshacer y Rehacer</p><p className="text-xs text-gray-400">Cualquier cambio en un pad, incluso borrarlo, se puede deshacer con Ctrl/Cmd + Z y rehacer con Ctrl/Cmd + Shift + Z. Se guardan los últimos 50 pasos de cada proyecto.</p></div></div>
                  <div className="flex items-start gap-3"><div className="p-2 bg-gray-800 border border-gray-700 rounded-xl"><Layers className="w-4 h-4" /></div><div><p className="font-bold text-sm">Polifonía (Overlap)</p><p className="text-xs text-gray-400">Activa el solapamiento para que los clips no se corten entre sí.</p></div></div>
-                 <div className="flex items-start gap-3"><div className="p-2 bg-gray-800 border border-gray-700 rounded-xl"><Save className="w-4 h-4" /></div><div><p className="font-bold text-sm">Proyectos ZIP</p><p className="text-xs text-gray-400">Guarda todo tu trabajo en un solo archivo para cargarlo más tarde.</p></div></div>
+                 <div className="flex items-start gap-3"><div className="p-2 bg-gray-800 border border-gray-700 rounded-xl"><SlidersVertical className="w-4 h-4" /></div><div><p className="font-bold text-sm">Mezclador</p><p className="text-xs text-gray-400">Fader maestro, EQ, compresor y limitador, medidor estéreo y mute/solo por pad. Se guarda con el proyecto.</p></div></div>
+                 <div className="flex items-start gap-3"><div className="p-2 bg-gray-800 border border-gray-700 rounded-xl"><SlidersHorizontal className="w-4 h-4" /></div><div><p className="font-bold text-sm">Efectos</p><p className="text-xs text-gray-400">Junto al volumen de cada pad: filtro, delay, reverb, saturación y panorama.</p></div></div>
+                 <div className="flex items-start gap-3"><div className="p-2 bg-gray-800 border border-gray-700 rounded-xl"><Music className="w-4 h-4" /></div><div><p className="font-bold text-sm">Afinación</p><p className="text-xs text-gray-400">Ajusta semitonos, cents y velocidad de cada pad. El modo cromático reparte un clip por todo el banco como una escala.</p></div></div>
+                 <div className="flex items-start gap-3"><div className="p-2 bg-gray-800 border border-gray-700 rounded-xl"><Repeat className="w-4 h-4" /></div><div><p className="font-bold text-sm">Modos y Choke</p><p className="text-xs text-gray-400">En edición elige one-shot, gate, bucle o alternar, invierte el audio y agrupa pads para que se silencien entre sí.</p></div></div>
+                 <div className="flex items-start gap-3"><div className="p-2 bg-gray-800 border border-gray-700 rounded-xl"><span className="block w-4 h-4 text-[10px] font-black leading-4 text-center">AB</span></div><div><p className="font-bold text-sm">Bancos</p><p className="text-xs text-gray-400">Cuatro bancos de 12 pads. Cambia desde la cabecera, con las teclas [ y ] o con Shift + 1-4.</p></div></div>
+                 <div className="flex items-start gap-3"><div className="p-2 bg-gray-800 border border-gray-700 rounded-xl"><Drum className="w-4 h-4" /></div><div><p className="font-bold text-sm">Secuenciador</p><p className="text-xs text-gray-400">Programa patrones por pasos con BPM, swing y velocidad por paso.</p></div></div>
+                 <div className="flex items-start gap-3"><div className="p-2 bg-gray-800 border border-gray-700 rounded-xl"><Keyboard className="w-4 h-4" /></div><div><p className="font-bold text-sm">Teclado</p><p className="text-xs text-gray-400">Toca los pads con 1234 / QWER / ASDF (reasignables). Z edición, T recorte, Esc pánico.</p></div></div>
+                 <div className="flex items-start gap-3"><div className="p-2 bg-gray-800 border border-gray-700 rounded-xl"><Piano className="w-4 h-4" /></div><div><p className="font-bold text-sm">Controladores MIDI</p><p className="text-xs text-gray-400">Activa MIDI y usa «Aprender» para asignar cualquier nota o CC a un pad. La velocidad controla el volumen.</p></div></div>
+                 <div className="flex items-start gap-3"><div className="p-2 bg-gray-800 border border-gray-700 rounded-xl"><ListMusic className="w-4 h-4" /></div><div><p className="font-bold text-sm">Tomas</p><p className="text-xs text-gray-400">Arma la grabadora de disparos, toca y reproduce o cuantiza tus tomas después.</p></div></div>
+                 <div className="flex items-start gap-3"><div className="p-2 bg-gray-800 border border-gray-700 rounded-xl"><Clapperboard className="w-4 h-4" /></div><div><p className="font-bold text-sm">Actuar y Renderizar</p><p className="text-xs text-gray-400">Graba lo que tocas en la rejilla y descárgalo como un único vídeo con el audio maestro.</p></div></div>
+                 <div className="flex items-start gap-3"><div className="p-2 bg-gray-800 border border-gray-700 rounded-xl"><Library className="w-4 h-4" /></div><div><p className="font-bold text-sm">Biblioteca de Proyectos</p><p className="text-xs text-gray-400">Crea, renombra, duplica y abre proyectos guardados en este dispositivo.</p></div></div>
+                 <div className="flex items-start gap-3"><div className="p-2 bg-gray-800 border border-gray-700 rounded-xl"><HardDrive className="w-4 h-4" /></div><div><p className="font-bold text-sm">Almacenamiento</p><p className="text-xs text-gray-400">Mira cuánto ocupa cada pad y el historial, protege tus datos para que el navegador no los borre y libera espacio cuando quede poco. «Consolidar» guarda solo el tramo recortado de cada pad, con el encuadre aplicado.</p></div></div>
+                 <div className="flex items-start gap-3"><div className="p-2 bg-gray-800 border border-gray-700 rounded-xl"><Save className="w-4 h-4" /></div><div><p className="font-bold text-sm">Proyectos ZIP</p><p className="text-xs text-gray-400">Exporta un proyecto a un solo archivo; al importarlo se añade como proyecto nuevo. Los archivos de versiones anteriores se actualizan y se avisa de los clips que no se pudieron recuperar. Se copia pad a pad y se puede cancelar; si el navegador lo permite, eliges dónde guardar el ZIP.</p></div></div>
+                 <div className="flex items-start gap-3"><div className="p-2 bg-gray-800 border border-gray-700 rounded-xl"><Package className="w-4 h-4" /></div><div><p className="font-bold text-sm">Kits</p><p className="text-xs text-gray-400">Desde Guardar, exporta uno o varios pads ya recortados (WAV y vídeo opcional) e importa kits en los huecos que elijas sin borrar el resto.</p></div></div>
               </div>
             </div>
             <div className="p-6 bg-gray-950/50 border-t border-gray-800 flex flex-col gap-4">
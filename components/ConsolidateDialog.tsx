@@ -0,0 +1,135 @@
+import React, { useRef, useState } from 'react';
+import { X, Shrink, Loader2, Check, Minus, AlertTriangle } from 'lucide-react';
+import { CONSOLIDATE_QUALITIES, CONSOLIDATE_SIZES, ConsolidateOptions, DEFAULT_CONSOLIDATE_OPTIONS } from '../services/consolidate';
+import { formatBytes } from '../services/storage';
+import { getPadLabel } from '../services/banks';
+
+export interface ConsolidateResult {
+  after: number;
+  applied: boolean;   // Si no ahorra espacio, el pad se queda como estaba
+}
+
+interface PadOutcome extends Partial<ConsolidateResult> {
+  error?: string;
+}
+
+interface ConsolidateDialogProps {
+  padIds: number[];
+  sizes: Record<number, number>;   // Espacio actual de cada pad, como en el panel de almacenamiento
+  onConsolidate: (id: number, options: ConsolidateOptions) => Promise<ConsolidateResult>;
+  onClose: () => void;
+}
+
+export const ConsolidateDialog: React.FC<ConsolidateDialogProps> = ({
+  padIds,
+  sizes,
+  onConsolidate,
+  onClose
+}) => {
+  const [options, setOptions] = useState<ConsolidateOptions>(DEFAULT_CONSOLIDATE_OPTIONS);
+  const [outcomes, setOutcomes] = useState<Record<number, PadOutcome>>({});
+  const [currentId, setCurrentId] = useState<number | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const cancelRef = useRef(false);
+
+  const before = padIds.reduce((sum, id) => sum + (sizes[id] || 0), 0);
+  const after = padIds.reduce((sum, id) => sum + (outcomes[id]?.applied ? outcomes[id].after! : sizes[id] || 0), 0);
+  const isDone = padIds.every(id => outcomes[id]);
+
+  const run = async () => {
+    cancelRef.current = false;
+    setIsRunning(true);
+    // Uno detrás de otro: cada pad se vuelve a grabar en tiempo real
+    for (const id of padIds) {
+      if (cancelRef.current) break;
+      if (outcomes[id]) continue;
+      setCurrentId(id);
+      try {
+        const result = await onConsolidate(id, options);
+        setOutcomes(prev => ({ ...prev, [id]: result }));
+      } catch (e) {
+        console.error(`Error consolidando el pad ${id}:`, e);
+        setOutcomes(prev => ({ ...prev, [id]: { error: e instanceof Error ? e.message : 'Error' } }));
+      }
+    }
+    setCurrentId(null);
+    setIsRunning(false);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[110] flex items-center justify-center p-4 bg-black/90 backdrop-blur-xl">
+      <div className="bg-gray-900 border border-gray-800 w-full max-w-md rounded-[2.5rem] overflow-hidden shadow-2xl animate-in zoom-in-95 duration-200">
+        <div className="p-6 border-b border-gray-800 flex justify-between items-center">
+          <div className="flex items-center gap-2">
+            <Shrink className="w-5 h-5 text-pink-500" />
+            <h2 className="text-xl font-black uppercase tracking-tight">Consolidar</h2>
+          </div>
+          <button onClick={onClose} disabled={isRunning} className="p-2 hover:bg-gray-800 rounded-full text-gray-500 hover:text-white disabled:opacity-30"><X className="w-6 h-6" /></button>
+        </div>
+
+        <div className="p-6 space-y-5">
+          <p className="text-xs text-gray-400">Vuelve a codificar solo el tramo recortado de {padIds.length === 1 ? 'este pad' : `${padIds.length} pads`}, con el encuadre aplicado. Cada pad tarda lo que dura su recorte.</p>
+
+          <div className="grid grid-cols-2 gap-3">
+            <label className="space-y-1.5">
+              <span className="block text-[10px] font-black uppercase tracking-widest text-gray-500">Resolución</span>
+              <select
+                value={options.size}
+                disabled={isRunning}
+                onChange={(e) => setOptions({ ...options, size: parseInt(e.target.value, 10) })}
+                className="w-full bg-gray-800 border border-gray-700 rounded-xl px-3 py-2 text-xs font-black text-white"
+              >
+                {CONSOLIDATE_SIZES.map(size => <option key={size} value={size}>{size} × {size}</option>)}
+              </select>
+            </label>
+            <label className="space-y-1.5">
+              <span className="block text-[10px] font-black uppercase tracking-widest text-gray-500">Calidad</span>
+              <select
+                value={options.videoBitsPerSecond}
+                disabled={isRunning}
+                onChange={(e) => setOptions({ ...options, videoBitsPerSecond: parseInt(e.target.value, 10) })}
+                className="w-full bg-gray-800 border border-gray-700 rounded-xl px-3 py-2 text-xs font-black text-white"
+              >
+                {CONSOLIDATE_QUALITIES.map(q => <option key={q.videoBitsPerSecond} value={q.videoBitsPerSecond}>{q.label} ({(q.videoBitsPerSecond / 1000000).toFixed(1)} Mbps)</option>)}
+              </select>
+            </label>
+          </div>
+
+          <div className="max-h-52 overflow-y-auto no-scrollbar space-y-1.5">
+            {padIds.map(id => {
+              const outcome = outcomes[id];
+              return (
+                <div key={id} className="flex items-center gap-3 text-[10px] font-black">
+                  <span className="w-8 text-gray-500 tabular-nums">{getPadLabel(id)}</span>
+                  <span className="flex-1 text-gray-400 tabular-nums">{formatBytes(Math.round(sizes[id] || 0))}</span>
+                  {currentId === id && <Loader2 className="w-3.5 h-3.5 text-pink-500 animate-spin" />}
+                  {outcome?.error && <span className="flex items-center gap-1 text-red-400"><AlertTriangle className="w-3.5 h-3.5" /> {outcome.error}</span>}
+                  {outcome?.applied && <span className="flex items-center gap-1 text-green-400 tabular-nums"><Check className="w-3.5 h-3.5" /> {formatBytes(outcome.after!)}</span>}
+                  {outcome && !outcome.error && !outcome.applied && <span className="flex items-center gap-1 text-gray-500"><Minus className="w-3.5 h-3.5" /> Sin ahorro</span>}
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="flex items-center justify-between p-3 bg-gray-950/60 border border-gray-800 rounded-xl text-[10px] font-black uppercase tracking-widest">
+            <span className="text-gray-500">Antes <span className="text-gray-300 tabular-nums">{formatBytes(Math.round(before))}</span></span>
+            <span className="text-gray-500">Después <span className={`tabular-nums ${after < before ? 'text-green-400' : 'text-gray-300'}`}>{formatBytes(Math.round(after))}</span></span>
+          </div>
+          <p className="text-[10px] text-gray-500">El historial guarda los originales para poder deshacer; vacíalo en Almacenamiento para liberar el espacio.</p>
+
+          {isRunning ? (
+            <button onClick={() => { cancelRef.current = true; }} className="w-full py-4 bg-gray-800 text-gray-300 font-black text-xs rounded-xl uppercase tracking-widest hover:text-white">
+              Detener tras este pad
+            </button>
+          ) : isDone ? (
+            <button onClick={onClose} className="w-full py-4 bg-white text-black font-black text-xs rounded-xl uppercase tracking-widest shadow-xl">Cerrar</button>
+          ) : (
+            <button onClick={run} className="w-full py-4 bg-white text-black font-black text-xs rounded-xl uppercase tracking-widest shadow-xl hover:bg-pink-500 hover:text-white transition-colors">
+              Consolidar
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import { X, Check, SlidersHorizontal, RotateCcw } from 'lucide-react';
+import { PadFx } from '../types';
+import { DEFAULT_FX, FILTER_TYPES, MAX_DELAY_TIME, REVERB_TYPES, cutoffToSlider, normalizeFx, sliderToCutoff } from '../services/fx';
+import { getPadLabel } from '../services/banks';
+
+interface FxEditorProps {
+  padId: number;
+  initialFx: PadFx;
+  onSave: (fx: PadFx) => void;
+  onCancel: () => void;
+}
+
+interface FxSliderProps {
+  label: string;
+  display: string;
+  min: number;
+  max: number;
+  step: number;
+  value: number;
+  onChange: (value: number) => void;
+}
+
+const FxSlider: React.FC<FxSliderProps> = ({ label, display, min, max, step, value, onChange }) => (
+  <label className="flex flex-col gap-2">
+    <span className="text-gray-500">{label} <span className="text-pink-500">{display}</span></span>
+    <input
+      type="range" min={min} max={max} step={step}
+      value={value}
+      onChange={(e) => onChange(parseFloat(e.target.value))}
+      className="w-full h-1.5 bg-gray-700 rounded-full appearance-none cursor-pointer accent-pink-500"
+    />
+  </label>
+);
+
+const formatFrequency = (frequency: number) => frequency >= 1000 ? `${(frequency / 1000).toFixed(1)}kHz` : `${Math.round(frequency)}Hz`;
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+const formatPan = (pan: number) => pan === 0 ? 'C' : pan < 0 ? `L${Math.round(-pan * 100)}` : `R${Math.round(pan * 100)}`;
+
+export const FxEditor: React.FC<FxEditorProps> = ({
+  padId,
+  initialFx,
+  onSave,
+  onCancel
+}) => {
+  const [fx, setFx] = useState<PadFx>(normalizeFx(initialFx));
+
+  const update = (patch: Partial<PadFx>) => setFx(prev => normalizeFx({ ...prev, ...patch }));
+
+  return (
+    <div className="fixed inset-0 z-[120] flex items-center justify-center p-4 bg-black/90 backdrop-blur-xl animate-in fade-in duration-200" onClick={onCancel}>
+      <div className="bg-gray-900 border border-gray-800 w-full max-w-lg max-h-full flex flex-col rounded-[2.5rem] overflow-hidden shadow-2xl animate-in zoom-in-95 duration-200" onClick={e => e.stopPropagation()}>
+        <div className="flex-none p-6 border-b border-gray-800 flex justify-between items-center bg-gray-900/50">
+          <div className="flex items-center gap-2">
+            <SlidersHorizontal className="w-5 h-5 text-pink-500" />
+            <h2 className="text-xl font-black uppercase tracking-tight">Efectos {getPadLabel(padId)}</h2>
+          </div>
+          <button onClick={onCancel} className="p-2 hover:bg-gray-800 rounded-full text-gray-500 hover:text-white"><X className="w-6 h-6" /></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto no-scrollbar p-6 space-y-5 text-[10px] font-black uppercase tracking-[0.2em]">
+          <section className="space-y-3 p-4 bg-gray-950/60 border border-gray-800 rounded-2xl">
+            <div className="flex items-center justify-between">
+              <span className="text-gray-300">Filtro</span>
+              <div className="flex gap-1">
+                {FILTER_TYPES.map(({ type, label }) => (
+                  <button
+                    key={type}
+                    onClick={() => update({ filter: { ...fx.filter, type } })}
+                    className={`px-2.5 py-1.5 rounded-lg transition-colors ${fx.filter.type === type ? 'bg-white text-black' : 'bg-gray-800 text-gray-400 hover:text-white'}`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            {fx.filter.type !== 'off' && (
+              <div className="grid grid-cols-2 gap-4">
+                <FxSlider label="Corte" display={formatFrequency(fx.filter.frequency)} min={0} max={1} step={0.001} value={cutoffToSlider(fx.filter.frequency)} onChange={(v) => update({ filter: { ...fx.filter, frequency: sliderToCutoff(v) } })} />
+                <FxSlider label="Resonancia" display={fx.filter.q.toFixed(1)} min={0.1} max={20} step={0.1} value={fx.filter.q} onChange={(q) => update({ filter: { ...fx.filter, q } })} />
+              </div>
+            )}
+          </section>
+
+          <section className="space-y-3 p-4 bg-gray-950/60 border border-gray-800 rounded-2xl">
+            <span className="text-gray-300">Delay</span>
+            <div className="grid grid-cols-3 gap-4">
+              <FxSlider label="Tiempo" display={`${Math.round(fx.delay.time * 1000)}ms`} min={0.01} max={MAX_DELAY_TIME} step={0.01} value={fx.delay.time} onChange={(time) => update({ delay: { ...fx.delay, time } })} />
+              <FxSlider label="Realim." display={formatPercent(fx.delay.feedback)} min={0} max={0.9} step={0.01} value={fx.delay.feedback} onChange={(feedback) => update({ delay: { ...fx.delay, feedback } })} />
+              <FxSlider label="Mezcla" display={formatPercent(fx.delay.mix)} min={0} max={1} step={0.01} value={fx.delay.mix} onChange={(mix) => update({ delay: { ...fx.delay, mix } })} />
+            </div>
+          </section>
+
+          <section className="space-y-3 p-4 bg-gray-950/60 border border-gray-800 rounded-2xl">
+            <div className="flex items-center justify-between">
+              <span className="text-gray-300">Reverb</span>
+              <div className="flex gap-1">
+                {REVERB_TYPES.map(({ type, label }) => (
+                  <button
+                    key={type}
+                    onClick={() => update({ reverb: { ...fx.reverb, type } })}
+                    className={`px-2.5 py-1.5 rounded-lg transition-colors ${fx.reverb.type === type ? 'bg-white text-black' : 'bg-gray-800 text-gray-400 hover:text-white'}`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <FxSlider label="Mezcla" display={formatPercent(fx.reverb.mix)} min={0} max={1} step={0.01} value={fx.reverb.mix} onChange={(mix) => update({ reverb: { ...fx.reverb, mix } })} />
+          </section>
+
+          <section className="grid grid-cols-2 gap-4 p-4 bg-gray-950/60 border border-gray-800 rounded-2xl">
+            <FxSlider label="Drive" display={formatPercent(fx.drive)} min={0} max={1} step={0.01} value={fx.drive} onChange={(drive) => update({ drive })} />
+            <FxSlider label="Panorama" display={formatPan(fx.pan)} min={-1} max={1} step={0.01} value={fx.pan} onChange={(pan) => update({ pan })} />
+          </section>
+        </div>
+
+        <div className="flex-none p-6 pt-0 flex gap-3">
+          <button onClick={() => setFx(DEFAULT_FX)} className="p-5 bg-gray-800/40 text-gray-500 rounded-2xl hover:text-white border border-white/5 transition-colors">
+            <RotateCcw className="w-5 h-5" />
+          </button>
+          <button
+            onClick={() => onSave(fx)}
+            className="flex-1 py-5 bg-white text-black font-black text-[10px] rounded-2xl uppercase tracking-[0.2em] shadow-2xl hover:bg-pink-500 hover:text-white transition-all flex items-center justify-center gap-3 active:scale-95"
+          >
+            <Check className="w-5 h-5" /> Aplicar Cambios
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,34 +1,85 @@
 
 import React, { useRef, useEffect, useState, useCallback } from 'react';
-import { PadCell } from '../types';
-import { Trash2, Volume2, VolumeX, Video, Layers, Volume1, Scissors } from 'lucide-react';
-import { getAudioContext, connectToMaster } from '../services/audio';
+import { PadCell, PadPlayback, PadTriggerOptions, PlayMode } from '../types';
+import { Trash2, Volume2, VolumeX, Video, Layers, Volume1, Scissors, Move, Play, Hand, Repeat, ToggleRight, Rewind, Music, SlidersHorizontal, FileUp, Copy, GripVertical, Shrink } from 'lucide-react';
+import { getAudioContext, connectToPad } from '../services/audio';
+import { toCssTransform } from '../services/transform';
+import { registerPad, registerPadVideo, emitPadTrigger, chokeGroup, triggerPad, releasePad } from '../services/pads';
+import { CHOKE_GROUPS, getNextPlayMode, getReversedBuffer, isHeldMode } from '../services/playback';
+import { formatSemitones, getPlaybackRate, toVideoRate } from '../services/pitch';
+import { createFxChain, hasFx } from '../services/fx';
+import { IMPORT_ACCEPT } from '../services/media';
+import { getCutFade, getEnvelopeEnd, getEnvelopePoints, getReleaseFade, scheduleEnvelope } from '../services/envelope';
 
 interface GridCellProps {
   cell: PadCell;
+  isHidden?: boolean;
   isDeleteMode: boolean;
   isSuspended: boolean;
+  chromaticNote?: number | null;  // Semitonos de este pad cuando su banco está en modo cromático
   onRecord: (id: number) => void;
+  onImport: (id: number, file: File) => void;
+  onMovePad: (from: number, to: number, copy: boolean) => void;
+  onDuplicate: (id: number) => void;
+  onConsolidate: (id: number) => void;
   onDelete: (id: number) => void;
   onVolumeChange: (id: number, volume: number) => void;
   onToggleOverlap: (id: number, allowOverlap: boolean) => void;
   onTrim: (id: number) => void;
+  onTransform: (id: number) => void;
+  onPlaybackChange: (id: number, playback: PadPlayback) => void;
+  onPitch: (id: number) => void;
+  onFx: (id: number) => void;
 }
 
+// Arrastre entre pads en modo edición (distinto de soltar archivos)
+const PAD_DRAG_TYPE = 'application/x-videopad-pad';
+
+const PLAY_MODE_ICONS: Record<PlayMode, React.ElementType> = {
+  oneshot: Play,
+  gate: Hand,
+  loop: Repeat,
+  toggle: ToggleRight,
+};
+
 export const GridCell: React.FC<GridCellProps> = ({ 
   cell, 
+  isHidden = false,
   isDeleteMode, 
   isSuspended,
+  chromaticNote = null,
   onRecord, 
+  onImport,
+  onMovePad,
+  onDuplicate,
+  onConsolidate,
   onDelete,
   onVolumeChange,
   onToggleOverlap,
-  onTrim
+  onTrim,
+  onTransform,
+  onPlaybackChange,
+  onPitch,
+  onFx
 }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const [isPlaying, setIsPlaying] = useState(false);
+  const [isPressed, setIsPressed] = useState(false);
+  const [isDragOver, setIsDragOver] = useState(false);
+  const [isPadDragging, setIsPadDragging] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const playTimerRef = useRef<number | null>(null);
-  const activeSources = useRef<Set<AudioBufferSourceNode>>(new Set());
+  // Cada fuente con su ganancia, para poder cortarla con un fundido
+  const activeSources = useRef<Map<AudioBufferSourceNode, GainNode>>(new Map());
+  const visualTimersRef = useRef<Set<number>>(new Set());
+  const triggerRef = useRef<(options?: PadTriggerOptions) => void>(() => {});
+  const releaseRef = useRef<() => void>(() => {});
+  const stopRef = useRef<(when?: number) => void>(() => {});
+  const playbackRef = useRef(cell.playback);
+  playbackRef.current = cell.playback;
+  // Bucle en marcha (modos loop y toggle) y pulsación que espera a soltarse (gate y loop)
+  const isLoopingRef = useRef(false);
+  const isHeldRef = useRef(false);
   
   const stopVisuals = useCallback(() => {
     setIsPlaying(false);
@@ -51,68 +102,262 @@ export const GridCell: React.FC<GridCellProps> = ({
     }
     return () => {
       if (playTimerRef.current) window.clearTimeout(playTimerRef.current);
-      activeSources.current.forEach(source => {
+      visualTimersRef.current.forEach(timer => window.clearTimeout(timer));
+      visualTimersRef.current.clear();
+      activeSources.current.forEach((_, source) => {
         try { source.stop(); } catch(e) {}
       });
       activeSources.current.clear();
     };
   }, [isSuspended]);
 
-  const handlePointerDown = async (e: React.PointerEvent) => {
-    if ((e.target as HTMLElement).closest('.control-ui')) return;
-    if (cell.isEmpty || isDeleteMode || isSuspended) return;
+  // Corta una fuente en `at`; con `fade` la ganancia cae a cero antes de pararla
+  const fadeOut = (source: AudioBufferSourceNode, gainNode: GainNode, at: number, fade: number) => {
+    try {
+      if (fade > 0) {
+        gainNode.gain.cancelScheduledValues(at);
+        gainNode.gain.setTargetAtTime(0, at, fade / 5);
+        source.stop(at + fade);
+      } else {
+        source.stop(at);
+      }
+    } catch (err) {}
+  };
 
-    e.preventDefault();
-    if (e.pointerType === 'mouse' && e.button !== 0) return;
+  const trigger = async ({ when, velocity = 1, volume = cell.volume, allowOverlap = cell.allowOverlap, hold = false, transpose = 0 }: PadTriggerOptions = {}) => {
+    if (cell.isEmpty || isSuspended) return;
 
     const ctx = getAudioContext();
     if (ctx.state === 'suspended') {
       await ctx.resume();
     }
 
-    const duration = cell.endTime - cell.startTime;
+    const duration = Math.max(0, cell.endTime - cell.startTime);
+    const startAt = Math.max(when ?? ctx.currentTime, ctx.currentTime);
+    const { mode, reverse } = cell.playback;
 
-    if (!cell.allowOverlap) {
-      activeSources.current.forEach(source => {
-        try { source.stop(); } catch (err) {}
-      });
+    // En modo toggle, el segundo disparo detiene el bucle
+    if (mode === 'toggle' && isLoopingRef.current) {
+      stopAll(startAt, getReleaseFade(cell.envelope));
+      return;
+    }
+
+    chokeGroup(cell.playback.chokeGroup, cell.id, startAt);
+
+    // Sin aviso de soltar (secuenciador, tomas), gate y loop suenan como one-shot
+    const loop = mode === 'toggle' || (mode === 'loop' && hold);
+    isLoopingRef.current = loop;
+    isHeldRef.current = hold && isHeldMode(mode);
+
+    // Con hold la envolvente puede acabar antes que el recorte; los bucles solo usan el ataque
+    const envelope = getEnvelopePoints(cell.envelope, duration);
+    const clipLength = loop ? duration : getEnvelopeEnd(envelope);
+    // La afinación cambia la velocidad: el clip dura `clipLength / rate` en tiempo real
+    const rate = getPlaybackRate(cell.pitch, transpose);
+    const playDuration = clipLength / rate;
+
+    if (!allowOverlap) {
+      const fade = getCutFade(cell.envelope);
+      activeSources.current.forEach((gainNode, source) => fadeOut(source, gainNode, startAt, fade));
       activeSources.current.clear();
     }
 
     if (cell.audioBuffer) {
       const source = ctx.createBufferSource();
       const gainNode = ctx.createGain(); 
-      source.buffer = cell.audioBuffer;
-      const vol = Math.max(0, cell.volume / 10);
-      gainNode.gain.setValueAtTime(vol, ctx.currentTime);
+      const buffer = reverse ? getReversedBuffer(ctx, cell.audioBuffer) : cell.audioBuffer;
+      // En el buffer invertido el recorte [inicio, fin] queda reflejado desde el final
+      const offset = reverse ? Math.max(0, buffer.duration - cell.endTime) : cell.startTime;
+      source.buffer = buffer;
+      source.playbackRate.value = rate;
+      const vol = Math.max(0, volume / 10) * velocity;
+      scheduleEnvelope(gainNode.gain, loop ? envelope.slice(0, 2) : envelope, startAt, vol, rate);
       source.connect(gainNode);
-      connectToMaster(gainNode);
-      activeSources.current.add(source);
-      source.onended = () => activeSources.current.delete(source);
+      const chain = hasFx(cell.fx) ? createFxChain(ctx, cell.fx) : null;
+      if (chain) {
+        gainNode.connect(chain.input);
+        connectToPad(chain.output, cell.id);
+      } else {
+        connectToPad(gainNode, cell.id);
+      }
+      activeSources.current.set(source, gainNode);
+      source.onended = () => {
+        activeSources.current.delete(source);
+        gainNode.disconnect();
+        // La cadena se suelta cuando se apagan las colas del delay y la reverb
+        if (chain) window.setTimeout(chain.dispose, chain.tail * 1000);
+      };
       try {
-        // Reproducir desde el startTime actualizado
-        source.start(0, cell.startTime, Math.max(0, duration));
+        if (loop) {
+          source.loop = true;
+          source.loopStart = offset;
+          source.loopEnd = offset + duration;
+          source.start(startAt, offset);
+        } else {
+          // Reproducir desde el startTime actualizado
+          source.start(startAt, offset, clipLength);
+        }
       } catch (err) {
         console.error("Audio error:", err);
       }
     } 
+
+    emitPadTrigger({
+      padId: cell.id, time: startAt, velocity, volume, duration: playDuration,
+      transform: cell.transform, allowOverlap, transpose
+    });
     
-    if (videoRef.current && !isSuspended) {
+    // El vídeo siempre avanza hacia delante: los navegadores no reproducen hacia atrás
+    const scheduleVisualEnd = () => {
+      if (playTimerRef.current) window.clearTimeout(playTimerRef.current);
+      playTimerRef.current = window.setTimeout(() => {
+        if (loop && isLoopingRef.current && videoRef.current) {
+          videoRef.current.currentTime = cell.startTime;
+          scheduleVisualEnd();
+        } else {
+          stopVisuals();
+        }
+      }, playDuration * 1000);
+    };
+
+    const startVisuals = async () => {
+      if (!videoRef.current) return;
       videoRef.current.muted = true;
       videoRef.current.currentTime = cell.startTime;
+      // La imagen sigue al audio; fuera del rango del navegador se satura y la cola se corta con el temporizador
+      videoRef.current.playbackRate = toVideoRate(rate);
       try {
         await videoRef.current.play();
         setIsPlaying(true);
-        if (playTimerRef.current) window.clearTimeout(playTimerRef.current);
-        playTimerRef.current = window.setTimeout(stopVisuals, Math.max(0, duration * 1000));
+        scheduleVisualEnd();
       } catch (err) {
         console.warn("Video play interrupted");
       }
+    };
+
+    // Los disparos programados (secuenciador) esperan a que el audio suene de verdad
+    const delayMs = (startAt - ctx.currentTime) * 1000;
+    if (delayMs > 5) {
+      const timer = window.setTimeout(() => {
+        visualTimersRef.current.delete(timer);
+        startVisuals();
+      }, delayMs);
+      visualTimersRef.current.add(timer);
+    } else {
+      await startVisuals();
+    }
+  };
+
+  // Sin `when` corta en el acto; con `when` (choke programado) corta en ese instante
+  const stopAll = (when?: number, fade = 0) => {
+    const ctx = getAudioContext();
+    isLoopingRef.current = false;
+    isHeldRef.current = false;
+    activeSources.current.forEach((gainNode, source) => fadeOut(source, gainNode, when ?? ctx.currentTime, fade));
+    activeSources.current.clear();
+
+    const delayMs = when === undefined ? 0 : (when - ctx.currentTime) * 1000;
+    if (delayMs > 5) {
+      const timer = window.setTimeout(() => {
+        visualTimersRef.current.delete(timer);
+        stopVisuals();
+      }, delayMs);
+      visualTimersRef.current.add(timer);
+      return;
     }
+    visualTimersRef.current.forEach(timer => window.clearTimeout(timer));
+    visualTimersRef.current.clear();
+    if (playTimerRef.current) window.clearTimeout(playTimerRef.current);
+    stopVisuals();
+  };
+
+  const release = () => {
+    if (!isHeldRef.current) return;
+    stopAll(undefined, getReleaseFade(cell.envelope));
+  };
+
+  triggerRef.current = trigger;
+  releaseRef.current = release;
+  // El pánico (sin `when`) corta en seco; el choke usa el micro-fundido del pad
+  stopRef.current = (when) => stopAll(when, when === undefined ? 0 : getCutFade(cell.envelope));
+
+  useEffect(() => {
+    return registerPad(cell.id, {
+      trigger: (options) => triggerRef.current(options),
+      release: () => releaseRef.current(),
+      stop: (when) => stopRef.current(when),
+      getChokeGroup: () => playbackRef.current.chokeGroup
+    });
+  }, [cell.id]);
+
+  useEffect(() => {
+    if (!videoRef.current) return;
+    return registerPadVideo(cell.id, videoRef.current);
+  }, [cell.id, cell.isEmpty]);
+
+  const isPlayable = !cell.isEmpty || chromaticNote !== null;
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if ((e.target as HTMLElement).closest('.control-ui')) return;
+    if (!isPlayable || isDeleteMode || isSuspended) return;
+
+    e.preventDefault();
+    if (e.pointerType === 'mouse' && e.button !== 0) return;
+
+    // Capturamos el puntero para recibir el pointerup aunque el dedo salga del pad
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setIsPressed(true);
+    // Pasamos por el registro para que el modo cromático pueda desviar el disparo
+    triggerPad(cell.id, { hold: true });
   };
 
+  const handlePointerUp = () => {
+    setIsPressed(false);
+    if (!isPlayable || isDeleteMode) return;
+    releasePad(cell.id);
+  };
+
+  // Con Alt/Ctrl/Cmd el arrastre duplica, y solo sobre un pad vacío
+  const isCopyDrag = (e: React.DragEvent) => e.altKey || e.ctrlKey || e.metaKey;
+
+  const handlePadDragStart = (e: React.DragEvent) => {
+    e.dataTransfer.setData(PAD_DRAG_TYPE, String(cell.id));
+    e.dataTransfer.effectAllowed = 'copyMove';
+    setIsPadDragging(true);
+  };
+
+  // Soltar un archivo sobre el pad lo importa (sustituye el clip si ya tenía uno);
+  // soltar otro pad lo mueve aquí o intercambia los dos
+  const handleDragOver = (e: React.DragEvent) => {
+    if (isSuspended) return;
+    if (e.dataTransfer.types.includes(PAD_DRAG_TYPE)) {
+      if (!isDeleteMode || isPadDragging || (isCopyDrag(e) && !cell.isEmpty)) return;
+      e.dataTransfer.dropEffect = isCopyDrag(e) ? 'copy' : 'move';
+    } else if (!e.dataTransfer.types.includes('Files')) {
+      return;
+    }
+    e.preventDefault();
+    setIsDragOver(true);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragOver(false);
+    if (isSuspended) return;
+    const padData = e.dataTransfer.getData(PAD_DRAG_TYPE);
+    if (padData) {
+      const from = parseInt(padData, 10);
+      if (!isNaN(from) && from !== cell.id) onMovePad(from, cell.id, isCopyDrag(e) && cell.isEmpty);
+      return;
+    }
+    const file = e.dataTransfer.files[0];
+    if (file) onImport(cell.id, file);
+  };
+
+  const ModeIcon = PLAY_MODE_ICONS[cell.playback.mode];
+
   const videoStyle: React.CSSProperties = {
-    transform: `translate(${cell.transform.x * 100}%, ${cell.transform.y * 100}%) scale(${cell.transform.scale}) rotate(${cell.transform.rotation || 0}deg)`,
+    transform: toCssTransform(cell.transform),
     transition: 'transform 0.1s ease-out',
     willChange: 'transform'
   };
@@ -120,29 +365,66 @@ export const GridCell: React.FC<GridCellProps> = ({
   return (
     <div 
       onPointerDown={handlePointerDown}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onDragOver={handleDragOver}
+      onDragLeave={() => setIsDragOver(false)}
+      onDrop={handleDrop}
       className={`
         relative w-full h-full rounded-2xl overflow-hidden cursor-pointer select-none
         transform transition-all duration-75 touch-none border-2
+        ${isHidden ? 'hidden' : ''}
         ${!isDeleteMode && !cell.isEmpty && 'active:scale-95'}
         ${cell.isEmpty ? 'bg-gray-900/40 border-gray-800 border-dashed hover:bg-gray-800/40' : 'bg-black shadow-xl border-white/5'}
         ${isPlaying ? 'ring-4 ring-pink-500/50 border-pink-400 brightness-110 z-10 scale-[1.03]' : ''}
+        ${isPressed && chromaticNote !== null ? 'ring-4 ring-cyan-400/60 border-cyan-300' : ''}
+        ${isDragOver ? 'ring-4 ring-pink-500/60 border-pink-400 border-solid' : ''}
+        ${isPadDragging ? 'opacity-50' : ''}
       `}
     >
-      {cell.isEmpty ? (
-        <div className="w-full h-full flex items-center justify-center p-4">
+      {chromaticNote !== null && (
+        <span className="absolute top-2 left-2 z-[5] px-2 py-0.5 rounded-full bg-cyan-500/80 text-[10px] font-black text-white tabular-nums pointer-events-none">
+          {formatSemitones(chromaticNote)}
+        </span>
+      )}
+      {cell.isEmpty && chromaticNote !== null ? (
+        <div className="w-full h-full flex items-center justify-center pointer-events-none">
+          <Music className={`w-8 h-8 ${isPressed ? 'text-cyan-300' : 'text-gray-700'}`} />
+        </div>
+      ) : cell.isEmpty ? (
+        <div className="w-full h-full flex flex-col items-center justify-center gap-2 p-4">
           <button 
             onClick={(e) => { e.stopPropagation(); onRecord(cell.id); }}
-            className="control-ui w-full h-full flex flex-col items-center justify-center bg-gray-800/60 hover:bg-gray-700/80 rounded-2xl transition-all text-gray-400 hover:text-pink-500 group"
+            className="control-ui w-full flex-1 flex flex-col items-center justify-center bg-gray-800/60 hover:bg-gray-700/80 rounded-2xl transition-all text-gray-400 hover:text-pink-500 group"
           >
             <Video className="w-8 h-8 mb-2 group-hover:scale-110 transition-transform pointer-events-none" />
             <span className="text-[9px] font-black uppercase tracking-[0.2em] pointer-events-none">Grabar Pad</span>
           </button>
+          <button
+            onClick={(e) => { e.stopPropagation(); fileInputRef.current?.click(); }}
+            className="control-ui w-full py-2 flex items-center justify-center gap-1.5 bg-gray-800/40 hover:bg-gray-700/80 rounded-xl transition-all text-gray-500 hover:text-pink-500"
+          >
+            <FileUp className="w-3.5 h-3.5 pointer-events-none" />
+            <span className="text-[8px] font-black uppercase tracking-[0.2em] pointer-events-none">Archivo</span>
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={IMPORT_ACCEPT}
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onImport(cell.id, file);
+              e.target.value = '';
+            }}
+          />
         </div>
       ) : (
         <>
           <video 
             ref={videoRef}
             src={cell.videoUrl || undefined}
+            poster={cell.posterUrl || undefined}
             playsInline
             muted
             style={videoStyle}
@@ -159,8 +441,8 @@ export const GridCell: React.FC<GridCellProps> = ({
       )}
 
       {isDeleteMode && !cell.isEmpty && (
-        <div className="absolute inset-0 z-10 bg-black/85 backdrop-blur-sm flex flex-col items-center justify-between p-2 animate-in fade-in zoom-in-95 duration-200">
-          <div className="w-full grid grid-cols-3 gap-1.5">
+        <div className="absolute inset-0 z-10 bg-black/85 backdrop-blur-xs flex flex-col items-center justify-between p-2 animate-in fade-in zoom-in-95 duration-200">
+          <div className="w-full grid grid-cols-4 gap-1.5">
             <button
               onClick={(e) => { e.stopPropagation(); onToggleOverlap(cell.id, !cell.allowOverlap); }}
               className={`control-ui p-2 rounded-xl transition-all shadow-lg active:scale-90 flex items-center justify-center ${cell.allowOverlap ? 'bg-orange-500 text-white' : 'bg-gray-800 text-gray-500'}`}
@@ -173,14 +455,70 @@ export const GridCell: React.FC<GridCellProps> = ({
             >
               <Scissors className="w-4 h-4 pointer-events-none" />
             </button>
+            <button
+              onClick={(e) => { e.stopPropagation(); onTransform(cell.id); }}
+              className="control-ui p-2 bg-gray-800 text-gray-300 rounded-xl transition-all shadow-lg active:scale-90 flex items-center justify-center hover:bg-pink-500 hover:text-white"
+            >
+              <Move className="w-4 h-4 pointer-events-none" />
+            </button>
             <button
               onClick={(e) => { e.stopPropagation(); onDelete(cell.id); }}
               className="control-ui p-2 bg-red-600 hover:bg-red-500 text-white rounded-xl transition-all shadow-lg active:scale-90 flex items-center justify-center"
             >
               <Trash2 className="w-4 h-4 pointer-events-none" />
             </button>
+            <button
+              onClick={(e) => { e.stopPropagation(); onPlaybackChange(cell.id, { ...cell.playback, mode: getNextPlayMode(cell.playback.mode) }); }}
+              className={`control-ui p-2 rounded-xl transition-all shadow-lg active:scale-90 flex items-center justify-center ${cell.playback.mode !== 'oneshot' ? 'bg-pink-600 text-white' : 'bg-gray-800 text-gray-500'}`}
+            >
+              <ModeIcon className="w-4 h-4 pointer-events-none" />
+            </button>
+            <button
+              onClick={(e) => { e.stopPropagation(); onPlaybackChange(cell.id, { ...cell.playback, reverse: !cell.playback.reverse }); }}
+              className={`control-ui p-2 rounded-xl transition-all shadow-lg active:scale-90 flex items-center justify-center ${cell.playback.reverse ? 'bg-pink-600 text-white' : 'bg-gray-800 text-gray-500'}`}
+            >
+              <Rewind className="w-4 h-4 pointer-events-none" />
+            </button>
+            <button
+              onClick={(e) => { e.stopPropagation(); onPlaybackChange(cell.id, { ...cell.playback, chokeGroup: (cell.playback.chokeGroup + 1) % (CHOKE_GROUPS + 1) }); }}
+              className={`control-ui col-span-2 p-2 rounded-xl transition-all shadow-lg active:scale-90 flex items-center justify-center text-[9px] font-black uppercase tracking-widest ${cell.playback.chokeGroup ? 'bg-cyan-600 text-white' : 'bg-gray-800 text-gray-500'}`}
+            >
+              {cell.playback.chokeGroup ? `Choke ${cell.playback.chokeGroup}` : 'Choke —'}
+            </button>
           </div>
-          <div className="flex-1 w-full flex items-center justify-center px-1">
+          <div className="w-full mt-1.5 flex gap-1.5">
+            <button
+              onClick={(e) => { e.stopPropagation(); onPitch(cell.id); }}
+              className={`control-ui flex-1 p-1.5 rounded-xl transition-all shadow-lg active:scale-90 flex items-center justify-center gap-1.5 text-[9px] font-black tabular-nums ${cell.pitch.semitones || cell.pitch.cents || cell.pitch.rate !== 1 ? 'bg-pink-600 text-white' : 'bg-gray-800 text-gray-500'}`}
+            >
+              <Music className="w-3.5 h-3.5 pointer-events-none" />
+              {formatSemitones(cell.pitch.semitones)} st • {cell.pitch.rate.toFixed(2)}x
+            </button>
+            <button
+              onClick={(e) => { e.stopPropagation(); onDuplicate(cell.id); }}
+              title="Duplicar en el siguiente pad vacío"
+              className="control-ui flex-none p-1.5 bg-gray-800 text-gray-400 rounded-xl transition-all shadow-lg active:scale-90 hover:bg-pink-500 hover:text-white"
+            >
+              <Copy className="w-3.5 h-3.5 pointer-events-none" />
+            </button>
+            <button
+              onClick={(e) => { e.stopPropagation(); onConsolidate(cell.id); }}
+              title="Consolidar: guardar solo el tramo recortado"
+              className="control-ui flex-none p-1.5 bg-gray-800 text-gray-400 rounded-xl transition-all shadow-lg active:scale-90 hover:bg-pink-500 hover:text-white"
+            >
+              <Shrink className="w-3.5 h-3.5 pointer-events-none" />
+            </button>
+            <div
+              draggable
+              onDragStart={handlePadDragStart}
+              onDragEnd={() => setIsPadDragging(false)}
+              title="Arrastra a otro pad para moverlo o intercambiarlo (Alt para duplicar)"
+              className="control-ui flex-none p-1.5 bg-gray-800 text-gray-400 rounded-xl shadow-lg cursor-grab active:cursor-grabbing hover:text-white"
+            >
+              <GripVertical className="w-3.5 h-3.5 pointer-events-none" />
+            </div>
+          </div>
+          <div className="flex-1 w-full flex items-center justify-center gap-2 px-1">
             <input
               type="range"
               min="0" max="10" step="0.1"
@@ -189,6 +527,12 @@ export const GridCell: React.FC<GridCellProps> = ({
               onChange={(e) => onVolumeChange(cell.id, parseFloat(e.target.value))}
               className="control-ui w-full h-1.5 bg-gray-700 rounded-full appearance-none cursor-pointer accent-pink-500"
             />
+            <button
+              onClick={(e) => { e.stopPropagation(); onFx(cell.id); }}
+              className={`control-ui flex-none p-1.5 rounded-lg transition-all shadow-lg active:scale-90 ${hasFx(cell.fx) ? 'bg-pink-600 text-white' : 'bg-gray-800 text-gray-500'}`}
+            >
+              <SlidersHorizontal className="w-3.5 h-3.5 pointer-events-none" />
+            </button>
           </div>
           <div className="w-full flex items-center justify-center gap-2 pb-1 pointer-events-none">
              {cell.volume === 0 ? <VolumeX className="w-3.5 h-3.5 text-red-500" /> : 
@@ -0,0 +1,69 @@
+import React from 'react';
+import { X, FileCheck2, AlertTriangle, ArrowUpCircle } from 'lucide-react';
+import { ImportReport } from '../services/manifest';
+import { getPadLabel } from '../services/banks';
+
+interface ImportReportDialogProps {
+  report: ImportReport;
+  onClose: () => void;
+}
+
+export const ImportReportDialog: React.FC<ImportReportDialogProps> = ({ report, onClose }) => {
+  const hasProblems = report.skipped.length > 0 || report.warnings.length > 0;
+
+  return (
+    <div className="fixed inset-0 z-[110] flex items-center justify-center p-4 bg-black/90 backdrop-blur-xl" onClick={onClose}>
+      <div className="bg-gray-900 border border-gray-800 w-full max-w-md rounded-[2.5rem] overflow-hidden shadow-2xl animate-in zoom-in-95 duration-200" onClick={e => e.stopPropagation()}>
+        <div className="p-6 border-b border-gray-800 flex justify-between items-center">
+          <div className="flex items-center gap-2">
+            <FileCheck2 className={`w-5 h-5 ${hasProblems ? 'text-yellow-400' : 'text-green-400'}`} />
+            <h2 className="text-xl font-black uppercase tracking-tight">Proyecto importado</h2>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-gray-800 rounded-full text-gray-500 hover:text-white"><X className="w-6 h-6" /></button>
+        </div>
+
+        <div className="p-6 space-y-5 max-h-[60vh] overflow-y-auto no-scrollbar">
+          <div>
+            <p className="font-bold text-sm truncate">{report.projectName}</p>
+            <p className="text-[10px] font-black uppercase tracking-widest text-gray-500">
+              Formato v{report.sourceVersion}{report.legacy ? ' (project.json antiguo)' : ''} • {report.imported.length} pads importados
+            </p>
+          </div>
+
+          {report.imported.length > 0 && (
+            <div className="flex flex-wrap gap-1.5">
+              {report.imported.map(id => (
+                <span key={id} className="px-2 py-1 bg-gray-800 rounded-md text-[10px] font-black text-gray-300 tabular-nums">{getPadLabel(id)}</span>
+              ))}
+            </div>
+          )}
+
+          {report.migrations.length > 0 && (
+            <div className="space-y-1.5">
+              <p className="flex items-center gap-1.5 text-[10px] font-black uppercase tracking-widest text-cyan-400"><ArrowUpCircle className="w-3.5 h-3.5" /> Actualizado al formato actual</p>
+              {report.migrations.map(migration => <p key={migration} className="text-xs text-gray-400">{migration}</p>)}
+            </div>
+          )}
+
+          {report.skipped.length > 0 && (
+            <div className="space-y-1.5">
+              <p className="flex items-center gap-1.5 text-[10px] font-black uppercase tracking-widest text-red-400"><AlertTriangle className="w-3.5 h-3.5" /> {report.skipped.length} clips sin importar</p>
+              {report.skipped.map((skip, index) => (
+                <p key={index} className="text-xs text-gray-400"><span className="font-black text-gray-300">{skip.label}</span>: {skip.reason}</p>
+              ))}
+            </div>
+          )}
+
+          {report.warnings.length > 0 && (
+            <div className="space-y-1.5">
+              <p className="flex items-center gap-1.5 text-[10px] font-black uppercase tracking-widest text-yellow-400"><AlertTriangle className="w-3.5 h-3.5" /> Datos corregidos</p>
+              {report.warnings.map((warning, index) => <p key={index} className="text-xs text-gray-400">{warning}</p>)}
+            </div>
+          )}
+
+          <button onClick={onClose} className="w-full py-4 bg-white text-black font-black text-xs rounded-xl uppercase tracking-widest shadow-xl">Aceptar</button>
+        </div>
+      </div>
+    </div>
+  );
+};
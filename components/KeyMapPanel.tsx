@@ -0,0 +1,75 @@
+import React from 'react';
+import { X, Keyboard, RotateCcw } from 'lucide-react';
+import { SHORTCUTS, getKeyLabel } from '../services/keyboard';
+
+interface KeyMapPanelProps {
+  keyMap: string[];
+  currentBank: string;
+  learningIndex: number | null;
+  onLearn: (index: number) => void;
+  onReset: () => void;
+  onClose: () => void;
+}
+
+const SHORTCUT_LABELS: { code: string; label: string }[] = [
+  { code: SHORTCUTS.editMode, label: 'Modo edición' },
+  { code: SHORTCUTS.trimmer, label: 'Recortar último pad' },
+  { code: SHORTCUTS.panic, label: 'Pánico (silenciar todo)' },
+  { code: SHORTCUTS.prevBank, label: 'Banco anterior' },
+  { code: SHORTCUTS.nextBank, label: 'Banco siguiente' },
+];
+
+export const KeyMapPanel: React.FC<KeyMapPanelProps> = ({
+  keyMap,
+  currentBank,
+  learningIndex,
+  onLearn,
+  onReset,
+  onClose
+}) => {
+  return (
+    <div className="fixed inset-x-0 bottom-0 z-[90] max-h-[70vh] bg-gray-950/95 backdrop-blur-2xl border-t border-gray-800 shadow-2xl flex flex-col animate-in slide-in-from-bottom-6 duration-300">
+      <header className="flex-none p-4 flex items-center justify-between gap-3 border-b border-gray-800">
+        <div className="flex items-center gap-2">
+          <Keyboard className="w-4 h-4 text-pink-500" />
+          <h2 className="text-sm font-black uppercase tracking-tight">Teclado</h2>
+          <span className="text-[10px] font-black uppercase tracking-widest text-gray-500">Banco {currentBank}</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <button onClick={onReset} className="p-2 bg-gray-800 border border-gray-700 rounded-lg text-gray-400 hover:text-white transition-colors">
+            <RotateCcw className="w-4 h-4" />
+          </button>
+          <button onClick={onClose} className="p-2 hover:bg-gray-800 rounded-full text-gray-500 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+      </header>
+
+      <div className="flex-1 overflow-auto no-scrollbar p-4 space-y-6">
+        <div className="grid grid-cols-4 gap-2">
+          {keyMap.map((code, index) => {
+            const isLearning = learningIndex === index;
+            return (
+              <button
+                key={index}
+                onClick={() => onLearn(index)}
+                className={`flex flex-col items-center gap-1 py-3 rounded-xl border transition-colors ${isLearning ? 'bg-pink-600 border-pink-500 text-white animate-pulse' : 'bg-gray-900 border-gray-800 text-gray-300 hover:border-gray-600'}`}
+              >
+                <span className="text-lg font-black">{isLearning ? '…' : getKeyLabel(code)}</span>
+                <span className="text-[9px] font-black uppercase tracking-widest text-gray-500">Pad {index + 1}</span>
+              </button>
+            );
+          })}
+        </div>
+        <div className="space-y-1.5">
+          {SHORTCUT_LABELS.map(({ code, label }) => (
+            <div key={code} className="flex items-center justify-between text-[10px] font-black uppercase tracking-widest text-gray-500">
+              <span>{label}</span>
+              <kbd className="px-2 py-1 bg-gray-800 border border-gray-700 rounded-md text-gray-300">{getKeyLabel(code)}</kbd>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
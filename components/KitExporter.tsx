@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { X, Package, Check, Video } from 'lucide-react';
+import { PadCell } from '../types';
+import { BANKS, getBankOf, getPadLabel } from '../services/banks';
+
+interface KitExporterProps {
+  cells: PadCell[];
+  initialSelection: number[];
+  isBusy: boolean;
+  onExport: (name: string, padIds: number[], withVideo: boolean) => void;
+  onCancel: () => void;
+}
+
+export const KitExporter: React.FC<KitExporterProps> = ({
+  cells,
+  initialSelection,
+  isBusy,
+  onExport,
+  onCancel
+}) => {
+  const [name, setName] = useState('');
+  const [selection, setSelection] = useState<number[]>(initialSelection);
+  const [withVideo, setWithVideo] = useState(true);
+  const filled = cells.filter(c => !c.isEmpty);
+
+  const toggle = (id: number) =>
+    setSelection(prev => prev.includes(id) ? prev.filter(p => p !== id) : [...prev, id]);
+
+  return (
+    <div className="fixed inset-0 z-[120] flex items-center justify-center p-4 bg-black/90 backdrop-blur-xl animate-in fade-in duration-200" onClick={onCancel}>
+      <div className="bg-gray-900 border border-gray-800 w-full max-w-md rounded-[2.5rem] overflow-hidden shadow-2xl animate-in zoom-in-95 duration-200" onClick={e => e.stopPropagation()}>
+        <div className="p-6 border-b border-gray-800 flex justify-between items-center bg-gray-900/50">
+          <div className="flex items-center gap-2">
+            <Package className="w-5 h-5 text-pink-500" />
+            <h2 className="text-xl font-black uppercase tracking-tight">Exportar Kit</h2>
+          </div>
+          <button onClick={onCancel} className="p-2 hover:bg-gray-800 rounded-full text-gray-500 hover:text-white"><X className="w-6 h-6" /></button>
+        </div>
+
+        <div className="p-6 space-y-5">
+          <input type="text" placeholder="Nombre del kit..." value={name} onChange={(e) => setName(e.target.value)} className="w-full bg-gray-800 border border-gray-700 rounded-xl py-3 px-4 text-sm font-bold text-center focus:outline-none focus:ring-2 focus:ring-pink-500/50" />
+
+          <div className="space-y-2 max-h-[40vh] overflow-y-auto no-scrollbar">
+            {BANKS.map(bank => {
+              const bankCells = filled.filter(c => getBankOf(c.id) === bank);
+              if (bankCells.length === 0) return null;
+              return (
+                <div key={bank} className="grid grid-cols-6 gap-1.5">
+                  {bankCells.map(cell => (
+                    <button
+                      key={cell.id}
+                      onClick={() => toggle(cell.id)}
+                      className={`py-2 rounded-lg text-[10px] font-black transition-colors ${selection.includes(cell.id) ? 'bg-pink-600 text-white' : 'bg-gray-800 text-gray-400 hover:text-white'}`}
+                    >
+                      {getPadLabel(cell.id)}
+                    </button>
+                  ))}
+                </div>
+              );
+            })}
+            {filled.length === 0 && (
+              <p className="py-6 text-center text-[10px] font-black uppercase tracking-[0.3em] text-gray-600">No hay pads grabados</p>
+            )}
+          </div>
+
+          <div className="flex gap-2 text-[10px] font-black uppercase tracking-widest">
+            <button onClick={() => setSelection(filled.map(c => c.id))} className="flex-1 py-2 bg-gray-800 rounded-lg text-gray-400 hover:text-white">Todos</button>
+            <button onClick={() => setSelection([])} className="flex-1 py-2 bg-gray-800 rounded-lg text-gray-400 hover:text-white">Ninguno</button>
+            <button
+              onClick={() => setWithVideo(prev => !prev)}
+              className={`flex-[2] flex items-center justify-center gap-1.5 py-2 rounded-lg transition-colors ${withVideo ? 'bg-pink-600 text-white' : 'bg-gray-800 text-gray-400 hover:text-white'}`}
+            >
+              <Video className="w-3.5 h-3.5" /> {withVideo ? 'Con vídeo' : 'Solo audio'}
+            </button>
+          </div>
+          {withVideo && (
+            <p className="text-[10px] font-bold text-gray-500">El vídeo recortado se renderiza en tiempo real: tarda lo mismo que duran los pads.</p>
+          )}
+
+          <button
+            onClick={() => onExport(name, cells.filter(c => selection.includes(c.id)).map(c => c.id), withVideo)}
+            disabled={isBusy || selection.length === 0}
+            className="w-full py-5 bg-white text-black font-black text-[10px] rounded-2xl uppercase tracking-[0.2em] shadow-2xl hover:bg-pink-500 hover:text-white transition-all flex items-center justify-center gap-3 active:scale-95 disabled:opacity-30"
+          >
+            <Check className="w-5 h-5" /> Exportar {selection.length} {selection.length === 1 ? 'pad' : 'pads'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
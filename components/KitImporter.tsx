@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { X, PackageOpen, Check, Video, AudioLines, AlertTriangle } from 'lucide-react';
+import { PadCell } from '../types';
+import { Kit } from '../services/kit';
+import { getPadLabel } from '../services/banks';
+
+interface KitImporterProps {
+  kit: Kit;
+  cells: PadCell[];
+  defaultTargets: number[];   // Pads vacíos en orden, para la asignación inicial
+  isBusy: boolean;
+  onImport: (assignments: { index: number; padId: number }[]) => void;
+  onCancel: () => void;
+}
+
+const SKIP = -1;
+
+export const KitImporter: React.FC<KitImporterProps> = ({
+  kit,
+  cells,
+  defaultTargets,
+  isBusy,
+  onImport,
+  onCancel
+}) => {
+  const [targets, setTargets] = useState<number[]>(kit.pads.map((_, i) => defaultTargets[i] ?? SKIP));
+
+  const assignments = targets
+    .map((padId, index) => ({ index, padId }))
+    .filter(a => a.padId !== SKIP);
+  const hasDuplicates = new Set(assignments.map(a => a.padId)).size !== assignments.length;
+  const overwrites = assignments.filter(a => !cells.find(c => c.id === a.padId)?.isEmpty).length;
+
+  return (
+    <div className="fixed inset-0 z-[120] flex items-center justify-center p-4 bg-black/90 backdrop-blur-xl animate-in fade-in duration-200" onClick={onCancel}>
+      <div className="bg-gray-900 border border-gray-800 w-full max-w-md rounded-[2.5rem] overflow-hidden shadow-2xl animate-in zoom-in-95 duration-200" onClick={e => e.stopPropagation()}>
+        <div className="p-6 border-b border-gray-800 flex justify-between items-center bg-gray-900/50">
+          <div className="flex items-center gap-2 min-w-0">
+            <PackageOpen className="w-5 h-5 text-pink-500 flex-none" />
+            <h2 className="text-xl font-black uppercase tracking-tight truncate">{kit.name}</h2>
+          </div>
+          <button onClick={onCancel} className="p-2 hover:bg-gray-800 rounded-full text-gray-500 hover:text-white"><X className="w-6 h-6" /></button>
+        </div>
+
+        <div className="p-6 space-y-5">
+          <div className="space-y-1.5 max-h-[45vh] overflow-y-auto no-scrollbar">
+            {kit.pads.map((pad, index) => (
+              <div key={index} className="flex items-center gap-3 bg-gray-950/60 border border-gray-800 rounded-xl px-3 py-2">
+                {pad.descriptor.video ? <Video className="w-4 h-4 text-gray-500" /> : <AudioLines className="w-4 h-4 text-gray-500" />}
+                <span className="flex-1 text-xs font-bold text-gray-300">{pad.descriptor.name} <span className="text-gray-600 tabular-nums">{pad.descriptor.duration.toFixed(2)}s</span></span>
+                <select
+                  value={targets[index]}
+                  onChange={(e) => setTargets(prev => prev.map((t, i) => i === index ? parseInt(e.target.value, 10) : t))}
+                  className="bg-gray-800 border border-gray-700 rounded-lg px-2 py-1.5 text-[10px] font-black uppercase tracking-widest text-white"
+                >
+                  <option value={SKIP}>No importar</option>
+                  {cells.map(cell => (
+                    <option key={cell.id} value={cell.id}>{getPadLabel(cell.id)}{cell.isEmpty ? '' : ' • ocupado'}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+
+          {(kit.skipped.length > 0 || kit.warnings.length > 0) && (
+            <div className="space-y-1.5 max-h-28 overflow-y-auto no-scrollbar">
+              <p className="flex items-center gap-1.5 text-[10px] font-black uppercase tracking-widest text-yellow-400"><AlertTriangle className="w-3.5 h-3.5" /> {kit.skipped.length} pads sin importar • {kit.warnings.length} datos corregidos</p>
+              {kit.skipped.map((skip, index) => (
+                <p key={`skip${index}`} className="text-xs text-gray-400"><span className="font-black text-gray-300">{skip.label}</span>: {skip.reason}</p>
+              ))}
+              {kit.warnings.map((warning, index) => <p key={`warning${index}`} className="text-xs text-gray-400">{warning}</p>)}
+            </div>
+          )}
+
+          {hasDuplicates && <p className="text-[10px] font-black uppercase tracking-widest text-red-400">Dos pads del kit van al mismo hueco</p>}
+          {!hasDuplicates && overwrites > 0 && <p className="text-[10px] font-black uppercase tracking-widest text-yellow-400">Se sustituirán {overwrites} pads ocupados</p>}
+
+          <button
+            onClick={() => onImport(assignments)}
+            disabled={isBusy || hasDuplicates || assignments.length === 0}
+            className="w-full py-5 bg-white text-black font-black text-[10px] rounded-2xl uppercase tracking-[0.2em] shadow-2xl hover:bg-pink-500 hover:text-white transition-all flex items-center justify-center gap-3 active:scale-95 disabled:opacity-30"
+          >
+            <Check className="w-5 h-5" /> Importar {assignments.length} {assignments.length === 1 ? 'pad' : 'pads'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,84 @@
+import React from 'react';
+import { X, Piano, Radio, Eraser } from 'lucide-react';
+import { MidiMapping, PadCell } from '../types';
+import { describeMapping } from '../services/midi';
+import { getPadLabel } from '../services/banks';
+
+interface MidiPanelProps {
+  cells: PadCell[];
+  isEnabled: boolean;
+  inputs: string[];
+  mappings: MidiMapping[];
+  learningPadId: number | null;
+  error: string | null;
+  onEnable: () => void;
+  onLearn: (padId: number) => void;
+  onClearMapping: (padId: number) => void;
+  onClose: () => void;
+}
+
+export const MidiPanel: React.FC<MidiPanelProps> = ({
+  cells,
+  isEnabled,
+  inputs,
+  mappings,
+  learningPadId,
+  error,
+  onEnable,
+  onLearn,
+  onClearMapping,
+  onClose
+}) => {
+  const activeCells = cells.filter(c => !c.isEmpty);
+
+  return (
+    <div className="fixed inset-x-0 bottom-0 z-[90] max-h-[70vh] bg-gray-950/95 backdrop-blur-2xl border-t border-gray-800 shadow-2xl flex flex-col animate-in slide-in-from-bottom-6 duration-300">
+      <header className="flex-none p-4 flex flex-wrap items-center justify-between gap-3 border-b border-gray-800">
+        <div className="flex items-center gap-3">
+          <div className="flex items-center gap-2">
+            <Piano className="w-4 h-4 text-pink-500" />
+            <h2 className="text-sm font-black uppercase tracking-tight">MIDI</h2>
+          </div>
+          {isEnabled ? (
+            <span className="flex items-center gap-1.5 text-[10px] font-black uppercase tracking-widest text-gray-500">
+              <Radio className={`w-3.5 h-3.5 ${inputs.length > 0 ? 'text-green-500' : 'text-gray-600'}`} />
+              {inputs.length > 0 ? inputs.join(' • ') : 'Sin controladores'}
+            </span>
+          ) : (
+            <button onClick={onEnable} className="h-9 px-4 bg-white text-black rounded-full text-[10px] font-black uppercase tracking-widest active:scale-95">Activar MIDI</button>
+          )}
+        </div>
+        <button onClick={onClose} className="p-2 hover:bg-gray-800 rounded-full text-gray-500 hover:text-white">
+          <X className="w-5 h-5" />
+        </button>
+      </header>
+
+      <div className="flex-1 overflow-auto no-scrollbar p-4 space-y-1.5">
+        {error && <p className="py-2 text-center text-[10px] font-black uppercase tracking-widest text-red-400">{error}</p>}
+        {activeCells.length === 0 && (
+          <p className="py-8 text-center text-[10px] font-black uppercase tracking-[0.3em] text-gray-600">Graba algún pad para asignarle un control</p>
+        )}
+        {activeCells.map(cell => {
+          const mapping = mappings.find(m => m.padId === cell.id);
+          const isLearning = learningPadId === cell.id;
+          return (
+            <div key={cell.id} className="flex items-center gap-3 bg-gray-900 border border-gray-800 rounded-xl px-3 py-2">
+              <span className="w-8 text-[10px] font-black text-gray-500 tabular-nums">{getPadLabel(cell.id)}</span>
+              <span className="flex-1 text-xs font-bold text-gray-300 tabular-nums">{mapping ? describeMapping(mapping) : '—'}</span>
+              <button
+                onClick={() => onLearn(cell.id)}
+                disabled={!isEnabled}
+                className={`px-3 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-widest transition-colors disabled:opacity-30 ${isLearning ? 'bg-pink-600 text-white animate-pulse' : 'bg-gray-800 text-gray-400 hover:text-white'}`}
+              >
+                {isLearning ? 'Toca un control...' : 'Aprender'}
+              </button>
+              <button onClick={() => onClearMapping(cell.id)} disabled={!mapping} className="p-2 bg-gray-800 rounded-lg text-gray-400 hover:text-red-400 transition-colors disabled:opacity-30">
+                <Eraser className="w-4 h-4" />
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,185 @@
+import React, { useEffect, useRef } from 'react';
+import { X, SlidersVertical, RotateCcw } from 'lucide-react';
+import { MasterSettings, MixerSettings, PadCell } from '../types';
+import { getMasterLevels } from '../services/audio';
+import { DEFAULT_MASTER, EQ_RANGE, MAX_MASTER_GAIN, isPadAudible, toDecibels } from '../services/mixer';
+import { getPadLabel } from '../services/banks';
+
+interface MixerPanelProps {
+  cells: PadCell[];
+  mixer: MixerSettings;
+  onChange: (mixer: MixerSettings) => void;
+  onVolumeChange: (id: number, volume: number) => void;
+  onClose: () => void;
+}
+
+interface ControlProps {
+  label: string;
+  display: string;
+  min: number;
+  max: number;
+  step: number;
+  value: number;
+  onChange: (value: number) => void;
+}
+
+const Control: React.FC<ControlProps> = ({ label, display, min, max, step, value, onChange }) => (
+  <label className="flex flex-col gap-1.5">
+    <span className="text-gray-500">{label} <span className="text-pink-500 tabular-nums">{display}</span></span>
+    <input
+      type="range" min={min} max={max} step={step}
+      value={value}
+      onChange={(e) => onChange(parseFloat(e.target.value))}
+      className="w-full h-1.5 bg-gray-700 rounded-full appearance-none cursor-pointer accent-pink-500"
+    />
+  </label>
+);
+
+// -60..0 dBFS → 0..100% de la barra
+const toMeterPercent = (level: number) => `${((toDecibels(level) + 60) / 60) * 100}%`;
+
+// El medidor se pinta fuera de React: leer el analizador en cada frame no debe re-renderizar el panel
+const StereoMeter: React.FC = () => {
+  const rmsRefs = [useRef<HTMLDivElement>(null), useRef<HTMLDivElement>(null)];
+  const peakRefs = [useRef<HTMLDivElement>(null), useRef<HTMLDivElement>(null)];
+
+  useEffect(() => {
+    let frameId: number;
+    const draw = () => {
+      const levels = getMasterLevels();
+      for (let channel = 0; channel < 2; channel++) {
+        const rms = rmsRefs[channel].current;
+        const peak = peakRefs[channel].current;
+        if (rms) rms.style.height = toMeterPercent(levels.rms[channel]);
+        if (peak) {
+          peak.style.bottom = toMeterPercent(levels.peak[channel]);
+          peak.style.backgroundColor = levels.peak[channel] >= 1 ? '#ef4444' : '#f472b6';
+        }
+      }
+      frameId = requestAnimationFrame(draw);
+    };
+    draw();
+    return () => cancelAnimationFrame(frameId);
+  }, []);
+
+  return (
+    <div className="flex gap-1 h-32">
+      {[0, 1].map(channel => (
+        <div key={channel} className="relative w-3 h-full bg-gray-800 rounded-xs overflow-hidden">
+          <div ref={rmsRefs[channel]} className="absolute inset-x-0 bottom-0 bg-gradient-to-t from-green-500 via-yellow-400 to-red-500" style={{ height: 0 }} />
+          <div ref={peakRefs[channel]} className="absolute inset-x-0 h-0.5" style={{ bottom: 0 }} />
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export const MixerPanel: React.FC<MixerPanelProps> = ({
+  cells,
+  mixer,
+  onChange,
+  onVolumeChange,
+  onClose
+}) => {
+  const activeCells = cells.filter(c => !c.isEmpty);
+  const { master } = mixer;
+
+  const updateMaster = (patch: Partial<MasterSettings>) => onChange({ ...mixer, master: { ...master, ...patch } });
+  const updateCompressor = (patch: Partial<MasterSettings['compressor']>) => updateMaster({ compressor: { ...master.compressor, ...patch } });
+  const updateEq = (patch: Partial<MasterSettings['eq']>) => updateMaster({ eq: { ...master.eq, ...patch } });
+
+  const toggle = (list: number[], padId: number) => list.includes(padId) ? list.filter(id => id !== padId) : [...list, padId];
+
+  return (
+    <div className="fixed inset-x-0 bottom-0 z-[90] max-h-[70vh] bg-gray-950/95 backdrop-blur-2xl border-t border-gray-800 shadow-2xl flex flex-col animate-in slide-in-from-bottom-6 duration-300">
+      <header className="flex-none p-4 flex items-center justify-between gap-3 border-b border-gray-800">
+        <div className="flex items-center gap-2">
+          <SlidersVertical className="w-4 h-4 text-pink-500" />
+          <h2 className="text-sm font-black uppercase tracking-tight">Mezclador</h2>
+        </div>
+        <div className="flex items-center gap-2">
+          <button onClick={() => onChange({ ...mixer, master: DEFAULT_MASTER })} className="p-2 bg-gray-800 border border-gray-700 rounded-lg text-gray-400 hover:text-white transition-colors">
+            <RotateCcw className="w-4 h-4" />
+          </button>
+          <button onClick={onClose} className="p-2 hover:bg-gray-800 rounded-full text-gray-500 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+      </header>
+
+      <div className="flex-1 overflow-auto no-scrollbar p-4 flex flex-col lg:flex-row gap-6 text-[10px] font-black uppercase tracking-widest">
+        <section className="flex-none flex gap-4 p-4 bg-gray-900 border border-gray-800 rounded-2xl">
+          <div className="flex flex-col items-center gap-2">
+            <StereoMeter />
+            <span className="text-gray-500">L R</span>
+          </div>
+          <div className="flex flex-col items-center gap-2">
+            <input
+              type="range" min="0" max={MAX_MASTER_GAIN} step="0.01"
+              value={master.gain}
+              onChange={(e) => updateMaster({ gain: parseFloat(e.target.value) })}
+              className="h-32 w-1.5 appearance-none cursor-pointer accent-pink-500 [writing-mode:vertical-lr] [direction:rtl]"
+            />
+            <span className="text-pink-500 tabular-nums">{toDecibels(master.gain).toFixed(1)} dB</span>
+          </div>
+          <div className="w-44 space-y-3">
+            <span className="text-gray-300">EQ</span>
+            <Control label="Graves" display={`${master.eq.low} dB`} min={-EQ_RANGE} max={EQ_RANGE} step={0.5} value={master.eq.low} onChange={(low) => updateEq({ low })} />
+            <Control label="Medios" display={`${master.eq.mid} dB`} min={-EQ_RANGE} max={EQ_RANGE} step={0.5} value={master.eq.mid} onChange={(mid) => updateEq({ mid })} />
+            <Control label="Agudos" display={`${master.eq.high} dB`} min={-EQ_RANGE} max={EQ_RANGE} step={0.5} value={master.eq.high} onChange={(high) => updateEq({ high })} />
+          </div>
+          <div className="w-44 space-y-3">
+            <div className="flex items-center justify-between">
+              <span className="text-gray-300">Compresor</span>
+              <button
+                onClick={() => updateMaster({ limiter: !master.limiter })}
+                className={`px-2 py-1 rounded-md transition-colors ${master.limiter ? 'bg-pink-600 text-white' : 'bg-gray-800 text-gray-500'}`}
+              >
+                Limitador
+              </button>
+            </div>
+            <Control label="Umbral" display={`${master.compressor.threshold} dB`} min={-60} max={0} step={1} value={master.compressor.threshold} onChange={(threshold) => updateCompressor({ threshold })} />
+            <Control label="Ratio" display={`${master.compressor.ratio}:1`} min={1} max={20} step={0.5} value={master.compressor.ratio} onChange={(ratio) => updateCompressor({ ratio })} />
+            <Control label="Rodilla" display={`${master.compressor.knee} dB`} min={0} max={40} step={1} value={master.compressor.knee} onChange={(knee) => updateCompressor({ knee })} />
+            <Control label="Ataque" display={`${Math.round(master.compressor.attack * 1000)} ms`} min={0} max={0.2} step={0.001} value={master.compressor.attack} onChange={(attack) => updateCompressor({ attack })} />
+            <Control label="Relajación" display={`${Math.round(master.compressor.release * 1000)} ms`} min={0.01} max={1} step={0.01} value={master.compressor.release} onChange={(release) => updateCompressor({ release })} />
+          </div>
+        </section>
+
+        <section className="flex-1 space-y-1.5">
+          {activeCells.length === 0 && (
+            <p className="py-8 text-center tracking-[0.3em] text-gray-600">Graba algún pad para mezclarlo</p>
+          )}
+          {activeCells.map(cell => {
+            const isMuted = mixer.mutes.includes(cell.id);
+            const isSolo = mixer.solos.includes(cell.id);
+            return (
+              <div key={cell.id} className={`flex items-center gap-3 bg-gray-900 border border-gray-800 rounded-xl px-3 py-2 transition-opacity ${isPadAudible(mixer, cell.id) ? '' : 'opacity-40'}`}>
+                <span className="w-8 text-gray-500 tabular-nums">{getPadLabel(cell.id)}</span>
+                <input
+                  type="range" min="0" max="10" step="0.1"
+                  value={cell.volume}
+                  onChange={(e) => onVolumeChange(cell.id, parseFloat(e.target.value))}
+                  className="flex-1 h-1.5 bg-gray-700 rounded-full appearance-none cursor-pointer accent-pink-500"
+                />
+                <span className="w-8 text-gray-400 tabular-nums text-right">{cell.volume.toFixed(1)}</span>
+                <button
+                  onClick={() => onChange({ ...mixer, mutes: toggle(mixer.mutes, cell.id) })}
+                  className={`w-8 h-8 rounded-lg transition-colors ${isMuted ? 'bg-red-600 text-white' : 'bg-gray-800 text-gray-400 hover:text-white'}`}
+                >
+                  M
+                </button>
+                <button
+                  onClick={() => onChange({ ...mixer, solos: toggle(mixer.solos, cell.id) })}
+                  className={`w-8 h-8 rounded-lg transition-colors ${isSolo ? 'bg-yellow-500 text-black' : 'bg-gray-800 text-gray-400 hover:text-white'}`}
+                >
+                  S
+                </button>
+              </div>
+            );
+          })}
+        </section>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { X, Check, Music, RotateCcw } from 'lucide-react';
+import { ChromaticSettings, PadPitch } from '../types';
+import { CENTS_RANGE, DEFAULT_PITCH, MAX_RATE, MIN_RATE, SCALES, SEMITONE_RANGE, formatSemitones, normalizePitch } from '../services/pitch';
+import { getPadLabel } from '../services/banks';
+
+interface PitchEditorProps {
+  padId: number;
+  currentBank: string;
+  initialPitch: PadPitch;
+  chromatic: ChromaticSettings | null;
+  onSave: (pitch: PadPitch, chromatic: ChromaticSettings | null) => void;
+  onCancel: () => void;
+}
+
+export const PitchEditor: React.FC<PitchEditorProps> = ({
+  padId,
+  currentBank,
+  initialPitch,
+  chromatic,
+  onSave,
+  onCancel
+}) => {
+  const [pitch, setPitch] = useState<PadPitch>(normalizePitch(initialPitch));
+  const ownsChromatic = chromatic?.sourceId === padId;
+  const [isChromatic, setIsChromatic] = useState(ownsChromatic);
+  const [scale, setScale] = useState(ownsChromatic && chromatic ? chromatic.scale : SCALES[0].id);
+  const chromaticBank = ownsChromatic && chromatic ? chromatic.bank : currentBank;
+
+  const update = (patch: Partial<PadPitch>) => setPitch(prev => normalizePitch({ ...prev, ...patch }));
+
+  const handleSave = () => {
+    // Desactivar el modo cromático solo afecta si este pad era el origen
+    const nextChromatic = isChromatic
+      ? { sourceId: padId, bank: chromaticBank, scale }
+      : ownsChromatic ? null : chromatic;
+    onSave(pitch, nextChromatic);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[120] flex items-center justify-center p-4 bg-black/90 backdrop-blur-xl animate-in fade-in duration-200" onClick={onCancel}>
+      <div className="bg-gray-900 border border-gray-800 w-full max-w-md rounded-[2.5rem] overflow-hidden shadow-2xl animate-in zoom-in-95 duration-200" onClick={e => e.stopPropagation()}>
+        <div className="p-6 border-b border-gray-800 flex justify-between items-center bg-gray-900/50">
+          <div className="flex items-center gap-2">
+            <Music className="w-5 h-5 text-pink-500" />
+            <h2 className="text-xl font-black uppercase tracking-tight">Afinación {getPadLabel(padId)}</h2>
+          </div>
+          <button onClick={onCancel} className="p-2 hover:bg-gray-800 rounded-full text-gray-500 hover:text-white"><X className="w-6 h-6" /></button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <div className="space-y-4 text-[10px] font-black uppercase tracking-[0.2em]">
+            <label className="flex flex-col gap-2">
+              <span className="text-gray-500">Semitonos <span className="text-pink-500">{formatSemitones(pitch.semitones)}</span></span>
+              <input
+                type="range" min={-SEMITONE_RANGE} max={SEMITONE_RANGE} step="1"
+                value={pitch.semitones}
+                onChange={(e) => update({ semitones: parseInt(e.target.value, 10) })}
+                className="w-full h-1.5 bg-gray-700 rounded-full appearance-none cursor-pointer accent-pink-500"
+              />
+            </label>
+            <label className="flex flex-col gap-2">
+              <span className="text-gray-500">Cents <span className="text-pink-500">{formatSemitones(pitch.cents)}</span></span>
+              <input
+                type="range" min={-CENTS_RANGE} max={CENTS_RANGE} step="1"
+                value={pitch.cents}
+                onChange={(e) => update({ cents: parseInt(e.target.value, 10) })}
+                className="w-full h-1.5 bg-gray-700 rounded-full appearance-none cursor-pointer accent-pink-500"
+              />
+            </label>
+            <label className="flex flex-col gap-2">
+              <span className="text-gray-500">Velocidad <span className="text-pink-500">{pitch.rate.toFixed(2)}x</span></span>
+              <input
+                type="range" min={MIN_RATE} max={MAX_RATE} step="0.01"
+                value={pitch.rate}
+                onChange={(e) => update({ rate: parseFloat(e.target.value) })}
+                className="w-full h-1.5 bg-gray-700 rounded-full appearance-none cursor-pointer accent-pink-500"
+              />
+            </label>
+          </div>
+
+          <div className="space-y-3 p-4 bg-gray-950/60 border border-gray-800 rounded-2xl">
+            <button
+              onClick={() => setIsChromatic(prev => !prev)}
+              className={`w-full py-3 rounded-xl text-[10px] font-black uppercase tracking-widest transition-colors ${isChromatic ? 'bg-cyan-600 text-white' : 'bg-gray-800 text-gray-400 hover:text-white'}`}
+            >
+              {isChromatic ? `Cromático en banco ${chromaticBank}` : 'Activar modo cromático'}
+            </button>
+            {isChromatic && (
+              <div className="grid grid-cols-2 gap-2">
+                {SCALES.map(s => (
+                  <button
+                    key={s.id}
+                    onClick={() => setScale(s.id)}
+                    className={`py-2 rounded-lg text-[10px] font-black uppercase tracking-widest transition-colors ${scale === s.id ? 'bg-white text-black' : 'bg-gray-800 text-gray-400 hover:text-white'}`}
+                  >
+                    {s.label}
+                  </button>
+                ))}
+              </div>
+            )}
+            {!isChromatic && chromatic && !ownsChromatic && (
+              <p className="text-[10px] font-bold text-gray-500">El banco {chromatic.bank} ya toca {getPadLabel(chromatic.sourceId)} en escala; activarlo aquí lo sustituye.</p>
+            )}
+          </div>
+
+          <div className="flex gap-3">
+            <button onClick={() => setPitch(DEFAULT_PITCH)} className="p-5 bg-gray-800/40 text-gray-500 rounded-2xl hover:text-white border border-white/5 transition-colors">
+              <RotateCcw className="w-5 h-5" />
+            </button>
+            <button
+              onClick={handleSave}
+              className="flex-1 py-5 bg-white text-black font-black text-[10px] rounded-2xl uppercase tracking-[0.2em] shadow-2xl hover:bg-pink-500 hover:text-white transition-all flex items-center justify-center gap-3 active:scale-95"
+            >
+              <Check className="w-5 h-5" /> Aplicar Cambios
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,125 @@
+import React, { useState, useRef } from 'react';
+import { X, Plus, Copy, Trash2, Pencil, Check, FolderOpen, Library, AlertTriangle, Upload } from 'lucide-react';
+import { ProjectInfo } from '../types';
+
+interface ProjectBrowserProps {
+  projects: ProjectInfo[];
+  activeProjectId: string | null;
+  isBusy: boolean;
+  onOpen: (projectId: string) => void;
+  onCreate: (name: string) => void;
+  onRename: (projectId: string, name: string) => void;
+  onDuplicate: (projectId: string) => void;
+  onDelete: (projectId: string) => void;
+  onImport: () => void;
+  onClose: () => void;
+}
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString(undefined, { day: '2-digit', month: 'short', year: 'numeric' });
+
+export const ProjectBrowser: React.FC<ProjectBrowserProps> = ({
+  projects,
+  activeProjectId,
+  isBusy,
+  onOpen,
+  onCreate,
+  onRename,
+  onDuplicate,
+  onDelete,
+  onImport,
+  onClose
+}) => {
+  const [newName, setNewName] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+  const [confirmingDeleteId, setConfirmingDeleteId] = useState<string | null>(null);
+  const confirmTimerRef = useRef<number | null>(null);
+
+  const handleCreate = () => {
+    onCreate(newName.trim() || `Proyecto ${projects.length + 1}`);
+    setNewName('');
+  };
+
+  const handleDelete = (projectId: string) => {
+    if (confirmingDeleteId !== projectId) {
+      setConfirmingDeleteId(projectId);
+      if (confirmTimerRef.current) window.clearTimeout(confirmTimerRef.current);
+      confirmTimerRef.current = window.setTimeout(() => setConfirmingDeleteId(null), 3000);
+      return;
+    }
+    setConfirmingDeleteId(null);
+    onDelete(projectId);
+  };
+
+  const commitRename = () => {
+    if (editingId && editingName.trim()) onRename(editingId, editingName.trim());
+    setEditingId(null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[110] flex items-center justify-center p-4 bg-black/80 backdrop-blur-xl animate-in fade-in duration-200" onClick={onClose}>
+      <div className="bg-gray-900 border border-gray-800 w-full max-w-lg rounded-[2rem] overflow-hidden shadow-2xl flex flex-col max-h-[85vh]" onClick={e => e.stopPropagation()}>
+        <div className="p-6 border-b border-gray-800 flex justify-between items-center">
+          <div className="flex items-center gap-2"><Library className="w-5 h-5 text-pink-500" /><h2 className="text-xl font-black uppercase tracking-tight">Proyectos</h2></div>
+          <button onClick={onClose} className="p-2 hover:bg-gray-800 rounded-full text-gray-500 hover:text-white"><X className="w-6 h-6" /></button>
+        </div>
+
+        <div className="p-6 flex gap-2 border-b border-gray-800">
+          <input
+            type="text"
+            placeholder="Nuevo proyecto..."
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') handleCreate(); }}
+            className="flex-1 min-w-0 bg-gray-800 border border-gray-700 rounded-xl py-3 px-4 text-sm font-bold focus:outline-none focus:ring-2 focus:ring-pink-500/50"
+          />
+          <button onClick={handleCreate} disabled={isBusy} className="px-4 bg-white text-black rounded-xl text-xs font-black flex items-center gap-2 shadow-lg active:scale-95 disabled:opacity-50">
+            <Plus className="w-4 h-4" /><span className="uppercase">Crear</span>
+          </button>
+          <button onClick={onImport} disabled={isBusy} className="px-4 bg-gray-800 border border-gray-700 rounded-xl text-xs font-black flex items-center gap-2 active:scale-95 hover:bg-gray-700 disabled:opacity-50">
+            <Upload className="w-4 h-4 text-blue-400" /><span className="uppercase">ZIP</span>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto no-scrollbar p-4 space-y-2">
+          {projects.map(project => {
+            const isActive = project.id === activeProjectId;
+            const isEditing = editingId === project.id;
+            const isConfirming = confirmingDeleteId === project.id;
+            return (
+              <div key={project.id} className={`flex items-center gap-2 p-3 rounded-2xl border transition-colors ${isActive ? 'bg-pink-600/10 border-pink-500/40' : 'bg-gray-800/40 border-gray-800'}`}>
+                <div className="flex-1 min-w-0">
+                  {isEditing ? (
+                    <input
+                      autoFocus
+                      type="text"
+                      value={editingName}
+                      onChange={(e) => setEditingName(e.target.value)}
+                      onKeyDown={(e) => { if (e.key === 'Enter') commitRename(); if (e.key === 'Escape') setEditingId(null); }}
+                      onBlur={commitRename}
+                      className="w-full bg-gray-800 rounded-lg px-2 py-1 text-sm font-bold focus:outline-none focus:ring-2 focus:ring-pink-500/50"
+                    />
+                  ) : (
+                    <p className="text-sm font-bold truncate">{project.name}</p>
+                  )}
+                  <p className="text-[9px] font-black uppercase tracking-widest text-gray-500">{isActive ? 'Abierto • ' : ''}{formatDate(project.updatedAt)}</p>
+                </div>
+                {isEditing ? (
+                  <button onClick={commitRename} className="p-2 bg-gray-800 rounded-lg text-gray-400 hover:text-white"><Check className="w-4 h-4" /></button>
+                ) : (
+                  <button onClick={() => { setEditingId(project.id); setEditingName(project.name); }} className="p-2 bg-gray-800 rounded-lg text-gray-400 hover:text-white"><Pencil className="w-4 h-4" /></button>
+                )}
+                <button onClick={() => onDuplicate(project.id)} disabled={isBusy} className="p-2 bg-gray-800 rounded-lg text-gray-400 hover:text-white disabled:opacity-50"><Copy className="w-4 h-4" /></button>
+                <button onClick={() => handleDelete(project.id)} disabled={isBusy} className={`p-2 rounded-lg transition-colors disabled:opacity-50 ${isConfirming ? 'bg-red-600 text-white animate-pulse' : 'bg-gray-800 text-gray-400 hover:text-red-400'}`}>
+                  {isConfirming ? <AlertTriangle className="w-4 h-4" /> : <Trash2 className="w-4 h-4" />}
+                </button>
+                <button onClick={() => onOpen(project.id)} disabled={isActive || isBusy} className="p-2 bg-white text-black rounded-lg disabled:opacity-30 active:scale-90"><FolderOpen className="w-4 h-4" /></button>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,6 +1,7 @@
 
 import React, { useRef, useState, useEffect } from 'react';
 import { Loader2, X, SwitchCamera, Zap, ZapOff } from 'lucide-react';
+import { getRecorderOptions } from '../services/media';
 
 interface GlobalRecorderProps {
   stream: MediaStream;
@@ -50,20 +51,7 @@ export const Recorder: React.FC<GlobalRecorderProps> = ({
   const startCapture = () => {
     if (!stream) return;
     
-    const options: MediaRecorderOptions = {
-      videoBitsPerSecond: 2500000,
-      audioBitsPerSecond: 128000,
-    };
-
-    const isApple = /iPad|iPhone|iPod/.test(navigator.userAgent) || (navigator.platform === 'MacIntel' && navigator.maxTouchPoints > 1);
-    
-    if (isApple && MediaRecorder.isTypeSupported('video/mp4')) {
-      options.mimeType = 'video/mp4';
-    } else if (MediaRecorder.isTypeSupported('video/webm;codecs=vp8,opus')) {
-      options.mimeType = 'video/webm;codecs=vp8,opus';
-    } else if (MediaRecorder.isTypeSupported('video/webm')) {
-      options.mimeType = 'video/webm';
-    }
+    const options = getRecorderOptions();
     
     try {
       const mediaRecorder = new MediaRecorder(stream, options);
@@ -124,7 +112,7 @@ export const Recorder: React.FC<GlobalRecorderProps> = ({
         )}
 
         {isProcessing && (
-          <div className="absolute inset-0 flex items-center justify-center bg-black/80 backdrop-blur-sm flex-col">
+          <div className="absolute inset-0 flex items-center justify-center bg-black/80 backdrop-blur-xs flex-col">
             <Loader2 className="w-12 h-12 text-pink-500 animate-spin mb-4" />
             <p className="text-white font-bold tracking-widest uppercase text-[10px]">Procesando...</p>
           </div>
@@ -0,0 +1,120 @@
+import React from 'react';
+import { X, Play, Square, Eraser, Drum } from 'lucide-react';
+import { PadCell, SequencerSettings } from '../types';
+import { STEP_OPTIONS, resizePattern } from '../services/sequencer';
+import { getPadLabel } from '../services/banks';
+
+interface SequencerProps {
+  cells: PadCell[];
+  settings: SequencerSettings;
+  patterns: Record<number, number[]>;
+  isRunning: boolean;
+  currentStep: number | null;
+  onToggleRun: () => void;
+  onSettingsChange: (settings: SequencerSettings) => void;
+  onStepChange: (padId: number, step: number, velocity: number) => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+// Cada toque sobre un paso rota entre estos niveles de velocidad y vuelve a apagado
+const VELOCITY_LEVELS = [1, 0.66, 0.33];
+
+const nextVelocity = (current: number) => {
+  if (current <= 0) return VELOCITY_LEVELS[0];
+  const index = VELOCITY_LEVELS.findIndex(v => Math.abs(v - current) < 0.01);
+  return index >= 0 && index < VELOCITY_LEVELS.length - 1 ? VELOCITY_LEVELS[index + 1] : 0;
+};
+
+export const Sequencer: React.FC<SequencerProps> = ({
+  cells,
+  settings,
+  patterns,
+  isRunning,
+  currentStep,
+  onToggleRun,
+  onSettingsChange,
+  onStepChange,
+  onClear,
+  onClose
+}) => {
+  const activeCells = cells.filter(c => !c.isEmpty);
+
+  return (
+    <div className="fixed inset-x-0 bottom-0 z-[90] max-h-[70vh] bg-gray-950/95 backdrop-blur-2xl border-t border-gray-800 shadow-2xl flex flex-col animate-in slide-in-from-bottom-6 duration-300">
+      <header className="flex-none p-4 flex flex-wrap items-center justify-between gap-3 border-b border-gray-800">
+        <div className="flex items-center gap-3">
+          <button onClick={onToggleRun} className={`w-11 h-11 flex items-center justify-center rounded-full transition-all active:scale-90 ${isRunning ? 'bg-pink-600 text-white shadow-xl shadow-pink-600/20' : 'bg-white text-black'}`}>
+            {isRunning ? <Square className="w-4 h-4 fill-current" /> : <Play className="w-4 h-4 fill-current ml-0.5" />}
+          </button>
+          <div className="flex items-center gap-2">
+            <Drum className="w-4 h-4 text-pink-500" />
+            <h2 className="text-sm font-black uppercase tracking-tight">Secuenciador</h2>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-4 text-[10px] font-black uppercase tracking-widest text-gray-500">
+          <label className="flex items-center gap-2">
+            BPM
+            <input
+              type="number" min="40" max="240"
+              value={settings.bpm}
+              onChange={(e) => {
+                const bpm = parseInt(e.target.value, 10);
+                if (!isNaN(bpm)) onSettingsChange({ ...settings, bpm: Math.max(40, Math.min(240, bpm)) });
+              }}
+              className="w-16 bg-gray-800 border border-gray-700 rounded-lg py-1.5 px-2 text-xs text-white text-center tabular-nums focus:outline-none focus:ring-2 focus:ring-pink-500/50"
+            />
+          </label>
+          <label className="flex items-center gap-2">
+            Swing
+            <input
+              type="range" min="0" max="1" step="0.05"
+              value={settings.swing}
+              onChange={(e) => onSettingsChange({ ...settings, swing: parseFloat(e.target.value) })}
+              className="w-20 h-1.5 bg-gray-700 rounded-full appearance-none cursor-pointer accent-pink-500"
+            />
+            <span className="w-8 text-gray-400 tabular-nums">{Math.round(settings.swing * 100)}%</span>
+          </label>
+          <div className="flex gap-1">
+            {STEP_OPTIONS.map(n => (
+              <button key={n} onClick={() => onSettingsChange({ ...settings, steps: n })} className={`px-2 py-1.5 rounded-lg transition-colors ${settings.steps === n ? 'bg-pink-600 text-white' : 'bg-gray-800 text-gray-500 hover:text-white'}`}>
+                {n}
+              </button>
+            ))}
+          </div>
+          <button onClick={onClear} className="p-2 bg-gray-800 border border-gray-700 rounded-lg text-gray-400 hover:text-red-400 transition-colors">
+            <Eraser className="w-4 h-4" />
+          </button>
+          <button onClick={onClose} className="p-2 hover:bg-gray-800 rounded-full text-gray-500 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+      </header>
+
+      <div className="flex-1 overflow-auto no-scrollbar p-4 space-y-1.5">
+        {activeCells.length === 0 && (
+          <p className="py-8 text-center text-[10px] font-black uppercase tracking-[0.3em] text-gray-600">Graba algún pad para programar patrones</p>
+        )}
+        {activeCells.map(cell => {
+          const steps = resizePattern(patterns[cell.id], settings.steps);
+          return (
+            <div key={cell.id} className="flex items-center gap-2">
+              <span className="w-8 flex-none text-[10px] font-black text-gray-500 tabular-nums text-right">{getPadLabel(cell.id)}</span>
+              <div className="flex-1 grid gap-1" style={{ gridTemplateColumns: `repeat(${settings.steps}, minmax(0, 1fr))` }}>
+                {steps.map((velocity, step) => (
+                  <button
+                    key={step}
+                    onClick={() => onStepChange(cell.id, step, nextVelocity(velocity))}
+                    className={`h-7 rounded-md transition-colors ${step % 4 === 0 ? 'ring-1 ring-white/10' : ''} ${currentStep === step ? 'brightness-150' : ''} ${velocity > 0 ? 'bg-pink-500' : currentStep === step ? 'bg-gray-600' : 'bg-gray-800 hover:bg-gray-700'}`}
+                    style={velocity > 0 ? { opacity: 0.35 + velocity * 0.65 } : undefined}
+                  />
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,214 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { X, Check, Play, Square, SquareSplitHorizontal } from 'lucide-react';
+import { connectToMaster, getAudioContext } from '../services/audio';
+import { computePeaks, findZeroCrossing } from '../services/waveform';
+import { DEFAULT_SENSITIVITY } from '../services/onsets';
+import { Slice, cutsToSlices, getSliceCuts, toggleCut } from '../services/slicer';
+import { getPadLabel } from '../services/banks';
+
+interface SliceEditorProps {
+  buffer: AudioBuffer;
+  videoUrl: string;
+  targets: number[];   // Pads vacíos en el orden en que se rellenan
+  onConfirm: (slices: Slice[]) => void;
+  onCancel: () => void;
+}
+
+const HEIGHT = 120;
+const CUT_HIT = 8; // Píxeles de tolerancia para quitar un corte
+
+// Vista previa del troceado: cortes sobre la forma de onda de la toma completa
+// y el pad que recibirá cada trozo antes de guardar nada
+export const SliceEditor: React.FC<SliceEditorProps> = ({
+  buffer,
+  videoUrl,
+  targets,
+  onConfirm,
+  onCancel
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const sourceRef = useRef<AudioBufferSourceNode | null>(null);
+  const [width, setWidth] = useState(0);
+  const [sensitivity, setSensitivity] = useState(DEFAULT_SENSITIVITY);
+  const [cuts, setCuts] = useState<number[]>(() => getSliceCuts(buffer, DEFAULT_SENSITIVITY));
+  const [playingIndex, setPlayingIndex] = useState<number | null>(null);
+
+  const slices = useMemo(() => cutsToSlices(cuts, buffer.duration), [cuts, buffer]);
+  const assigned = slices.slice(0, targets.length);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const observer = new ResizeObserver(() => setWidth(canvas.clientWidth));
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, []);
+
+  const peaks = useMemo(
+    () => width > 0 ? computePeaks(buffer, 0, buffer.duration, Math.floor(width)) : [],
+    [buffer, width]
+  );
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || width === 0) return;
+
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = width * ratio;
+    canvas.height = HEIGHT * ratio;
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+    ctx.clearRect(0, 0, width, HEIGHT);
+    const mid = HEIGHT / 2;
+    const toX = (time: number) => (time / buffer.duration) * width;
+
+    // Los trozos que no caben en los pads vacíos quedan en gris
+    const lastAssigned = assigned.length > 0 ? assigned[assigned.length - 1].end : 0;
+    peaks.forEach(([min, max], x) => {
+      const time = (x / width) * buffer.duration;
+      const slice = assigned.findIndex(s => time >= s.start && time < s.end);
+      ctx.fillStyle = slice < 0 || time >= lastAssigned
+        ? 'rgba(75, 85, 99, 0.6)'
+        : slice === playingIndex ? 'rgba(34, 211, 238, 0.9)' : slice % 2 === 0 ? 'rgba(244, 114, 182, 0.8)' : 'rgba(250, 204, 21, 0.8)';
+      ctx.fillRect(x, mid - max * mid, 1, Math.max(1, (max - min) * mid));
+    });
+
+    ctx.fillStyle = '#ffffff';
+    cuts.forEach(cut => ctx.fillRect(toX(cut) - 1, 0, 2, HEIGHT));
+  }, [peaks, cuts, assigned, playingIndex, width, buffer]);
+
+  const stopAudition = () => {
+    const source = sourceRef.current;
+    sourceRef.current = null;
+    if (source) {
+      source.onended = null;
+      try { source.stop(); } catch (e) {}
+    }
+    videoRef.current?.pause();
+    setPlayingIndex(null);
+  };
+
+  useEffect(() => stopAudition, []);
+
+  const audition = async (index: number) => {
+    const wasPlaying = playingIndex === index;
+    stopAudition();
+    if (wasPlaying) return;
+    const slice = slices[index];
+    const ctx = getAudioContext();
+    if (ctx.state === 'suspended') await ctx.resume();
+
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    connectToMaster(source);
+    source.onended = stopAudition;
+    source.start(ctx.currentTime, slice.start, slice.end - slice.start);
+    sourceRef.current = source;
+
+    const video = videoRef.current;
+    if (video) {
+      video.currentTime = slice.start;
+      video.play().catch(() => {});
+    }
+    setPlayingIndex(index);
+  };
+
+  const handleSensitivityChange = (value: number) => {
+    stopAudition();
+    setSensitivity(value);
+    setCuts(getSliceCuts(buffer, value));
+  };
+
+  const handleCanvasClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const x = e.clientX - e.currentTarget.getBoundingClientRect().left;
+    const time = (x / (width || 1)) * buffer.duration;
+    stopAudition();
+    setCuts(prev => toggleCut(prev, findZeroCrossing(buffer, time), (CUT_HIT / (width || 1)) * buffer.duration));
+  };
+
+  return (
+    <div className="fixed inset-0 z-[120] bg-black/95 backdrop-blur-3xl flex flex-col animate-in fade-in duration-300">
+      <header className="p-6 flex justify-between items-center border-b border-white/5 bg-black/40">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-pink-500/20 rounded-xl border border-pink-500/30">
+            <SquareSplitHorizontal className="w-5 h-5 text-pink-500" />
+          </div>
+          <div>
+            <h2 className="text-lg font-black uppercase tracking-tight text-white">Trocear Toma</h2>
+            <p className="text-[10px] text-gray-500 font-bold uppercase tracking-widest">Toca la onda para añadir o quitar cortes</p>
+          </div>
+        </div>
+        <button onClick={onCancel} className="p-3 hover:bg-white/10 rounded-full transition-colors text-gray-400 hover:text-white">
+          <X className="w-6 h-6" />
+        </button>
+      </header>
+
+      <main className="flex-1 flex flex-col items-center p-4 sm:p-10 gap-6 overflow-y-auto no-scrollbar">
+        <div className="w-full max-w-2xl space-y-4">
+          <div className="relative w-40 aspect-square mx-auto bg-gray-950 rounded-[1.5rem] overflow-hidden border border-white/10">
+            <video ref={videoRef} src={videoUrl} playsInline muted preload="auto" className="w-full h-full object-cover" />
+          </div>
+
+          <canvas
+            ref={canvasRef}
+            onClick={handleCanvasClick}
+            className="w-full rounded-xl bg-gray-950/60 cursor-crosshair"
+            style={{ height: HEIGHT }}
+          />
+
+          <label className="flex items-center gap-3 text-[10px] font-black uppercase tracking-widest">
+            <span className="text-gray-500">Sensibilidad <span className="text-yellow-400 tabular-nums">{Math.round(sensitivity * 100)}%</span></span>
+            <input
+              type="range" min="0" max="1" step="0.05"
+              value={sensitivity}
+              onChange={(e) => handleSensitivityChange(parseFloat(e.target.value))}
+              className="flex-1 h-1.5 bg-gray-700 rounded-full appearance-none cursor-pointer accent-yellow-400"
+            />
+          </label>
+
+          <p className="text-[10px] font-black uppercase tracking-widest text-gray-500">
+            {slices.length} trozos • {targets.length} pads vacíos
+            {slices.length > targets.length && <span className="text-yellow-400"> • {slices.length - targets.length} sin pad</span>}
+          </p>
+
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+            {assigned.map((slice, index) => (
+              <button
+                key={`${slice.start}-${index}`}
+                onClick={() => audition(index)}
+                className={`flex items-center gap-2 px-3 py-2 rounded-xl border text-left transition-colors ${playingIndex === index ? 'bg-cyan-500/20 border-cyan-400' : 'bg-gray-900 border-gray-800 hover:border-gray-600'}`}
+              >
+                {playingIndex === index ? <Square className="w-3.5 h-3.5 text-cyan-400 fill-cyan-400" /> : <Play className="w-3.5 h-3.5 text-gray-400" />}
+                <span className="text-xs font-black text-white">{getPadLabel(targets[index])}</span>
+                <span className="ml-auto text-[10px] font-bold text-gray-500 tabular-nums">{slice.start.toFixed(2)}–{slice.end.toFixed(2)}s</span>
+              </button>
+            ))}
+          </div>
+          {slices.length === 0 && (
+            <p className="py-4 text-center text-[10px] font-black uppercase tracking-[0.3em] text-gray-600">Sin ataques: sube la sensibilidad o añade cortes a mano</p>
+          )}
+          {targets.length === 0 && (
+            <p className="py-4 text-center text-[10px] font-black uppercase tracking-[0.3em] text-red-400">No quedan pads vacíos</p>
+          )}
+
+          <div className="flex gap-4">
+            <button
+              onClick={onCancel}
+              className="flex-1 py-5 bg-gray-800/40 text-gray-500 font-black text-[10px] rounded-2xl uppercase tracking-[0.2em] hover:text-white border border-white/5 transition-colors"
+            >
+              Cancelar
+            </button>
+            <button
+              onClick={() => { stopAudition(); onConfirm(assigned); }}
+              disabled={assigned.length === 0}
+              className="flex-[2] py-5 bg-white text-black font-black text-[10px] rounded-2xl uppercase tracking-[0.2em] shadow-2xl hover:bg-pink-500 hover:text-white transition-all flex items-center justify-center gap-3 active:scale-95 disabled:opacity-30"
+            >
+              <Check className="w-5 h-5" /> Repartir en {assigned.length} pads
+            </button>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+};
@@ -0,0 +1,120 @@
+import React from 'react';
+import { X, HardDrive, RefreshCw, ShieldCheck, History, Loader2, Shrink } from 'lucide-react';
+import { ProjectUsage } from '../services/db';
+import { StorageEstimate, formatBytes } from '../services/storage';
+import { getPadLabel } from '../services/banks';
+
+interface StoragePanelProps {
+  estimate: StorageEstimate | null;
+  usage: ProjectUsage | null;
+  isLoading: boolean;
+  onRefresh: () => void;
+  onPersist: () => void;
+  onClearHistory: () => void;
+  onConsolidate: () => void;
+  onClose: () => void;
+}
+
+// Por encima de estos porcentajes de la cuota la barra avisa
+const WARN_RATIO = 0.8;
+const DANGER_RATIO = 0.95;
+
+export const StoragePanel: React.FC<StoragePanelProps> = ({
+  estimate,
+  usage,
+  isLoading,
+  onRefresh,
+  onPersist,
+  onClearHistory,
+  onConsolidate,
+  onClose
+}) => {
+  const ratio = estimate && estimate.quota > 0 ? estimate.usage / estimate.quota : 0;
+  const barColor = ratio >= DANGER_RATIO ? 'bg-red-500' : ratio >= WARN_RATIO ? 'bg-yellow-400' : 'bg-pink-500';
+  const pads = [...(usage?.pads || [])].sort((a, b) => b.bytes - a.bytes);
+  const padsTotal = pads.reduce((sum, pad) => sum + pad.bytes, 0);
+  const largest = pads[0]?.bytes || 1;
+
+  return (
+    <div className="fixed inset-x-0 bottom-0 z-[90] max-h-[70vh] bg-gray-950/95 backdrop-blur-2xl border-t border-gray-800 shadow-2xl flex flex-col animate-in slide-in-from-bottom-6 duration-300">
+      <header className="flex-none p-4 flex items-center justify-between gap-3 border-b border-gray-800">
+        <div className="flex items-center gap-2">
+          <HardDrive className="w-4 h-4 text-pink-500" />
+          <h2 className="text-sm font-black uppercase tracking-tight">Almacenamiento</h2>
+        </div>
+        <div className="flex items-center gap-2">
+          <button onClick={onRefresh} disabled={isLoading} className="p-2 bg-gray-800 border border-gray-700 rounded-lg text-gray-400 hover:text-white transition-colors disabled:opacity-50">
+            {isLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+          </button>
+          <button onClick={onClose} className="p-2 hover:bg-gray-800 rounded-full text-gray-500 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+      </header>
+
+      <div className="flex-1 overflow-auto no-scrollbar p-4 space-y-6">
+        {estimate ? (
+          <div className="space-y-2">
+            <div className="h-3 bg-gray-800 rounded-full overflow-hidden">
+              <div className={`h-full ${barColor} transition-all`} style={{ width: `${Math.min(100, ratio * 100)}%` }} />
+            </div>
+            <div className="flex items-center justify-between text-[10px] font-black uppercase tracking-widest">
+              <span className="text-gray-400 tabular-nums">{formatBytes(estimate.usage)} de {formatBytes(estimate.quota)}</span>
+              <span className={`tabular-nums ${ratio >= WARN_RATIO ? 'text-yellow-400' : 'text-gray-500'}`}>{formatBytes(Math.max(0, estimate.quota - estimate.usage))} libres</span>
+            </div>
+            {ratio >= WARN_RATIO && (
+              <p className="text-[10px] font-bold text-yellow-400">Queda poco espacio: las próximas grabaciones pueden no guardarse. Vacía el historial, borra pads que no uses o exporta y elimina proyectos antiguos desde la Biblioteca.</p>
+            )}
+          </div>
+        ) : (
+          <p className="text-[10px] font-black uppercase tracking-widest text-gray-600">Este navegador no informa del espacio disponible</p>
+        )}
+
+        <div className="flex items-center justify-between gap-3 p-3 bg-gray-900 border border-gray-800 rounded-xl">
+          <div>
+            <p className="text-xs font-black uppercase tracking-widest text-gray-300">Datos persistentes</p>
+            <p className="text-[10px] text-gray-500">Sin esto, el navegador puede borrar tus proyectos si se queda sin espacio.</p>
+          </div>
+          {estimate?.persisted ? (
+            <span className="flex-none flex items-center gap-1 text-[10px] font-black uppercase tracking-widest text-green-400"><ShieldCheck className="w-4 h-4" /> Activo</span>
+          ) : (
+            <button onClick={onPersist} className="flex-none px-3 py-2 bg-white text-black rounded-lg text-[10px] font-black uppercase tracking-widest hover:bg-pink-500 hover:text-white transition-colors">Proteger</button>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between text-[10px] font-black uppercase tracking-widest text-gray-500">
+            <span>Pads del proyecto <span className="tabular-nums">{formatBytes(padsTotal)}</span></span>
+            <button onClick={onConsolidate} disabled={pads.length === 0} className="flex items-center gap-1.5 px-2.5 py-1.5 bg-gray-800 border border-gray-700 rounded-lg text-gray-300 hover:text-white transition-colors disabled:opacity-30">
+              <Shrink className="w-3.5 h-3.5" /> Consolidar
+            </button>
+          </div>
+          {pads.map(pad => (
+            <div key={pad.padId} className="flex items-center gap-3 text-[10px] font-black">
+              <span className="w-8 text-gray-500 tabular-nums">{getPadLabel(pad.padId)}</span>
+              <div className="flex-1 h-1.5 bg-gray-800 rounded-full overflow-hidden">
+                <div className="h-full bg-gray-500" style={{ width: `${(pad.bytes / largest) * 100}%` }} />
+              </div>
+              {pad.shared && <span className="text-[9px] uppercase tracking-widest text-cyan-400">compartido</span>}
+              <span className="w-16 text-right text-gray-400 tabular-nums">{formatBytes(Math.round(pad.bytes))}</span>
+            </div>
+          ))}
+          {usage && pads.length === 0 && (
+            <p className="py-2 text-center text-[10px] font-black uppercase tracking-[0.3em] text-gray-600">Sin clips</p>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between gap-3 p-3 bg-gray-900 border border-gray-800 rounded-xl">
+          <div className="flex items-center gap-2">
+            <History className="w-4 h-4 text-gray-500" />
+            <div>
+              <p className="text-xs font-black uppercase tracking-widest text-gray-300">Historial <span className="text-gray-500 tabular-nums">{formatBytes(usage?.history || 0)}</span></p>
+              <p className="text-[10px] text-gray-500">Copias de clips borrados o regrabados para poder deshacer.</p>
+            </div>
+          </div>
+          <button onClick={onClearHistory} disabled={!usage?.history} className="flex-none px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-[10px] font-black uppercase tracking-widest text-gray-300 hover:text-red-400 transition-colors disabled:opacity-30">Vaciar</button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { X, Play, Square, Circle, Trash2, ListMusic, Magnet, ChevronDown, ChevronUp } from 'lucide-react';
+import { Take } from '../types';
+import { QUANTIZE_OPTIONS } from '../services/takes';
+import { getPadLabel } from '../services/banks';
+
+interface TakesPanelProps {
+  takes: Take[];
+  isArmed: boolean;
+  playingId: string | null;
+  onToggleArm: () => void;
+  onPlay: (take: Take) => void;
+  onStop: () => void;
+  onQuantize: (take: Take, division: number) => void;
+  onRename: (take: Take, name: string) => void;
+  onDelete: (take: Take) => void;
+  onDeleteEvent: (take: Take, index: number) => void;
+  onClose: () => void;
+}
+
+export const TakesPanel: React.FC<TakesPanelProps> = ({
+  takes,
+  isArmed,
+  playingId,
+  onToggleArm,
+  onPlay,
+  onStop,
+  onQuantize,
+  onRename,
+  onDelete,
+  onDeleteEvent,
+  onClose
+}) => {
+  const [division, setDivision] = useState(16);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  return (
+    <div className="fixed inset-x-0 bottom-0 z-[90] max-h-[70vh] bg-gray-950/95 backdrop-blur-2xl border-t border-gray-800 shadow-2xl flex flex-col animate-in slide-in-from-bottom-6 duration-300">
+      <header className="flex-none p-4 flex flex-wrap items-center justify-between gap-3 border-b border-gray-800">
+        <div className="flex items-center gap-3">
+          <button onClick={onToggleArm} className={`h-11 px-4 flex items-center gap-2 rounded-full text-[10px] font-black uppercase tracking-widest transition-all active:scale-90 ${isArmed ? 'bg-red-600 text-white shadow-xl shadow-red-600/30 animate-pulse' : 'bg-white text-black'}`}>
+            <Circle className={`w-3.5 h-3.5 ${isArmed ? 'fill-white' : 'fill-red-600 text-red-600'}`} />
+            {isArmed ? 'Parar toma' : 'Armar'}
+          </button>
+          <div className="flex items-center gap-2">
+            <ListMusic className="w-4 h-4 text-pink-500" />
+            <h2 className="text-sm font-black uppercase tracking-tight">Tomas</h2>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-3 text-[10px] font-black uppercase tracking-widest text-gray-500">
+          <span className="flex items-center gap-1"><Magnet className="w-3.5 h-3.5" /> Rejilla</span>
+          <div className="flex gap-1">
+            {QUANTIZE_OPTIONS.map(n => (
+              <button key={n} onClick={() => setDivision(n)} className={`px-2 py-1.5 rounded-lg transition-colors ${division === n ? 'bg-pink-600 text-white' : 'bg-gray-800 text-gray-500 hover:text-white'}`}>
+                1/{n}
+              </button>
+            ))}
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-gray-800 rounded-full text-gray-500 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+      </header>
+
+      <div className="flex-1 overflow-auto no-scrollbar p-4 space-y-2">
+        {takes.length === 0 && (
+          <p className="py-8 text-center text-[10px] font-black uppercase tracking-[0.3em] text-gray-600">Arma la grabadora y toca los pads para crear una toma</p>
+        )}
+        {takes.map(take => {
+          const isPlaying = playingId === take.id;
+          const isExpanded = expandedId === take.id;
+          return (
+            <div key={take.id} className="bg-gray-900 border border-gray-800 rounded-2xl p-3 space-y-2">
+              <div className="flex items-center gap-2">
+                <button onClick={() => isPlaying ? onStop() : onPlay(take)} className={`w-9 h-9 flex-none flex items-center justify-center rounded-full transition-all active:scale-90 ${isPlaying ? 'bg-pink-600 text-white' : 'bg-gray-800 text-gray-300 hover:text-white'}`}>
+                  {isPlaying ? <Square className="w-3.5 h-3.5 fill-current" /> : <Play className="w-3.5 h-3.5 fill-current ml-0.5" />}
+                </button>
+                <input
+                  type="text"
+                  defaultValue={take.name}
+                  onBlur={(e) => { if (e.target.value.trim() && e.target.value !== take.name) onRename(take, e.target.value.trim()); }}
+                  className="flex-1 min-w-0 bg-transparent text-sm font-bold focus:outline-none focus:bg-gray-800 rounded-lg px-2 py-1"
+                />
+                <span className="text-[10px] font-black text-gray-500 tabular-nums whitespace-nowrap">{take.events.length} • {take.duration.toFixed(1)}s</span>
+                <button onClick={() => onQuantize(take, division)} title={`Cuantizar a 1/${division}`} className="p-2 bg-gray-800 rounded-lg text-gray-400 hover:text-pink-500 transition-colors">
+                  <Magnet className="w-4 h-4" />
+                </button>
+                <button onClick={() => setExpandedId(isExpanded ? null : take.id)} className="p-2 bg-gray-800 rounded-lg text-gray-400 hover:text-white transition-colors">
+                  {isExpanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                </button>
+                <button onClick={() => onDelete(take)} className="p-2 bg-gray-800 rounded-lg text-gray-400 hover:text-red-400 transition-colors">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+              {isExpanded && (
+                <div className="max-h-40 overflow-y-auto no-scrollbar divide-y divide-gray-800 text-[10px] font-bold tabular-nums">
+                  {take.events.map((event, index) => (
+                    <div key={index} className="flex items-center justify-between py-1.5 px-2 text-gray-400">
+                      <span className="w-16">{event.time.toFixed(3)}s</span>
+                      <span className="flex-1">PAD {getPadLabel(event.padId)}</span>
+                      <span className="w-12">VOL {event.volume.toFixed(1)}</span>
+                      <span className="w-12">{event.allowOverlap ? 'OVERLAP' : 'CORTE'}</span>
+                      <button onClick={() => onDeleteEvent(take, index)} className="p-1 text-gray-600 hover:text-red-400">
+                        <X className="w-3 h-3" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,193 @@
+import React, { useRef, useState } from 'react';
+import { X, Check, RotateCcw, FlipHorizontal2, FlipVertical2, Move } from 'lucide-react';
+import { PadTransform } from '../types';
+import { DEFAULT_TRANSFORM, normalizeTransform, toCssTransform } from '../services/transform';
+
+interface TransformEditorProps {
+  videoUrl: string;
+  posterUrl?: string | null;
+  startTime: number;
+  initialTransform: PadTransform;
+  onSave: (transform: PadTransform) => void;
+  onCancel: () => void;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+interface GestureStart {
+  transform: PadTransform;
+  points: Point[];
+}
+
+const distance = (a: Point, b: Point) => Math.hypot(b.x - a.x, b.y - a.y);
+const angle = (a: Point, b: Point) => (Math.atan2(b.y - a.y, b.x - a.x) * 180) / Math.PI;
+const midpoint = (a: Point, b: Point) => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
+
+export const TransformEditor: React.FC<TransformEditorProps> = ({
+  videoUrl,
+  posterUrl,
+  startTime,
+  initialTransform,
+  onSave,
+  onCancel
+}) => {
+  const frameRef = useRef<HTMLDivElement>(null);
+  const [transform, setTransform] = useState<PadTransform>({ ...DEFAULT_TRANSFORM, ...initialTransform });
+  const pointersRef = useRef<Map<number, Point>>(new Map());
+  const gestureRef = useRef<GestureStart | null>(null);
+  const transformRef = useRef(transform);
+  transformRef.current = transform;
+
+  // Cada vez que cambia el número de dedos se toma una nueva referencia del gesto
+  const resetGesture = () => {
+    gestureRef.current = {
+      transform: transformRef.current,
+      points: Array.from<Point>(pointersRef.current.values()),
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pointersRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    resetGesture();
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!pointersRef.current.has(e.pointerId) || !gestureRef.current || !frameRef.current) return;
+    pointersRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+
+    const size = frameRef.current.clientWidth || 1;
+    const start = gestureRef.current;
+    const points = Array.from<Point>(pointersRef.current.values());
+
+    if (points.length === 1 && start.points.length === 1) {
+      // Arrastrar: desplazamiento relativo al tamaño del pad
+      setTransform(normalizeTransform({
+        ...start.transform,
+        x: start.transform.x + (points[0].x - start.points[0].x) / size,
+        y: start.transform.y + (points[0].y - start.points[0].y) / size,
+      }));
+    } else if (points.length >= 2 && start.points.length >= 2) {
+      // Pellizcar para escalar, girar con dos dedos y desplazar con el punto medio
+      const [a0, b0] = start.points;
+      const [a, b] = points;
+      const m0 = midpoint(a0, b0);
+      const m = midpoint(a, b);
+      setTransform(normalizeTransform({
+        ...start.transform,
+        scale: start.transform.scale * (distance(a, b) / (distance(a0, b0) || 1)),
+        rotation: start.transform.rotation + angle(a, b) - angle(a0, b0),
+        x: start.transform.x + (m.x - m0.x) / size,
+        y: start.transform.y + (m.y - m0.y) / size,
+      }));
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    pointersRef.current.delete(e.pointerId);
+    resetGesture();
+  };
+
+  // Rueda del ratón para hacer zoom en escritorio
+  const handleWheel = (e: React.WheelEvent) => {
+    setTransform(prev => normalizeTransform({ ...prev, scale: prev.scale * Math.exp(-e.deltaY * 0.001) }));
+  };
+
+  return (
+    <div className="fixed inset-0 z-[120] bg-black/95 backdrop-blur-3xl flex flex-col animate-in fade-in duration-300">
+      <header className="p-6 flex justify-between items-center border-b border-white/5 bg-black/40">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-pink-500/20 rounded-xl border border-pink-500/30">
+            <Move className="w-5 h-5 text-pink-500" />
+          </div>
+          <div>
+            <h2 className="text-lg font-black uppercase tracking-tight text-white">Editor de Encuadre</h2>
+            <p className="text-[10px] text-gray-500 font-bold uppercase tracking-widest">Arrastra, pellizca y gira con dos dedos</p>
+          </div>
+        </div>
+        <button onClick={onCancel} className="p-3 hover:bg-white/10 rounded-full transition-colors text-gray-400 hover:text-white">
+          <X className="w-6 h-6" />
+        </button>
+      </header>
+
+      <main className="flex-1 flex flex-col items-center justify-center p-4 sm:p-10 gap-8 overflow-y-auto no-scrollbar">
+        <div
+          ref={frameRef}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          onWheel={handleWheel}
+          className="relative w-full max-w-md aspect-square bg-gray-950 rounded-[2.5rem] overflow-hidden shadow-2xl border border-white/10 ring-1 ring-white/5 touch-none cursor-move"
+        >
+          <video
+            src={videoUrl}
+            poster={posterUrl || undefined}
+            playsInline
+            muted
+            preload="auto"
+            onLoadedMetadata={(e) => { e.currentTarget.currentTime = startTime; }}
+            style={{ transform: toCssTransform(transform) }}
+            className="w-full h-full object-cover pointer-events-none"
+          />
+          <div className="absolute inset-0 pointer-events-none grid grid-cols-3 grid-rows-3">
+            {Array.from({ length: 9 }).map((_, i) => <div key={i} className="border border-white/10" />)}
+          </div>
+        </div>
+
+        <div className="w-full max-w-md space-y-6 bg-gray-900/40 p-8 rounded-[2rem] border border-white/5 backdrop-blur-md">
+          <div className="grid grid-cols-2 gap-4 text-[10px] font-black uppercase tracking-[0.2em]">
+            <label className="flex flex-col gap-2">
+              <span className="text-gray-500">Zoom <span className="text-pink-500">{transform.scale.toFixed(2)}x</span></span>
+              <input
+                type="range" min="0.5" max="4" step="0.01"
+                value={transform.scale}
+                onChange={(e) => setTransform(prev => normalizeTransform({ ...prev, scale: parseFloat(e.target.value) }))}
+                className="w-full h-1.5 bg-gray-700 rounded-full appearance-none cursor-pointer accent-pink-500"
+              />
+            </label>
+            <label className="flex flex-col gap-2">
+              <span className="text-gray-500">Giro <span className="text-pink-500">{Math.round(transform.rotation)}°</span></span>
+              <input
+                type="range" min="-180" max="180" step="1"
+                value={transform.rotation}
+                onChange={(e) => setTransform(prev => normalizeTransform({ ...prev, rotation: parseFloat(e.target.value) }))}
+                className="w-full h-1.5 bg-gray-700 rounded-full appearance-none cursor-pointer accent-pink-500"
+              />
+            </label>
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <button onClick={() => setTransform(prev => ({ ...prev, flipX: !prev.flipX }))} className={`py-3 rounded-xl flex items-center justify-center transition-all active:scale-95 ${transform.flipX ? 'bg-pink-600 text-white' : 'bg-gray-800 text-gray-400 hover:text-white'}`}>
+              <FlipHorizontal2 className="w-5 h-5" />
+            </button>
+            <button onClick={() => setTransform(prev => ({ ...prev, flipY: !prev.flipY }))} className={`py-3 rounded-xl flex items-center justify-center transition-all active:scale-95 ${transform.flipY ? 'bg-pink-600 text-white' : 'bg-gray-800 text-gray-400 hover:text-white'}`}>
+              <FlipVertical2 className="w-5 h-5" />
+            </button>
+            <button onClick={() => setTransform(DEFAULT_TRANSFORM)} className="py-3 rounded-xl flex items-center justify-center bg-gray-800 text-gray-400 hover:text-white transition-all active:scale-95">
+              <RotateCcw className="w-5 h-5" />
+            </button>
+          </div>
+
+          <div className="flex gap-4">
+            <button
+              onClick={onCancel}
+              className="flex-1 py-5 bg-gray-800/40 text-gray-500 font-black text-[10px] rounded-2xl uppercase tracking-[0.2em] hover:text-white border border-white/5 transition-colors"
+            >
+              Cancelar
+            </button>
+            <button
+              onClick={() => onSave(transform)}
+              className="flex-[2] py-5 bg-white text-black font-black text-[10px] rounded-2xl uppercase tracking-[0.2em] shadow-2xl hover:bg-pink-500 hover:text-white transition-all flex items-center justify-center gap-3 active:scale-95"
+            >
+              <Check className="w-5 h-5" /> Aplicar Cambios
+            </button>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+};
@@ -1,24 +1,33 @@
 
-import React, { useRef, useState, useEffect } from 'react';
-import { X, Check, Play, Pause, Scissors, AlertCircle, Loader2 } from 'lucide-react';
-import { getAudioContext } from '../services/audio';
+import React, { useRef, useState, useEffect, useCallback, useMemo } from 'react';
+import { X, Check, Play, Pause, Scissors, AlertCircle, Loader2, Magnet } from 'lucide-react';
+import { connectToMaster, decodeAudio, getAudioContext } from '../services/audio';
+import { PadEnvelope } from '../types';
+import { MAX_ENVELOPE_TIME, getEnvelopeEnd, getEnvelopePoints, normalizeEnvelope, scheduleEnvelope } from '../services/envelope';
+import { findZeroCrossing } from '../services/waveform';
+import { DEFAULT_SENSITIVITY, detectBufferOnsets } from '../services/onsets';
+import { Waveform } from './Waveform';
 
 interface VideoTrimmerProps {
   blob: Blob;
   initialUrl: string;
+  posterUrl?: string | null;
   initialStart: number;
   initialEnd: number;
   volume: number;
-  onSave: (start: number, end: number) => void;
+  initialEnvelope: PadEnvelope;
+  onSave: (start: number, end: number, envelope: PadEnvelope) => void;
   onCancel: () => void;
 }
 
 export const VideoTrimmer: React.FC<VideoTrimmerProps> = ({
   blob,
   initialUrl,
+  posterUrl,
   initialStart,
   initialEnd,
   volume,
+  initialEnvelope,
   onSave,
   onCancel
 }) => {
@@ -30,6 +39,50 @@ export const VideoTrimmer: React.FC<VideoTrimmerProps> = ({
   const [isReady, setIsReady] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [lastMoved, setLastMoved] = useState<'start' | 'end'>('end');
+  const [envelope, setEnvelope] = useState<PadEnvelope>(normalizeEnvelope(initialEnvelope));
+
+  const [audioBuffer, setAudioBuffer] = useState<AudioBuffer | null>(null);
+  const [sensitivity, setSensitivity] = useState(DEFAULT_SENSITIVITY);
+  const [snapToZero, setSnapToZero] = useState(true);
+  // Escucha con el AudioContext: fuente activa e instante (del contexto) en que empezó
+  const auditionRef = useRef<{ source: AudioBufferSourceNode; startedAt: number; offset: number } | null>(null);
+
+  const updateEnvelope = (patch: Partial<PadEnvelope>) => setEnvelope(prev => normalizeEnvelope({ ...prev, ...patch }));
+
+  // Sin pista de audio decodificable el recortador vuelve a los deslizadores sobre el vídeo
+  useEffect(() => {
+    let cancelled = false;
+    decodeAudio(blob)
+      .then(buffer => {
+        if (cancelled) return;
+        setAudioBuffer(buffer);
+      })
+      .catch(err => console.warn("Trimmer: sin forma de onda", err));
+    return () => { cancelled = true; };
+  }, [blob]);
+
+  const transients = useMemo(
+    () => audioBuffer ? detectBufferOnsets(audioBuffer, { sensitivity }) : [],
+    [audioBuffer, sensitivity]
+  );
+
+  const stopAudition = useCallback(() => {
+    const audition = auditionRef.current;
+    auditionRef.current = null;
+    if (audition) {
+      audition.source.onended = null;
+      try { audition.source.stop(); } catch (e) {}
+    }
+    videoRef.current?.pause();
+    setIsPlaying(false);
+  }, []);
+
+  useEffect(() => stopAudition, [stopAudition]);
+
+  const getPlayhead = useCallback(() => {
+    const audition = auditionRef.current;
+    return audition ? audition.offset + getAudioContext().currentTime - audition.startedAt : null;
+  }, []);
 
   const handleLoadedMetadata = (e: React.SyntheticEvent<HTMLVideoElement>) => {
     const video = e.currentTarget;
@@ -74,13 +127,52 @@ export const VideoTrimmer: React.FC<VideoTrimmerProps> = ({
 
   const handleTimeUpdate = (e: React.SyntheticEvent<HTMLVideoElement>) => {
     const video = e.currentTarget;
+    if (audioBuffer) {
+      // La escucha la marca el audio; el vídeo solo acompaña hasta el final del recorte
+      if (video.currentTime >= endTime) video.pause();
+      return;
+    }
     if (video.currentTime >= endTime) {
       video.currentTime = startTime;
       if (!isPlaying) video.pause();
     }
   };
 
+  // Escucha con precisión de muestra: la misma envolvente y volumen que el pad
+  const auditionBuffer = async () => {
+    if (!audioBuffer) return;
+    if (auditionRef.current) {
+      stopAudition();
+      return;
+    }
+    const ctx = getAudioContext();
+    if (ctx.state === 'suspended') await ctx.resume();
+
+    const points = getEnvelopePoints(envelope, endTime - startTime);
+    const source = ctx.createBufferSource();
+    const gainNode = ctx.createGain();
+    source.buffer = audioBuffer;
+    scheduleEnvelope(gainNode.gain, points, ctx.currentTime, Math.max(0, volume / 10));
+    source.connect(gainNode);
+    connectToMaster(gainNode);
+    source.onended = stopAudition;
+    source.start(ctx.currentTime, startTime, getEnvelopeEnd(points));
+    auditionRef.current = { source, startedAt: ctx.currentTime, offset: startTime };
+
+    const video = videoRef.current;
+    if (video) {
+      video.muted = true;
+      video.currentTime = startTime;
+      video.play().catch(() => {});
+    }
+    setIsPlaying(true);
+  };
+
   const togglePlay = async () => {
+    if (audioBuffer) {
+      await auditionBuffer();
+      return;
+    }
     const video = videoRef.current;
     if (video) {
       if (isPlaying) {
@@ -116,6 +208,17 @@ export const VideoTrimmer: React.FC<VideoTrimmerProps> = ({
     }
   };
 
+  // Marcadores de la forma de onda, con ajuste opcional al cruce por cero más cercano
+  const handleMarkerChange = (marker: 'start' | 'end', time: number) => {
+    const t = snapToZero && audioBuffer ? findZeroCrossing(audioBuffer, time) : time;
+    if (auditionRef.current) stopAudition();
+    if (marker === 'start') {
+      handleStartChange(String(t));
+    } else {
+      handleEndChange(String(Math.min(t, duration || t)));
+    }
+  };
+
   return (
     <div className="fixed inset-0 z-[120] bg-black/95 backdrop-blur-3xl flex flex-col animate-in fade-in duration-300">
       <header className="p-6 flex justify-between items-center border-b border-white/5 bg-black/40">
@@ -146,13 +249,15 @@ export const VideoTrimmer: React.FC<VideoTrimmerProps> = ({
               <video 
                 ref={videoRef}
                 src={initialUrl}
+                poster={posterUrl || undefined}
                 playsInline
                 preload="auto"
                 onLoadedMetadata={handleLoadedMetadata}
                 onError={handleVideoError}
                 onTimeUpdate={handleTimeUpdate}
-                onPlay={() => setIsPlaying(true)}
-                onPause={() => setIsPlaying(false)}
+                muted={!!audioBuffer}
+                onPlay={() => { if (!audioBuffer) setIsPlaying(true); }}
+                onPause={() => { if (!audioBuffer) setIsPlaying(false); }}
                 className={`w-full h-full object-cover transition-opacity duration-500 ${isReady ? 'opacity-100' : 'opacity-0'}`}
               />
               {!isReady && (
@@ -181,14 +286,57 @@ export const VideoTrimmer: React.FC<VideoTrimmerProps> = ({
               <div className="flex justify-between text-[10px] font-black uppercase tracking-[0.2em]">
                 <div className="flex flex-col gap-1">
                   <span className="text-gray-500">PUNTO DE INICIO</span>
-                  <span className="text-pink-500 text-base">{startTime.toFixed(2)}s</span>
+                  <span className="text-pink-500 text-base tabular-nums">{startTime.toFixed(3)}s</span>
                 </div>
                 <div className="flex flex-col gap-1 text-right">
                   <span className="text-gray-500">PUNTO FINAL</span>
-                  <span className="text-white text-base">{endTime.toFixed(2)}s</span>
+                  <span className="text-white text-base tabular-nums">{endTime.toFixed(3)}s</span>
                 </div>
               </div>
-              
+
+              {audioBuffer ? (
+                <div className="space-y-3">
+                  <Waveform
+                    buffer={audioBuffer}
+                    startTime={startTime}
+                    endTime={endTime}
+                    envelope={envelope}
+                    transients={transients}
+                    getPlayhead={getPlayhead}
+                    onMarkerChange={handleMarkerChange}
+                  />
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={() => setSnapToZero(prev => !prev)}
+                      className={`flex-none flex items-center gap-1.5 px-3 py-2 rounded-lg text-[10px] font-black uppercase tracking-widest transition-colors ${snapToZero ? 'bg-pink-600 text-white' : 'bg-gray-800 text-gray-400 hover:text-white'}`}
+                    >
+                      <Magnet className="w-3.5 h-3.5" /> Cruce por cero
+                    </button>
+                    <div className="flex-1 flex gap-1.5 overflow-x-auto no-scrollbar">
+                      {transients.length === 0 && <span className="text-[10px] font-black uppercase tracking-widest text-gray-600">Sin transitorios</span>}
+                      {transients.map(({ time, confidence }) => (
+                        <button
+                          key={time}
+                          onClick={() => handleMarkerChange('start', time)}
+                          style={{ opacity: 0.4 + confidence * 0.6 }}
+                          className={`flex-none px-2.5 py-2 rounded-lg text-[10px] font-black tabular-nums transition-colors ${Math.abs(time - startTime) < 0.01 ? 'bg-yellow-400 text-black' : 'bg-gray-800 text-yellow-400 hover:bg-gray-700'}`}
+                        >
+                          {time.toFixed(3)}s
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  <label className="flex items-center gap-3 text-[10px] font-black uppercase tracking-widest">
+                    <span className="text-gray-500">Sensibilidad <span className="text-yellow-400 tabular-nums">{Math.round(sensitivity * 100)}%</span></span>
+                    <input
+                      type="range" min="0" max="1" step="0.05"
+                      value={sensitivity}
+                      onChange={(e) => setSensitivity(parseFloat(e.target.value))}
+                      className="flex-1 h-1.5 bg-gray-700 rounded-full appearance-none cursor-pointer accent-yellow-400"
+                    />
+                  </label>
+                </div>
+              ) : (
               <div className="relative h-20 flex items-center px-2">
                 <div className="absolute inset-x-2 h-1.5 bg-gray-800 rounded-full" />
                 <div 
@@ -233,6 +381,29 @@ export const VideoTrimmer: React.FC<VideoTrimmerProps> = ({
                     ${lastMoved === 'end' ? 'z-30' : 'z-20'}`}
                 />
               </div>
+              )}
+            </div>
+
+            <div className="space-y-4">
+              <div className="grid grid-cols-3 gap-4 text-[10px] font-black uppercase tracking-[0.2em]">
+                {([['attack', 'Ataque'], ['hold', 'Hold'], ['release', 'Release']] as const).map(([key, label]) => (
+                  <label key={key} className="flex flex-col gap-2">
+                    <span className="text-gray-500">{label} <span className="text-pink-500 tabular-nums">{key === 'hold' && envelope.hold === 0 ? '∞' : `${Math.round(envelope[key] * 1000)}ms`}</span></span>
+                    <input
+                      type="range" min="0" max={key === 'hold' ? Math.max(0.01, endTime - startTime) : MAX_ENVELOPE_TIME} step="0.005"
+                      value={envelope[key]}
+                      onChange={(e) => updateEnvelope({ [key]: parseFloat(e.target.value) })}
+                      className="w-full h-1.5 bg-gray-700 rounded-full appearance-none cursor-pointer accent-pink-500"
+                    />
+                  </label>
+                ))}
+              </div>
+              <button
+                onClick={() => updateEnvelope({ autoFade: !envelope.autoFade })}
+                className={`w-full py-3 rounded-xl text-[10px] font-black uppercase tracking-widest transition-colors ${envelope.autoFade ? 'bg-pink-600 text-white' : 'bg-gray-800 text-gray-400 hover:text-white'}`}
+              >
+                Micro-fundido automático {envelope.autoFade ? 'activado' : 'desactivado'}
+              </button>
             </div>
 
             <div className="flex gap-4">
@@ -243,7 +414,7 @@ export const VideoTrimmer: React.FC<VideoTrimmerProps> = ({
                 Cancelar
               </button>
               <button 
-                onClick={() => onSave(startTime, endTime)}
+                onClick={() => onSave(startTime, endTime, envelope)}
                 className="flex-[2] py-5 bg-white text-black font-black text-[10px] rounded-2xl uppercase tracking-[0.2em] shadow-2xl hover:bg-pink-500 hover:text-white transition-all flex items-center justify-center gap-3 active:scale-95"
               >
                 <Check className="w-5 h-5" /> Aplicar Cambios
@@ -0,0 +1,204 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ZoomIn, ZoomOut } from 'lucide-react';
+import { PadEnvelope } from '../types';
+import { computePeaks } from '../services/waveform';
+import { getEnvelopePoints } from '../services/envelope';
+import { Onset } from '../services/onsets';
+
+type Marker = 'start' | 'end';
+
+interface WaveformProps {
+  buffer: AudioBuffer;
+  startTime: number;
+  endTime: number;
+  envelope: PadEnvelope;
+  transients: Onset[];
+  getPlayhead?: () => number | null;
+  onMarkerChange: (marker: Marker, time: number) => void;
+}
+
+const HEIGHT = 120;
+const MARKER_HIT = 12;   // Píxeles de tolerancia para agarrar un marcador
+const SNAP_DISTANCE = 8; // Píxeles a los que un marcador se pega a un transitorio
+const MIN_SPAN = 0.02;
+
+// Forma de onda con zoom y desplazamiento, marcadores de recorte arrastrables,
+// transitorios detectados y la envolvente del pad encima del tramo recortado
+export const Waveform: React.FC<WaveformProps> = ({
+  buffer,
+  startTime,
+  endTime,
+  envelope,
+  transients,
+  getPlayhead,
+  onMarkerChange
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const playheadRef = useRef<HTMLDivElement>(null);
+  const [width, setWidth] = useState(0);
+  const [view, setView] = useState({ start: 0, span: buffer.duration });
+  const dragRef = useRef<{ marker: Marker | null; x: number; viewStart: number } | null>(null);
+
+  const clampView = (start: number, span: number) => {
+    const nextSpan = Math.max(MIN_SPAN, Math.min(buffer.duration, span));
+    return { start: Math.max(0, Math.min(buffer.duration - nextSpan, start)), span: nextSpan };
+  };
+
+  const toX = (time: number) => ((time - view.start) / view.span) * width;
+  const toTime = (x: number) => view.start + (x / (width || 1)) * view.span;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const observer = new ResizeObserver(() => setWidth(canvas.clientWidth));
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, []);
+
+  // Los picos solo se recalculan al cambiar la vista, no al mover marcadores
+  const peaks = useMemo(
+    () => width > 0 ? computePeaks(buffer, view.start, view.start + view.span, Math.floor(width)) : [],
+    [buffer, view, width]
+  );
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || width === 0) return;
+
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = width * ratio;
+    canvas.height = HEIGHT * ratio;
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+    ctx.clearRect(0, 0, width, HEIGHT);
+    const mid = HEIGHT / 2;
+    const startX = toX(startTime);
+    const endX = toX(endTime);
+
+    peaks.forEach(([min, max], x) => {
+      ctx.fillStyle = x >= startX && x <= endX ? 'rgba(244, 114, 182, 0.8)' : 'rgba(75, 85, 99, 0.6)';
+      ctx.fillRect(x, mid - max * mid, 1, Math.max(1, (max - min) * mid));
+    });
+
+    ctx.fillStyle = '#facc15';
+    // La altura de cada marca indica la confianza del ataque
+    transients.forEach(({ time, confidence }) => {
+      const x = toX(time);
+      if (x >= 0 && x <= width) ctx.fillRect(x - 0.5, 0, 1, 4 + confidence * 12);
+    });
+
+    const points = getEnvelopePoints(envelope, endTime - startTime);
+    ctx.beginPath();
+    points.forEach(({ time, gain }, i) => {
+      const x = toX(startTime + time);
+      const y = HEIGHT - gain * (HEIGHT - 4) - 2;
+      if (i === 0) ctx.moveTo(x, y); else ctx.lineTo(x, y);
+    });
+    ctx.lineWidth = 2;
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.8)';
+    ctx.stroke();
+
+    ([[startX, '#ec4899'], [endX, '#ffffff']] as const).forEach(([x, color]) => {
+      ctx.fillStyle = color;
+      ctx.fillRect(x - 1, 0, 2, HEIGHT);
+      ctx.fillRect(x - 5, HEIGHT - 12, 10, 12);
+    });
+  }, [peaks, startTime, endTime, envelope, transients, width]);
+
+  // Cabezal de reproducción fuera de React, leído en cada frame
+  useEffect(() => {
+    if (!getPlayhead) return;
+    let frameId: number;
+    const draw = () => {
+      const playhead = getPlayhead();
+      const el = playheadRef.current;
+      if (el) {
+        const x = playhead === null ? -1 : toX(playhead);
+        el.style.display = x >= 0 && x <= width ? 'block' : 'none';
+        el.style.transform = `translateX(${x}px)`;
+      }
+      frameId = requestAnimationFrame(draw);
+    };
+    draw();
+    return () => cancelAnimationFrame(frameId);
+  }, [getPlayhead, view, width]);
+
+  const snapToTransient = (time: number) => {
+    const near = transients.find(t => Math.abs(toX(t.time) - toX(time)) <= SNAP_DISTANCE);
+    return near ? near.time : time;
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const x = e.clientX - e.currentTarget.getBoundingClientRect().left;
+    const distances: [Marker, number][] = [['start', Math.abs(x - toX(startTime))], ['end', Math.abs(x - toX(endTime))]];
+    const [closest, distance] = distances.sort((a, b) => a[1] - b[1])[0];
+    e.currentTarget.setPointerCapture(e.pointerId);
+    // Fuera de los marcadores, arrastrar desplaza la vista
+    dragRef.current = { marker: distance <= MARKER_HIT ? closest : null, x, viewStart: view.start };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const x = e.clientX - e.currentTarget.getBoundingClientRect().left;
+    if (drag.marker) {
+      onMarkerChange(drag.marker, snapToTransient(Math.max(0, Math.min(buffer.duration, toTime(x)))));
+    } else {
+      setView(clampView(drag.viewStart - ((x - drag.x) / (width || 1)) * view.span, view.span));
+    }
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  // Zoom centrado en un instante: la rueda lo centra en el ratón, los botones en el recorte
+  const zoom = (factor: number, anchor: number) => {
+    const span = view.span * factor;
+    setView(clampView(anchor - ((anchor - view.start) / view.span) * span, span));
+  };
+
+  const handleWheel = (e: React.WheelEvent<HTMLCanvasElement>) => {
+    if (Math.abs(e.deltaX) > Math.abs(e.deltaY)) {
+      setView(clampView(view.start + (e.deltaX / (width || 1)) * view.span, view.span));
+    } else {
+      const x = e.clientX - e.currentTarget.getBoundingClientRect().left;
+      zoom(Math.exp(e.deltaY * 0.002), toTime(x));
+    }
+  };
+
+  const isZoomed = view.span < buffer.duration;
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <canvas
+          ref={canvasRef}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          onWheel={handleWheel}
+          className="w-full rounded-xl bg-gray-950/60 touch-none cursor-ew-resize"
+          style={{ height: HEIGHT }}
+        />
+        <div ref={playheadRef} className="absolute top-0 left-0 w-0.5 bg-cyan-400 pointer-events-none" style={{ height: HEIGHT, display: 'none' }} />
+      </div>
+      <div className="flex items-center gap-2">
+        <button onClick={() => zoom(0.5, (startTime + endTime) / 2)} className="p-2 bg-gray-800 rounded-lg text-gray-400 hover:text-white transition-colors">
+          <ZoomIn className="w-4 h-4" />
+        </button>
+        <button onClick={() => zoom(2, (startTime + endTime) / 2)} disabled={!isZoomed} className="p-2 bg-gray-800 rounded-lg text-gray-400 hover:text-white transition-colors disabled:opacity-30">
+          <ZoomOut className="w-4 h-4" />
+        </button>
+        <input
+          type="range" min="0" max={Math.max(0, buffer.duration - view.span)} step="0.001"
+          value={view.start}
+          disabled={!isZoomed}
+          onChange={(e) => setView(clampView(parseFloat(e.target.value), view.span))}
+          className="flex-1 h-1.5 bg-gray-700 rounded-full appearance-none cursor-pointer accent-pink-500 disabled:opacity-30"
+        />
+      </div>
+    </div>
+  );
+};
@@ -1,6 +1,8 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import './index.css';
+import { registerServiceWorker } from './services/pwa';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -12,4 +14,6 @@ root.render(
   <React.StrictMode>
     <App />
   </React.StrictMode>
-);
\ No newline at end of file
+);
+
+registerServiceWorker();
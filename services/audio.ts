@@ -1,8 +1,48 @@
 
+import { MasterLevels, MixerSettings } from '../types';
+import { DEFAULT_MIXER, isPadAudible } from './mixer';
+import { DEFAULT_SENSITIVITY, ONSET_PRE_ROLL, detectBufferOnsets } from './onsets';
+
+const MIN_BEAT_CONFIDENCE = 0.3;
+
 // Singleton context and master nodes for the app
 let audioCtx: AudioContext | null = null;
+let masterInput: GainNode | null = null;
+let masterEq: { low: BiquadFilterNode; mid: BiquadFilterNode; high: BiquadFilterNode } | null = null;
 let masterGain: GainNode | null = null;
 let masterCompressor: DynamicsCompressorNode | null = null;
+let masterLimiter: DynamicsCompressorNode | null = null;
+let masterStreamDest: MediaStreamAudioDestinationNode | null = null;
+let meterAnalysers: [AnalyserNode, AnalyserNode] | null = null;
+const meterData = new Float32Array(2048);
+
+// Estado del mezclador del proyecto activo; se aplica al crear el contexto y en cada cambio
+let mixer: MixerSettings = DEFAULT_MIXER;
+// Un canal por pad entre su cadena y el bus maestro, para mute/solo
+const padChannels = new Map<number, GainNode>();
+
+const applyMaster = (ctx: AudioContext) => {
+  if (!masterEq || !masterCompressor || !masterLimiter || !masterGain) return;
+  const { gain, eq, compressor, limiter } = mixer.master;
+  const now = ctx.currentTime;
+  masterEq.low.gain.setTargetAtTime(eq.low, now, 0.02);
+  masterEq.mid.gain.setTargetAtTime(eq.mid, now, 0.02);
+  masterEq.high.gain.setTargetAtTime(eq.high, now, 0.02);
+  masterCompressor.threshold.setValueAtTime(compressor.threshold, now);
+  masterCompressor.knee.setValueAtTime(compressor.knee, now);
+  masterCompressor.ratio.setValueAtTime(compressor.ratio, now);
+  masterCompressor.attack.setValueAtTime(compressor.attack, now);
+  masterCompressor.release.setValueAtTime(compressor.release, now);
+  // Con ratio 1 el limitador queda transparente sin tener que reconectar la cadena
+  masterLimiter.ratio.setValueAtTime(limiter ? 20 : 1, now);
+  masterGain.gain.setTargetAtTime(gain, now, 0.02);
+};
+
+const applyPadChannels = (ctx: AudioContext) => {
+  padChannels.forEach((channel, padId) => {
+    channel.gain.setTargetAtTime(isPadAudible(mixer, padId) ? 1 : 0, ctx.currentTime, 0.01);
+  });
+};
 
 export const getAudioContext = () => {
   if (!audioCtx) {
@@ -11,34 +51,108 @@ export const getAudioContext = () => {
       sampleRate: 44100,
     });
     
-    // Cadena maestra: Nodo -> Compresor (Limitador) -> Ganancia -> Destino
+    // Cadena maestra: Nodo -> EQ -> Compresor -> Limitador -> Ganancia -> Destino
+    masterInput = audioCtx.createGain();
+    masterEq = {
+      low: audioCtx.createBiquadFilter(),
+      mid: audioCtx.createBiquadFilter(),
+      high: audioCtx.createBiquadFilter(),
+    };
+    masterEq.low.type = 'lowshelf';
+    masterEq.low.frequency.value = 250;
+    masterEq.mid.type = 'peaking';
+    masterEq.mid.frequency.value = 1000;
+    masterEq.mid.Q.value = 0.7;
+    masterEq.high.type = 'highshelf';
+    masterEq.high.frequency.value = 4000;
     masterCompressor = audioCtx.createDynamicsCompressor();
+    masterLimiter = audioCtx.createDynamicsCompressor();
+    masterLimiter.threshold.value = -1;
+    masterLimiter.knee.value = 0;
+    masterLimiter.attack.value = 0.001;
+    masterLimiter.release.value = 0.05;
     masterGain = audioCtx.createGain();
 
-    // Configuración del compresor para evitar distorsiones
-    masterCompressor.threshold.setValueAtTime(-12, audioCtx.currentTime);
-    masterCompressor.knee.setValueAtTime(30, audioCtx.currentTime);
-    masterCompressor.ratio.setValueAtTime(12, audioCtx.currentTime);
-    masterCompressor.attack.setValueAtTime(0.003, audioCtx.currentTime);
-    masterCompressor.release.setValueAtTime(0.25, audioCtx.currentTime);
+    masterInput.connect(masterEq.low);
+    masterEq.low.connect(masterEq.mid);
+    masterEq.mid.connect(masterEq.high);
+    masterEq.high.connect(masterCompressor);
+    masterCompressor.connect(masterLimiter);
+    masterLimiter.connect(masterGain);
+    masterGain.connect(audioCtx.destination);
 
-    masterGain.gain.setValueAtTime(1.0, audioCtx.currentTime);
+    // Medidor estéreo: un analizador por canal tras el fader maestro
+    const splitter = audioCtx.createChannelSplitter(2);
+    meterAnalysers = [audioCtx.createAnalyser(), audioCtx.createAnalyser()];
+    masterGain.connect(splitter);
+    meterAnalysers.forEach((analyser, channel) => {
+      analyser.fftSize = meterData.length;
+      splitter.connect(analyser, channel);
+    });
 
-    masterCompressor.connect(masterGain);
-    masterGain.connect(audioCtx.destination);
+    // Se restaura el mezclador del proyecto que ya estuviera cargado
+    applyMaster(audioCtx);
   }
   return audioCtx;
 };
 
 export const connectToMaster = (node: AudioNode) => {
   const ctx = getAudioContext();
-  if (masterCompressor) {
-    node.connect(masterCompressor);
+  if (masterInput) {
+    node.connect(masterInput);
   } else {
     node.connect(ctx.destination);
   }
 };
 
+// Igual que connectToMaster, pero a través del canal del pad para respetar mute/solo
+export const connectToPad = (node: AudioNode, padId: number) => {
+  const ctx = getAudioContext();
+  let channel = padChannels.get(padId);
+  if (!channel) {
+    channel = ctx.createGain();
+    channel.gain.value = isPadAudible(mixer, padId) ? 1 : 0;
+    connectToMaster(channel);
+    padChannels.set(padId, channel);
+  }
+  node.connect(channel);
+};
+
+export const setMixerSettings = (settings: MixerSettings) => {
+  mixer = settings;
+  if (!audioCtx) return;
+  applyMaster(audioCtx);
+  applyPadChannels(audioCtx);
+};
+
+export const getMasterLevels = (): MasterLevels => {
+  const levels: MasterLevels = { peak: [0, 0], rms: [0, 0] };
+  if (!meterAnalysers) return levels;
+  meterAnalysers.forEach((analyser, channel) => {
+    analyser.getFloatTimeDomainData(meterData);
+    let peak = 0;
+    let sum = 0;
+    for (let i = 0; i < meterData.length; i++) {
+      const value = Math.abs(meterData[i]);
+      if (value > peak) peak = value;
+      sum += value * value;
+    }
+    levels.peak[channel] = peak;
+    levels.rms[channel] = Math.sqrt(sum / meterData.length);
+  });
+  return levels;
+};
+
+// Salida del bus maestro como MediaStream, para grabar lo que suena (render de actuaciones)
+export const getMasterStream = () => {
+  const ctx = getAudioContext();
+  if (!masterStreamDest) {
+    masterStreamDest = ctx.createMediaStreamDestination();
+    masterGain?.connect(masterStreamDest);
+  }
+  return masterStreamDest.stream;
+};
+
 export const decodeAudio = async (blob: Blob): Promise<AudioBuffer> => {
   if (!blob || blob.size === 0) {
     throw new Error("Blob vacío");
@@ -55,20 +169,17 @@ export const decodeAudio = async (blob: Blob): Promise<AudioBuffer> => {
   }
 };
 
-export const findBeatOnset = async (blob: Blob): Promise<number> => {
+// Primer ataque fiable de la grabación; sin ninguno claro, el clip empieza al principio
+export const findBufferOnset = (buffer: AudioBuffer, sensitivity = DEFAULT_SENSITIVITY) => {
+  const onsets = detectBufferOnsets(buffer, { sensitivity });
+  const onset = onsets.find(o => o.confidence >= MIN_BEAT_CONFIDENCE) ?? onsets[0];
+  // Un margen corto antes del ataque; la microfundida evita el clic
+  return onset ? Math.max(0, onset.time - ONSET_PRE_ROLL) : 0;
+};
+
+export const findBeatOnset = async (blob: Blob, sensitivity = DEFAULT_SENSITIVITY): Promise<number> => {
   try {
-    const buffer = await decodeAudio(blob);
-    const rawData = buffer.getChannelData(0);
-    const sampleRate = buffer.sampleRate;
-    const threshold = 0.08; // Más sensible para no perder ataques suaves
-    
-    for (let i = 0; i < rawData.length; i++) {
-      if (Math.abs(rawData[i]) > threshold) {
-        // Retrocedemos 30ms para garantizar que capturamos el transitorio completo
-        return Math.max(0, (i / sampleRate) - 0.03);
-      }
-    }
-    return 0;
+    return findBufferOnset(await decodeAudio(blob), sensitivity);
   } catch (error) {
     return 0;
   }
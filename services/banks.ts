@@ -0,0 +1,14 @@
+// Bancos de pads: cada banco tiene su propia rejilla de 12 pads. En la app cada pad
+// se identifica con un id global (A1 = 1 ... A12 = 12, B1 = 13 ...), de modo que
+// patrones, tomas y disparos siguen funcionando con un único número.
+export const BANKS = ['A', 'B', 'C', 'D'];
+export const PADS_PER_BANK = 12;
+export const DEFAULT_BANK = BANKS[0];
+
+export const toPadId = (bank: string, pad: number) => Math.max(0, BANKS.indexOf(bank)) * PADS_PER_BANK + pad;
+
+export const getBankOf = (id: number) => BANKS[Math.floor((id - 1) / PADS_PER_BANK)] ?? DEFAULT_BANK;
+
+export const getPadNumber = (id: number) => ((id - 1) % PADS_PER_BANK) + 1;
+
+export const getPadLabel = (id: number) => `${getBankOf(id)}${getPadNumber(id)}`;
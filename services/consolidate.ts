@@ -0,0 +1,45 @@
+import { PadCell } from '../types';
+import { isAudioOnlyMime, probeMedia } from './media';
+import { encodeWav } from './wav';
+import { renderClipVideo } from './render';
+
+// Consolidar: volver a codificar solo el tramo recortado de un pad, con el encuadre aplicado,
+// para que el proyecto y sus ZIP no arrastren la grabación completa
+export interface ConsolidateOptions {
+  size: number;               // Lado en píxeles del vídeo cuadrado resultante
+  videoBitsPerSecond: number;
+}
+
+export const CONSOLIDATE_SIZES = [720, 480, 360];
+
+export const CONSOLIDATE_QUALITIES = [
+  { label: 'Alta', videoBitsPerSecond: 2500000 },
+  { label: 'Media', videoBitsPerSecond: 1200000 },
+  { label: 'Baja', videoBitsPerSecond: 600000 },
+];
+
+export const DEFAULT_CONSOLIDATE_OPTIONS: ConsolidateOptions = { size: 480, videoBitsPerSecond: 1200000 };
+
+export interface ConsolidatedClip {
+  blob: Blob;
+  duration: number;
+  bakedTransform: boolean;   // El encuadre ya va en la imagen y el pad vuelve al encuadre por defecto
+}
+
+export const consolidateClip = async (blob: Blob, buffer: AudioBuffer, cell: PadCell, options: ConsolidateOptions): Promise<ConsolidatedClip> => {
+  const start = Math.max(0, cell.startTime);
+  const end = Math.min(cell.endTime || buffer.duration, buffer.duration);
+  if (end - start <= 0) throw new Error("El recorte del pad está vacío.");
+
+  // Sin imagen basta con el audio del tramo
+  const hasVideo = !isAudioOnlyMime(blob.type) && (await probeMedia(blob).catch(() => null))?.hasVideo;
+  if (!hasVideo) {
+    return { blob: encodeWav(buffer, start, end), duration: end - start, bakedTransform: false };
+  }
+  const video = await renderClipVideo(blob, buffer, start, end, {
+    size: options.size,
+    transform: cell.transform,
+    videoBitsPerSecond: options.videoBitsPerSecond,
+  });
+  return { blob: video, duration: end - start, bakedTransform: true };
+};
@@ -1,68 +1,273 @@
 
 import { openDB, DBSchema, IDBPDatabase } from 'idb';
+import { PadEnvelope, PadFx, PadPitch, PadPlayback, PadTransform, ProjectInfo, Take } from '../types';
+import { DEFAULT_TRANSFORM } from './transform';
+import { DEFAULT_PLAYBACK } from './playback';
+import { DEFAULT_PITCH } from './pitch';
+import { DEFAULT_FX } from './fx';
+import { DEFAULT_ENVELOPE } from './envelope';
+import { DEFAULT_BANK, getBankOf, getPadNumber, toPadId } from './banks';
 
 interface VideoPadDB extends DBSchema {
+  projects: {
+    key: string;
+    value: ProjectInfo;
+  };
   clips: {
-    key: number;
+    key: [string, string, number];
     value: {
+      projectId: string;
       id: number;
-      data: ArrayBuffer;
+      bank: string;
+      pad: number;
+      data?: ArrayBuffer;   // Medio propio del clip
+      mediaId?: string;     // O referencia a un medio compartido (tomas troceadas)
       mimeType: string;
       startTime: number;
       endTime: number;
       volume?: number;
-      transform?: { scale: number; x: number; y: number; rotation: number };
+      transform?: PadTransform;
       allowOverlap?: boolean;
+      playback?: PadPlayback;
+      pitch?: PadPitch;
+      fx?: PadFx;
+      envelope?: PadEnvelope;
+    };
+  };
+  media: {
+    key: [string, string];
+    value: {
+      projectId: string;
+      id: string;
+      data: ArrayBuffer;
+      mimeType: string;
+    };
+  };
+  history: {
+    key: [string, number];
+    value: HistoryEntry & { projectId: string };
+  };
+  patterns: {
+    key: [string, number];
+    value: {
+      projectId: string;
+      padId: number;
+      steps: number[];
+    };
+  };
+  takes: {
+    key: [string, string];
+    value: Take & { projectId: string };
+  };
+  settings: {
+    key: [string, string];
+    value: {
+      projectId: string;
+      key: string;
+      value: unknown;
     };
   };
 }
 
 const DB_NAME = 'videopad-db';
 const STORE_NAME = 'clips';
+const PATTERN_STORE = 'patterns';
+const SETTINGS_STORE = 'settings';
+const TAKES_STORE = 'takes';
+const PROJECTS_STORE = 'projects';
+const MEDIA_STORE = 'media';
+const HISTORY_STORE = 'history';
+// Todo lo que pertenece a un proyecto, para copiarlo o borrarlo. Las migraciones no deben usar esta
+// lista: incluye almacenes (como el historial) que se crean en versiones posteriores
+const PROJECT_STORES = [STORE_NAME, MEDIA_STORE, PATTERN_STORE, SETTINGS_STORE, TAKES_STORE, HISTORY_STORE] as const;
+// Los almacenes que existían en la versión 5; la migración a proyectos solo puede tocar estos
+const V5_STORES = [STORE_NAME, PATTERN_STORE, SETTINGS_STORE, TAKES_STORE] as const;
+
+// Medio guardado una sola vez y referenciado por varios clips
+export interface SharedMedia {
+  mediaId: string;
+  mimeType: string;
+}
+
+type ClipRecord = VideoPadDB['clips']['value'];
+
+// Estado guardable de un pad. Sin data ni mediaId solo describe ajustes y conserva el medio actual
+export type ClipSnapshot = Partial<Omit<ClipRecord, 'projectId' | 'id' | 'bank' | 'pad'>>;
+
+export interface MediaSnapshot {
+  id: string;
+  data: ArrayBuffer;
+  mimeType: string;
+}
+
+// Una edición deshacible: estado de cada pad antes y después, y los medios compartidos que usan
+export interface HistoryEntry {
+  seq: number;
+  label: string;
+  createdAt: number;
+  undone: boolean;
+  coalesceKey?: string;
+  withMedia: boolean;
+  changes: { padId: number; before: ClipSnapshot | null; after: ClipSnapshot | null }[];
+  media: MediaSnapshot[];
+}
 
-// We increment the version to 2 to ensure the new schema (ArrayBuffer) is applied
+// Espacio de un pad; un medio compartido se reparte a partes iguales entre los pads que lo usan
+export interface PadUsage {
+  padId: number;
+  bytes: number;
+  shared: boolean;
+}
+
+export interface ProjectUsage {
+  pads: PadUsage[];
+  history: number;   // Copias de clips borrados o sustituidos que guarda el deshacer
+}
+
+export const DEFAULT_PROJECT_ID = 'default';
+// Settings that belong to the app rather than to a project (e.g. the last opened project)
+const APP_SCOPE = '__app__';
+
+// Every project-scoped read and write goes to the active project
+let activeProjectId = DEFAULT_PROJECT_ID;
+
+export const setActiveProject = (projectId: string) => {
+  activeProjectId = projectId;
+};
+
+export const getActiveProjectId = () => activeProjectId;
+
+// Clips are keyed by [project, bank, pad]; the app keeps using the global pad id from banks.ts
+const clipKey = (id: number, projectId = activeProjectId): [string, string, number] => [projectId, getBankOf(id), getPadNumber(id)];
+
+// All keys of a project sort between [projectId] and [projectId, []] (arrays sort after any other key)
+const projectRange = (projectId: string) => IDBKeyRange.bound([projectId], [projectId, []]);
+
+// Version 2 applied the ArrayBuffer schema, version 3 adds the sequencer stores,
+// version 4 the recorded trigger takes, version 5 keys clips by bank and pad,
+// version 6 scopes every store to a project, version 7 adds shared media,
+// version 8 the undo history
 export const initDB = async (): Promise<IDBPDatabase<VideoPadDB>> => {
-  return openDB<VideoPadDB>(DB_NAME, 2, {
-    upgrade(db, oldVersion) {
+  return openDB<VideoPadDB>(DB_NAME, 8, {
+    async upgrade(db, oldVersion, _newVersion, transaction) {
       if (oldVersion < 1) {
-        db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        db.createObjectStore(STORE_NAME, { keyPath: ['bank', 'pad'] });
       }
       // If upgrading from version 1 to 2, we might need migration, 
       // but for simplicity in this context we'll let the app re-save or clear if needed.
       // The error reported by user suggests v1 was already failing.
+      if (oldVersion < 3) {
+        db.createObjectStore(PATTERN_STORE, { keyPath: 'padId' });
+        db.createObjectStore(SETTINGS_STORE, { keyPath: 'key' });
+      }
+      if (oldVersion < 4) {
+        db.createObjectStore(TAKES_STORE, { keyPath: 'id' });
+      }
+      if (oldVersion >= 1 && oldVersion < 5) {
+        // Flat clips keyed by 'id' (1-12) move into bank A
+        const legacy = await transaction.objectStore(STORE_NAME).getAll();
+        db.deleteObjectStore(STORE_NAME);
+        const store = db.createObjectStore(STORE_NAME, { keyPath: ['bank', 'pad'] });
+        await Promise.all(legacy.map(record => store.put({ ...record, bank: DEFAULT_BANK, pad: record.id })));
+      }
+      if (oldVersion < 6) {
+        // Existing data becomes the default project
+        const keyPaths: Record<string, string[]> = {
+          [STORE_NAME]: ['projectId', 'bank', 'pad'],
+          [PATTERN_STORE]: ['projectId', 'padId'],
+          [SETTINGS_STORE]: ['projectId', 'key'],
+          [TAKES_STORE]: ['projectId', 'id'],
+        };
+        let hasData = false;
+        for (const name of V5_STORES) {
+          const legacy = await transaction.objectStore(name).getAll();
+          hasData = hasData || legacy.length > 0;
+          db.deleteObjectStore(name);
+          const store = db.createObjectStore(name, { keyPath: keyPaths[name] });
+          await Promise.all(legacy.map(record => store.put({ ...record, projectId: DEFAULT_PROJECT_ID })));
+        }
+        const projects = db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+        if (hasData) {
+          const now = Date.now();
+          await projects.put({ id: DEFAULT_PROJECT_ID, name: 'Mi Proyecto', createdAt: now, updatedAt: now });
+        }
+      }
+      if (oldVersion < 7) {
+        db.createObjectStore(MEDIA_STORE, { keyPath: ['projectId', 'id'] });
+      }
+      if (oldVersion < 8) {
+        db.createObjectStore(HISTORY_STORE, { keyPath: ['projectId', 'seq'] });
+      }
     },
   });
 };
 
+const createMediaId = () => `media_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+
+// Las escrituras aceptan un proyecto distinto del activo: la importación llena el proyecto nuevo
+// sin cambiar el que está en pantalla
+export const saveMedia = async (blob: Blob, projectId = activeProjectId): Promise<SharedMedia> => {
+  const db = await initDB();
+  const mediaId = createMediaId();
+  await db.put(MEDIA_STORE, { projectId, id: mediaId, data: await blob.arrayBuffer(), mimeType: blob.type });
+  return { mediaId, mimeType: blob.type };
+};
+
+// Borra un medio compartido cuando ya no lo usa ningún clip del proyecto
+const releaseMedia = async (mediaId: string, projectId = activeProjectId) => {
+  const db = await initDB();
+  const clips = await db.getAll(STORE_NAME, projectRange(projectId));
+  if (!clips.some(clip => clip.mediaId === mediaId)) {
+    await db.delete(MEDIA_STORE, [projectId, mediaId]);
+  }
+};
+
 export const saveClip = async (
   id: number, 
-  blob: Blob, 
+  source: Blob | SharedMedia, 
   startTime: number, 
   endTime: number, 
   volume: number = 5.0,
-  transform = { scale: 1, x: 0, y: 0, rotation: 0 },
-  allowOverlap: boolean = false
+  transform: PadTransform = DEFAULT_TRANSFORM,
+  allowOverlap: boolean = false,
+  playback: PadPlayback = DEFAULT_PLAYBACK,
+  pitch: PadPitch = DEFAULT_PITCH,
+  fx: PadFx = DEFAULT_FX,
+  envelope: PadEnvelope = DEFAULT_ENVELOPE,
+  projectId: string = activeProjectId
 ) => {
   const db = await initDB();
-  const arrayBuffer = await blob.arrayBuffer();
+  const previous = await db.get(STORE_NAME, clipKey(id, projectId));
+  const media = source instanceof Blob
+    ? { data: await source.arrayBuffer(), mimeType: source.type }
+    : { mediaId: source.mediaId, mimeType: source.mimeType };
   await db.put(STORE_NAME, { 
+    projectId,
     id, 
-    data: arrayBuffer, 
-    mimeType: blob.type,
+    bank: getBankOf(id),
+    pad: getPadNumber(id),
+    ...media,
     startTime, 
     endTime, 
     volume, 
     transform, 
-    allowOverlap 
+    allowOverlap,
+    playback,
+    pitch,
+    fx,
+    envelope
   });
+  if (previous?.mediaId) await releaseMedia(previous.mediaId, projectId);
 };
 
-export const updateClipTrim = async (id: number, startTime: number, endTime: number) => {
+// La envolvente se guarda junto al recorte: sus tiempos son relativos al tramo recortado
+export const updateClipTrim = async (id: number, startTime: number, endTime: number, envelope?: PadEnvelope) => {
   const db = await initDB();
-  const clip = await db.get(STORE_NAME, id);
+  const clip = await db.get(STORE_NAME, clipKey(id));
   if (clip) {
     clip.startTime = startTime;
     clip.endTime = endTime;
+    if (envelope) clip.envelope = envelope;
     await db.put(STORE_NAME, clip);
   } else {
     throw new Error(`Clip with id ${id} not found for trim update`);
@@ -71,29 +276,70 @@ export const updateClipTrim = async (id: number, startTime: number, endTime: num
 
 export const updateClipVolume = async (id: number, volume: number) => {
   const db = await initDB();
-  const clip = await db.get(STORE_NAME, id);
+  const clip = await db.get(STORE_NAME, clipKey(id));
   if (clip) {
     clip.volume = volume;
     await db.put(STORE_NAME, clip);
   }
 };
 
+export const updateClipTransform = async (id: number, transform: PadTransform) => {
+  const db = await initDB();
+  const clip = await db.get(STORE_NAME, clipKey(id));
+  if (clip) {
+    clip.transform = transform;
+    await db.put(STORE_NAME, clip);
+  }
+};
+
 export const updateClipOverlap = async (id: number, allowOverlap: boolean) => {
   const db = await initDB();
-  const clip = await db.get(STORE_NAME, id);
+  const clip = await db.get(STORE_NAME, clipKey(id));
   if (clip) {
     clip.allowOverlap = allowOverlap;
     await db.put(STORE_NAME, clip);
   }
 };
 
+export const updateClipPlayback = async (id: number, playback: PadPlayback) => {
+  const db = await initDB();
+  const clip = await db.get(STORE_NAME, clipKey(id));
+  if (clip) {
+    clip.playback = playback;
+    await db.put(STORE_NAME, clip);
+  }
+};
+
+export const updateClipPitch = async (id: number, pitch: PadPitch) => {
+  const db = await initDB();
+  const clip = await db.get(STORE_NAME, clipKey(id));
+  if (clip) {
+    clip.pitch = pitch;
+    await db.put(STORE_NAME, clip);
+  }
+};
+
+export const updateClipFx = async (id: number, fx: PadFx) => {
+  const db = await initDB();
+  const clip = await db.get(STORE_NAME, clipKey(id));
+  if (clip) {
+    clip.fx = fx;
+    await db.put(STORE_NAME, clip);
+  }
+};
+
 // Helper to convert DB record to App-friendly format (with Blob)
-const mapRecordToClip = (record: any) => {
+// Los registros de la versión 1 guardaban el Blob directamente
+type StoredClip = ClipRecord & { blob?: Blob };
+
+const mapRecordToClip = (record: StoredClip | undefined, media: Map<string, Blob>) => {
   if (!record) return null;
   // Handle migration if someone has old version 1 records (with .blob)
-  const blob = record.data 
-    ? new Blob([record.data], { type: record.mimeType || 'video/webm' })
-    : record.blob;
+  const blob = record.mediaId
+    ? media.get(record.mediaId)
+    : record.data 
+      ? new Blob([record.data], { type: record.mimeType || 'video/webm' })
+      : record.blob;
     
   return {
     ...record,
@@ -101,19 +347,294 @@ const mapRecordToClip = (record: any) => {
   };
 };
 
+// Un único Blob por medio compartido, así todos sus clips apuntan al mismo objeto
+const loadMedia = async (mediaIds: string[]) => {
+  const db = await initDB();
+  const media = new Map<string, Blob>();
+  for (const mediaId of new Set(mediaIds)) {
+    const record = await db.get(MEDIA_STORE, [activeProjectId, mediaId]);
+    if (record) media.set(mediaId, new Blob([record.data], { type: record.mimeType }));
+  }
+  return media;
+};
+
 export const getClip = async (id: number) => {
   const db = await initDB();
-  const record = await db.get(STORE_NAME, id);
-  return mapRecordToClip(record);
+  const record = await db.get(STORE_NAME, clipKey(id));
+  return mapRecordToClip(record, await loadMedia(record?.mediaId ? [record.mediaId] : []));
+};
+
+// Para recorrer el proyecto pad a pad sin cargar todos los clips a la vez
+export const getClipIds = async () => {
+  const db = await initDB();
+  const keys = await db.getAllKeys(STORE_NAME, projectRange(activeProjectId));
+  return keys.map(([, bank, pad]) => toPadId(bank, pad));
+};
+
+// El clip sin su medio compartido, que se lee aparte con getMediaBlob solo si hace falta
+export const getClipRecord = async (id: number) => {
+  const db = await initDB();
+  return mapRecordToClip(await db.get(STORE_NAME, clipKey(id)), new Map());
 };
 
+export const getMediaBlob = async (mediaId: string) => (await loadMedia([mediaId])).get(mediaId) || null;
+
 export const deleteClip = async (id: number) => {
   const db = await initDB();
-  await db.delete(STORE_NAME, id);
+  const record = await db.get(STORE_NAME, clipKey(id));
+  await db.delete(STORE_NAME, clipKey(id));
+  if (record?.mediaId) await releaseMedia(record.mediaId);
+};
+
+const toSlot = (record: ClipRecord, id: number): ClipRecord => ({ ...record, id, bank: getBankOf(id), pad: getPadNumber(id) });
+
+// Mover a un pad ocupado intercambia los dos clips; los medios no cambian de dueño.
+// Todo va en una transacción: si falla una escritura no queda ningún pad perdido ni repetido
+export const moveClip = async (from: number, to: number) => {
+  if (from === to) return;
+  const db = await initDB();
+  const tx = db.transaction(STORE_NAME, 'readwrite');
+  const move = async () => {
+    const source = await tx.store.get(clipKey(from));
+    if (!source) return;
+    const target = await tx.store.get(clipKey(to));
+    await tx.store.put(toSlot(source, to));
+    if (target) await tx.store.put(toSlot(target, from));
+    else await tx.store.delete(clipKey(from));
+  };
+  await Promise.all([move(), tx.done]);
+};
+
+// El duplicado comparte el medio del original y copia sus ajustes, que luego van por separado
+export const duplicateClip = async (from: number, to: number) => {
+  if (from === to) return;
+  const db = await initDB();
+  const tx = db.transaction([STORE_NAME, MEDIA_STORE], 'readwrite');
+  const clips = tx.objectStore(STORE_NAME);
+  const media = tx.objectStore(MEDIA_STORE);
+  const duplicate = async () => {
+    const source = await clips.get(clipKey(from));
+    if (!source) return;
+    if (!source.mediaId && source.data) {
+      // Un clip con medio propio lo pasa al almacén compartido
+      const mediaId = createMediaId();
+      await media.put({ projectId: activeProjectId, id: mediaId, data: source.data, mimeType: source.mimeType });
+      source.mediaId = mediaId;
+      delete source.data;
+      await clips.put(source);
+    }
+    const previous = await clips.get(clipKey(to));
+    await clips.put(toSlot(source, to));
+    // Como releaseMedia, pero dentro de la misma transacción
+    if (previous?.mediaId && previous.mediaId !== source.mediaId) {
+      const users = await clips.getAll(projectRange(activeProjectId));
+      if (!users.some(clip => clip.mediaId === previous.mediaId)) await media.delete([activeProjectId, previous.mediaId]);
+    }
+  };
+  await Promise.all([duplicate(), tx.done]);
 };
 
 export const getAllClips = async () => {
   const db = await initDB();
-  const records = await db.getAll(STORE_NAME);
-  return records.map(mapRecordToClip);
+  const records = await db.getAll(STORE_NAME, projectRange(activeProjectId));
+  const media = await loadMedia(records.flatMap(record => record.mediaId ? [record.mediaId] : []));
+  return records.map(record => mapRecordToClip(record, media));
+};
+
+// Sin los medios solo se copian los ajustes; con ellos, el clip completo para poder recuperarlo
+export const getClipSnapshot = async (id: number, withMedia: boolean): Promise<ClipSnapshot | null> => {
+  const db = await initDB();
+  const record = await db.get(STORE_NAME, clipKey(id));
+  if (!record) return null;
+  const { projectId, id: _id, bank, pad, data, mediaId, ...fields } = record;
+  return withMedia ? { ...fields, ...(mediaId ? { mediaId } : { data }) } : fields;
+};
+
+export const getMediaSnapshot = async (mediaId: string): Promise<MediaSnapshot | null> => {
+  const db = await initDB();
+  const record = await db.get(MEDIA_STORE, [activeProjectId, mediaId]);
+  return record ? { id: record.id, data: record.data, mimeType: record.mimeType } : null;
+};
+
+export const restoreMedia = async (media: MediaSnapshot) => {
+  const db = await initDB();
+  const existing = await db.getKey(MEDIA_STORE, [activeProjectId, media.id]);
+  if (!existing) await db.put(MEDIA_STORE, { ...media, projectId: activeProjectId });
+};
+
+export const restoreClipSnapshot = async (id: number, snapshot: ClipSnapshot | null) => {
+  const db = await initDB();
+  const current = await db.get(STORE_NAME, clipKey(id));
+  if (!snapshot) {
+    if (current) await deleteClip(id);
+    return;
+  }
+  const hasMedia = !!snapshot.data || !!snapshot.mediaId;
+  if (!current && !hasMedia) return;
+
+  const record = { ...current, ...snapshot, projectId: activeProjectId, id, bank: getBankOf(id), pad: getPadNumber(id) } as ClipRecord;
+  if (snapshot.data) delete record.mediaId;
+  if (snapshot.mediaId) delete record.data;
+  await db.put(STORE_NAME, record);
+  if (current?.mediaId && current.mediaId !== record.mediaId) await releaseMedia(current.mediaId);
+};
+
+export const getHistoryEntry = async (seq: number) => {
+  const db = await initDB();
+  const record = await db.get(HISTORY_STORE, [activeProjectId, seq]);
+  if (!record) return null;
+  const { projectId, ...entry } = record;
+  return entry as HistoryEntry;
+};
+
+export const saveHistoryEntry = async (entry: HistoryEntry) => {
+  const db = await initDB();
+  await db.put(HISTORY_STORE, { ...entry, projectId: activeProjectId });
+};
+
+export const deleteHistoryEntries = async (seqs: number[]) => {
+  const db = await initDB();
+  for (const seq of seqs) await db.delete(HISTORY_STORE, [activeProjectId, seq]);
+};
+
+const snapshotBytes = (snapshot: ClipSnapshot | null) => snapshot?.data?.byteLength || 0;
+
+export const getProjectUsage = async (): Promise<ProjectUsage> => {
+  const db = await initDB();
+  const clips = await db.getAll(STORE_NAME, projectRange(activeProjectId));
+  const mediaSizes = new Map<string, number>();
+  let mediaCursor = await db.transaction(MEDIA_STORE).store.openCursor(projectRange(activeProjectId));
+  while (mediaCursor) {
+    mediaSizes.set(mediaCursor.value.id, mediaCursor.value.data.byteLength);
+    mediaCursor = await mediaCursor.continue();
+  }
+  const users = new Map<string, number>();
+  clips.forEach(clip => clip.mediaId && users.set(clip.mediaId, (users.get(clip.mediaId) || 0) + 1));
+
+  const pads = clips.map(clip => clip.mediaId
+    ? { padId: clip.id, bytes: (mediaSizes.get(clip.mediaId) || 0) / (users.get(clip.mediaId) || 1), shared: true }
+    : { padId: clip.id, bytes: clip.data?.byteLength || 0, shared: false });
+
+  // Entrada a entrada: el historial puede guardar muchos medios y no hace falta tenerlos todos a la vez
+  let history = 0;
+  let historyCursor = await db.transaction(HISTORY_STORE).store.openCursor(projectRange(activeProjectId));
+  while (historyCursor) {
+    const entry = historyCursor.value;
+    history += entry.media.reduce((sum, media) => sum + media.data.byteLength, 0);
+    history += entry.changes.reduce((sum, change) => sum + snapshotBytes(change.before) + snapshotBytes(change.after), 0);
+    historyCursor = await historyCursor.continue();
+  }
+  return { pads, history };
+};
+
+export const savePattern = async (padId: number, steps: number[], projectId = activeProjectId) => {
+  const db = await initDB();
+  await db.put(PATTERN_STORE, { projectId, padId, steps });
+};
+
+export const getAllPatterns = async () => {
+  const db = await initDB();
+  const records = await db.getAll(PATTERN_STORE, projectRange(activeProjectId));
+  return records.map(({ padId, steps }) => ({ padId, steps }));
+};
+
+export const clearPatterns = async () => {
+  const db = await initDB();
+  await db.delete(PATTERN_STORE, projectRange(activeProjectId));
+};
+
+export const saveSetting = async <T>(key: string, value: T, projectId = activeProjectId) => {
+  const db = await initDB();
+  await db.put(SETTINGS_STORE, { projectId, key, value });
+};
+
+// Lo guardado puede venir de una versión anterior: quien lee dice qué forma espera y lo que no
+// encaja se trata como si no existiera
+export const getSetting = async <T>(key: string, isValid: (value: unknown) => value is T): Promise<T | undefined> => {
+  const db = await initDB();
+  const record = await db.get(SETTINGS_STORE, [activeProjectId, key]);
+  return isValid(record?.value) ? record.value : undefined;
+};
+
+export const saveTake = async (take: Take, projectId = activeProjectId) => {
+  const db = await initDB();
+  await db.put(TAKES_STORE, { ...take, projectId });
+};
+
+export const getAllTakes = async () => {
+  const db = await initDB();
+  const records = await db.getAll(TAKES_STORE, projectRange(activeProjectId));
+  return records
+    .map(({ projectId, ...take }): Take => take)
+    .sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const deleteTake = async (id: string) => {
+  const db = await initDB();
+  await db.delete(TAKES_STORE, [activeProjectId, id]);
+};
+
+export const clearTakes = async () => {
+  const db = await initDB();
+  await db.delete(TAKES_STORE, projectRange(activeProjectId));
+};
+
+export const getAllProjects = async () => {
+  const db = await initDB();
+  const projects = await db.getAll(PROJECTS_STORE);
+  return projects.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getProject = async (projectId: string) => {
+  const db = await initDB();
+  return db.get(PROJECTS_STORE, projectId);
+};
+
+export const createProject = async (name: string): Promise<ProjectInfo> => {
+  const db = await initDB();
+  const now = Date.now();
+  const project = { id: `project_${now}_${Math.random().toString(36).slice(2, 8)}`, name, createdAt: now, updatedAt: now };
+  await db.put(PROJECTS_STORE, project);
+  return project;
+};
+
+export const renameProject = async (projectId: string, name: string) => {
+  const db = await initDB();
+  const project = await db.get(PROJECTS_STORE, projectId);
+  if (project) {
+    project.name = name;
+    project.updatedAt = Date.now();
+    await db.put(PROJECTS_STORE, project);
+  }
+};
+
+export const duplicateProject = async (projectId: string, name: string): Promise<ProjectInfo> => {
+  const copy = await createProject(name);
+  const db = await initDB();
+  for (const storeName of PROJECT_STORES) {
+    const records = await db.getAll(storeName, projectRange(projectId));
+    for (const record of records) {
+      await db.put(storeName, { ...record, projectId: copy.id });
+    }
+  }
+  return copy;
+};
+
+export const deleteProject = async (projectId: string) => {
+  const db = await initDB();
+  for (const storeName of PROJECT_STORES) {
+    await db.delete(storeName, projectRange(projectId));
+  }
+  await db.delete(PROJECTS_STORE, projectId);
+};
+
+export const getLastProjectId = async () => {
+  const db = await initDB();
+  const record = await db.get(SETTINGS_STORE, [APP_SCOPE, 'lastProject']);
+  return typeof record?.value === 'string' ? record.value : undefined;
+};
+
+export const saveLastProjectId = async (projectId: string) => {
+  const db = await initDB();
+  await db.put(SETTINGS_STORE, { projectId: APP_SCOPE, key: 'lastProject', value: projectId });
 };
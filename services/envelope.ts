@@ -0,0 +1,61 @@
+import { PadEnvelope } from '../types';
+
+export const DEFAULT_ENVELOPE: PadEnvelope = { attack: 0, hold: 0, release: 0, autoFade: true };
+
+// Duración del micro-fundido automático: inaudible como ataque, suficiente para quitar el clic
+export const MICRO_FADE = 0.005;
+export const MAX_ENVELOPE_TIME = 2;
+
+export interface EnvelopePoint {
+  time: number;   // Segundos desde el inicio del recorte
+  gain: number;   // 0..1
+}
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+export const normalizeEnvelope = (envelope?: Partial<PadEnvelope> | null): PadEnvelope => ({
+  attack: clamp(envelope?.attack ?? 0, 0, MAX_ENVELOPE_TIME),
+  hold: clamp(envelope?.hold ?? 0, 0, MAX_ENVELOPE_TIME * 4),
+  release: clamp(envelope?.release ?? 0, 0, MAX_ENVELOPE_TIME),
+  autoFade: envelope?.autoFade ?? DEFAULT_ENVELOPE.autoFade,
+});
+
+// Fundido que se aplica al cortar el pad antes de tiempo (retrigger, choke)
+export const getCutFade = (envelope: PadEnvelope) => envelope.autoFade ? MICRO_FADE : 0;
+
+// Fundido al soltar en gate y bucle: el release del pad o, como mínimo, el micro-fundido
+export const getReleaseFade = (envelope: PadEnvelope) => Math.max(envelope.release, getCutFade(envelope));
+
+// Forma de la envolvente para un recorte de `duration` segundos. La misma lista de puntos
+// programa la ganancia del disparo y se dibuja sobre la forma de onda del recortador.
+export const getEnvelopePoints = (envelope: PadEnvelope, duration: number): EnvelopePoint[] => {
+  const minFade = getCutFade(envelope);
+  let attack = Math.max(envelope.attack, minFade);
+  let release = Math.max(envelope.release, minFade);
+  const end = envelope.hold > 0 ? Math.min(duration, attack + envelope.hold + release) : duration;
+
+  // En recortes muy cortos el ataque y el release se reparten el clip
+  if (attack + release > end && attack + release > 0) {
+    const scale = end / (attack + release);
+    attack *= scale;
+    release *= scale;
+  }
+
+  return [
+    { time: 0, gain: attack > 0 ? 0 : 1 },
+    { time: attack, gain: 1 },
+    { time: end - release, gain: 1 },
+    { time: end, gain: release > 0 ? 0 : 1 },
+  ];
+};
+
+export const getEnvelopeEnd = (points: EnvelopePoint[]) => points[points.length - 1].time;
+
+// Programa los puntos sobre un AudioParam; `rate` convierte tiempo del clip en tiempo real
+export const scheduleEnvelope = (param: AudioParam, points: EnvelopePoint[], startAt: number, peak: number, rate = 1) => {
+  param.cancelScheduledValues(startAt);
+  param.setValueAtTime(points[0].gain * peak, startAt);
+  for (let i = 1; i < points.length; i++) {
+    param.linearRampToValueAtTime(points[i].gain * peak, startAt + points[i].time / rate);
+  }
+};
@@ -0,0 +1,179 @@
+import { FilterType, PadFx, ReverbType } from '../types';
+
+export const DEFAULT_FX: PadFx = {
+  filter: { type: 'off', frequency: 8000, q: 1 },
+  delay: { time: 0.25, feedback: 0.35, mix: 0 },
+  reverb: { type: 'room', mix: 0 },
+  drive: 0,
+  pan: 0,
+};
+
+export const FILTER_TYPES: { type: FilterType; label: string }[] = [
+  { type: 'off', label: 'Off' },
+  { type: 'lowpass', label: 'LP' },
+  { type: 'highpass', label: 'HP' },
+  { type: 'bandpass', label: 'BP' },
+];
+
+export const REVERB_TYPES: { type: ReverbType; label: string; duration: number; decay: number }[] = [
+  { type: 'room', label: 'Sala', duration: 0.8, decay: 4 },
+  { type: 'plate', label: 'Placa', duration: 1.6, decay: 3 },
+  { type: 'hall', label: 'Auditorio', duration: 3, decay: 2 },
+];
+
+export const MIN_CUTOFF = 40;
+export const MAX_CUTOFF = 18000;
+export const MAX_DELAY_TIME = 1;
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+// Los clips guardados antes de la cadena de efectos no traen el campo o lo traen incompleto
+export const normalizeFx = (fx?: Partial<PadFx> | null): PadFx => ({
+  filter: {
+    type: fx?.filter?.type ?? DEFAULT_FX.filter.type,
+    frequency: clamp(fx?.filter?.frequency ?? DEFAULT_FX.filter.frequency, MIN_CUTOFF, MAX_CUTOFF),
+    q: clamp(fx?.filter?.q ?? DEFAULT_FX.filter.q, 0.1, 20),
+  },
+  delay: {
+    time: clamp(fx?.delay?.time ?? DEFAULT_FX.delay.time, 0.01, MAX_DELAY_TIME),
+    feedback: clamp(fx?.delay?.feedback ?? DEFAULT_FX.delay.feedback, 0, 0.9),
+    mix: clamp(fx?.delay?.mix ?? 0, 0, 1),
+  },
+  reverb: {
+    type: fx?.reverb?.type ?? DEFAULT_FX.reverb.type,
+    mix: clamp(fx?.reverb?.mix ?? 0, 0, 1),
+  },
+  drive: clamp(fx?.drive ?? 0, 0, 1),
+  pan: clamp(fx?.pan ?? 0, -1, 1),
+});
+
+export const hasFx = (fx: PadFx) =>
+  fx.filter.type !== 'off' || fx.delay.mix > 0 || fx.reverb.mix > 0 || fx.drive > 0 || fx.pan !== 0;
+
+// El corte del filtro se mueve en escala logarítmica: 0..1 → MIN_CUTOFF..MAX_CUTOFF
+export const cutoffToSlider = (frequency: number) => Math.log(frequency / MIN_CUTOFF) / Math.log(MAX_CUTOFF / MIN_CUTOFF);
+export const sliderToCutoff = (value: number) => MIN_CUTOFF * Math.pow(MAX_CUTOFF / MIN_CUTOFF, value);
+
+// Respuestas al impulso generadas: ruido estéreo con caída exponencial, una por contexto y tipo
+const impulses = new WeakMap<BaseAudioContext, Map<ReverbType, AudioBuffer>>();
+
+const getImpulse = (ctx: BaseAudioContext, type: ReverbType) => {
+  let byType = impulses.get(ctx);
+  if (!byType) {
+    byType = new Map();
+    impulses.set(ctx, byType);
+  }
+  const cached = byType.get(type);
+  if (cached) return cached;
+
+  const { duration, decay } = REVERB_TYPES.find(r => r.type === type) || REVERB_TYPES[0];
+  const length = Math.floor(ctx.sampleRate * duration);
+  const impulse = ctx.createBuffer(2, length, ctx.sampleRate);
+  for (let channel = 0; channel < 2; channel++) {
+    const data = impulse.getChannelData(channel);
+    for (let i = 0; i < length; i++) {
+      data[i] = (Math.random() * 2 - 1) * Math.pow(1 - i / length, decay);
+    }
+  }
+  byType.set(type, impulse);
+  return impulse;
+};
+
+// Curva de saturación suave; con drive 0 es casi lineal
+const driveCurves = new Map<number, Float32Array>();
+
+const getDriveCurve = (drive: number) => {
+  const key = Math.round(drive * 100);
+  const cached = driveCurves.get(key);
+  if (cached) return cached;
+
+  const k = key * 2;
+  const samples = 1024;
+  const curve = new Float32Array(samples);
+  for (let i = 0; i < samples; i++) {
+    const x = (i * 2) / samples - 1;
+    curve[i] = ((1 + k) * x) / (1 + k * Math.abs(x));
+  }
+  driveCurves.set(key, curve);
+  return curve;
+};
+
+// Cuánto sigue sonando la cadena cuando la fuente ya ha acabado: las repeticiones del delay hasta
+// bajar 60 dB y la cola de la reverb
+const getFxTail = (fx: PadFx) => {
+  let tail = 0;
+  if (fx.delay.mix > 0) {
+    const repeats = fx.delay.feedback > 0 ? Math.ceil(Math.log(0.001) / Math.log(fx.delay.feedback)) : 0;
+    tail = fx.delay.time * (repeats + 1);
+  }
+  if (fx.reverb.mix > 0) {
+    tail = Math.max(tail, (REVERB_TYPES.find(r => r.type === fx.reverb.type) || REVERB_TYPES[0]).duration);
+  }
+  return tail;
+};
+
+// Cadena por disparo: drive → filtro → panorama → seco + envíos de delay y reverb.
+// Devuelve la entrada y la salida para intercalarla entre la ganancia del pad y el máster, y
+// `dispose` para desconectarla cuando pasa `tail` tras acabar la fuente: el bucle de
+// realimentación del delay mantendría vivos los nodos de cada disparo.
+export const createFxChain = (ctx: BaseAudioContext, fx: PadFx) => {
+  const input = ctx.createGain();
+  const output = ctx.createGain();
+  const nodes: AudioNode[] = [input, output];
+  let node: AudioNode = input;
+
+  if (fx.drive > 0) {
+    const shaper = ctx.createWaveShaper();
+    shaper.curve = getDriveCurve(fx.drive);
+    shaper.oversample = '4x';
+    nodes.push(shaper);
+    node.connect(shaper);
+    node = shaper;
+  }
+
+  if (fx.filter.type !== 'off') {
+    const filter = ctx.createBiquadFilter();
+    filter.type = fx.filter.type;
+    filter.frequency.value = fx.filter.frequency;
+    filter.Q.value = fx.filter.q;
+    nodes.push(filter);
+    node.connect(filter);
+    node = filter;
+  }
+
+  const panner = ctx.createStereoPanner();
+  panner.pan.value = fx.pan;
+  nodes.push(panner);
+  node.connect(panner);
+  panner.connect(output);
+
+  if (fx.delay.mix > 0) {
+    const delay = ctx.createDelay(MAX_DELAY_TIME);
+    const feedback = ctx.createGain();
+    const wet = ctx.createGain();
+    delay.delayTime.value = fx.delay.time;
+    feedback.gain.value = fx.delay.feedback;
+    wet.gain.value = fx.delay.mix;
+    nodes.push(delay, feedback, wet);
+    panner.connect(delay);
+    delay.connect(feedback);
+    feedback.connect(delay);
+    delay.connect(wet);
+    wet.connect(output);
+  }
+
+  if (fx.reverb.mix > 0) {
+    const convolver = ctx.createConvolver();
+    const wet = ctx.createGain();
+    convolver.buffer = getImpulse(ctx, fx.reverb.type);
+    wet.gain.value = fx.reverb.mix;
+    nodes.push(convolver, wet);
+    panner.connect(convolver);
+    convolver.connect(wet);
+    wet.connect(output);
+  }
+
+  const dispose = () => nodes.forEach(n => n.disconnect());
+
+  return { input, output, tail: getFxTail(fx), dispose };
+};
@@ -0,0 +1,13 @@
+// Comprobaciones de forma para datos que llegan sin tipo: ajustes guardados, manifiestos y kits
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+export const isString = (value: unknown): value is string => typeof value === 'string';
+
+export const isNumberList = (value: unknown): value is number[] => Array.isArray(value) && value.every(isFiniteNumber);
+
+export const isListOf = <T>(value: unknown, isItem: (item: unknown) => item is T): value is T[] =>
+  Array.isArray(value) && value.every(isItem);
@@ -0,0 +1,169 @@
+import {
+  ClipSnapshot,
+  HistoryEntry,
+  MediaSnapshot,
+  deleteHistoryEntries,
+  getClipSnapshot,
+  getHistoryEntry,
+  getMediaSnapshot,
+  getSetting,
+  restoreClipSnapshot,
+  restoreMedia,
+  saveHistoryEntry,
+  saveSetting,
+} from './db';
+import { isFiniteNumber, isListOf, isRecord, isString } from './guards';
+
+export const MAX_HISTORY = 50;
+// Cambios seguidos del mismo control (un deslizador) se agrupan en un solo paso
+const COALESCE_WINDOW = 1500;
+// Índice ligero en los ajustes; las entradas, con sus medios, solo se leen al deshacer o rehacer
+const INDEX_KEY = 'historyIndex';
+
+type HistoryHeader = Pick<HistoryEntry, 'seq' | 'label' | 'createdAt' | 'undone' | 'coalesceKey'>;
+
+const isHistoryHeader = (value: unknown): value is HistoryHeader =>
+  isRecord(value) && isFiniteNumber(value.seq) && isString(value.label) && isFiniteNumber(value.createdAt)
+  && typeof value.undone === 'boolean' && (value.coalesceKey === undefined || isString(value.coalesceKey));
+
+const isHistoryIndex = (value: unknown): value is HistoryHeader[] => isListOf(value, isHistoryHeader);
+
+export interface HistoryState {
+  canUndo: boolean;
+  canRedo: boolean;
+  undoLabel: string | null;
+  redoLabel: string | null;
+}
+
+// Lo que la interfaz necesita para refrescar los pads tras deshacer o rehacer
+export interface HistoryStep {
+  label: string;
+  padIds: number[];
+  withMedia: boolean;
+}
+
+interface RecordOptions {
+  withMedia?: boolean;   // La edición cambia o borra el medio del pad
+  coalesce?: string;
+}
+
+const toHeader = ({ seq, label, createdAt, undone, coalesceKey }: HistoryEntry): HistoryHeader =>
+  ({ seq, label, createdAt, undone, coalesceKey });
+
+export const createHistory = (onChange: (state: HistoryState) => void) => {
+  let index: HistoryHeader[] = [];
+  let queue: Promise<unknown> = Promise.resolve();
+
+  // Todo pasa en orden: un deslizador rápido no mezcla capturas de estado
+  const enqueue = <T>(task: () => Promise<T>): Promise<T> => {
+    const run = queue.then(task, task);
+    queue = run.catch(() => {});
+    return run;
+  };
+
+  const notify = () => {
+    const lastDone = [...index].reverse().find(h => !h.undone);
+    const firstUndone = index.find(h => h.undone);
+    onChange({
+      canUndo: !!lastDone,
+      canRedo: !!firstUndone,
+      undoLabel: lastDone?.label ?? null,
+      redoLabel: firstUndone?.label ?? null,
+    });
+  };
+
+  const saveIndex = () => saveSetting(INDEX_KEY, index);
+
+  // Los medios compartidos se guardan una vez por entrada, aunque los usen varios pads
+  const collectMedia = async (snapshots: (ClipSnapshot | null)[], media: MediaSnapshot[]) => {
+    for (const snapshot of snapshots) {
+      const mediaId = snapshot?.mediaId;
+      if (!mediaId || media.some(m => m.id === mediaId)) continue;
+      const found = await getMediaSnapshot(mediaId);
+      if (found) media.push(found);
+    }
+  };
+
+  const load = () => enqueue(async () => {
+    index = (await getSetting(INDEX_KEY, isHistoryIndex)) || [];
+    notify();
+  });
+
+  const record = <T>(label: string, padIds: number[], mutate: () => Promise<T>, options: RecordOptions = {}) => enqueue(async () => {
+    const withMedia = !!options.withMedia;
+    const last = index[index.length - 1];
+    const canCoalesce = !!options.coalesce && !!last && !last.undone &&
+      last.coalesceKey === options.coalesce && Date.now() - last.createdAt < COALESCE_WINDOW;
+    const coalesced = canCoalesce ? await getHistoryEntry(last.seq) : null;
+
+    // El estado previo se captura antes de editar: borrar un pad puede liberar su medio
+    const media: MediaSnapshot[] = coalesced ? coalesced.media : [];
+    const before = coalesced ? [] : await Promise.all(padIds.map(id => getClipSnapshot(id, withMedia)));
+    await collectMedia(before, media);
+    const result = await mutate();
+    const after = await Promise.all(padIds.map(id => getClipSnapshot(id, withMedia)));
+    await collectMedia(after, media);
+
+    if (coalesced) {
+      coalesced.changes = coalesced.changes.map((change, i) => ({ ...change, after: after[i] }));
+      coalesced.createdAt = Date.now();
+      await saveHistoryEntry(coalesced);
+      last.createdAt = coalesced.createdAt;
+    } else {
+      // Una edición nueva descarta lo que se podía rehacer, y el historial no crece sin límite
+      const seq = (last?.seq ?? 0) + 1;
+      const discarded = index.filter(h => h.undone).map(h => h.seq);
+      const entry: HistoryEntry = {
+        seq, label, createdAt: Date.now(), undone: false, coalesceKey: options.coalesce, withMedia, media,
+        changes: padIds.map((padId, i) => ({ padId, before: before[i], after: after[i] })),
+      };
+      await saveHistoryEntry(entry);
+      index = [...index.filter(h => !h.undone), toHeader(entry)];
+      const overflow = index.slice(0, Math.max(0, index.length - MAX_HISTORY)).map(h => h.seq);
+      index = index.slice(-MAX_HISTORY);
+      await deleteHistoryEntries([...discarded, ...overflow]);
+    }
+    await saveIndex();
+    notify();
+    return result;
+  });
+
+  const apply = async (entry: HistoryEntry, useBefore: boolean) => {
+    const targets = entry.changes.map(c => useBefore ? c.before : c.after);
+    // Solo vuelven los medios que el estado de destino usa; el resto ya no tendría dueño
+    for (const media of entry.media) {
+      if (targets.some(t => t?.mediaId === media.id)) await restoreMedia(media);
+    }
+    for (const [i, change] of entry.changes.entries()) {
+      await restoreClipSnapshot(change.padId, targets[i]);
+    }
+  };
+
+  const step = (useBefore: boolean) => enqueue(async (): Promise<HistoryStep | null> => {
+    const header = useBefore ? [...index].reverse().find(h => !h.undone) : index.find(h => h.undone);
+    if (!header) return null;
+    const entry = await getHistoryEntry(header.seq);
+    if (entry) await apply(entry, useBefore);
+    if (entry) header.undone = useBefore;
+    else index = index.filter(h => h !== header);
+    await saveIndex();
+    notify();
+    return entry ? { label: entry.label, padIds: entry.changes.map(c => c.padId), withMedia: entry.withMedia } : null;
+  });
+
+  // Libera el espacio de las copias guardadas; las ediciones ya hechas se quedan como están
+  const clear = () => enqueue(async () => {
+    await deleteHistoryEntries(index.map(h => h.seq));
+    index = [];
+    await saveIndex();
+    notify();
+  });
+
+  return {
+    load,
+    record,
+    clear,
+    undo: () => step(true),
+    redo: () => step(false),
+  };
+};
@@ -0,0 +1,47 @@
+// Distribución por defecto de los 12 pads del banco activo: 1234 / QWER / ASDF.
+// Se guarda por KeyboardEvent.code para que no dependa del idioma del teclado.
+export const DEFAULT_KEY_MAP = [
+  'Digit1', 'Digit2', 'Digit3', 'Digit4',
+  'KeyQ', 'KeyW', 'KeyE', 'KeyR',
+  'KeyA', 'KeyS', 'KeyD', 'KeyF',
+];
+
+export const isKeyMap = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.length === DEFAULT_KEY_MAP.length && value.every(code => typeof code === 'string');
+
+export const SHORTCUTS = {
+  editMode: 'KeyZ',
+  trimmer: 'KeyT',
+  panic: 'Escape',
+  prevBank: 'BracketLeft',
+  nextBank: 'BracketRight',
+};
+
+const RESERVED_CODES = Object.values(SHORTCUTS);
+
+export const isReservedKey = (code: string) => RESERVED_CODES.includes(code);
+
+export const getKeyLabel = (code: string | undefined) => {
+  if (!code) return '—';
+  if (code.startsWith('Digit')) return code.slice(5);
+  if (code.startsWith('Key')) return code.slice(3);
+  if (code.startsWith('Numpad')) return `N${code.slice(6)}`;
+  return code;
+};
+
+// Número de pad (1..12) dentro del banco activo, o null si la tecla no está asignada
+export const getPadForKey = (keyMap: string[], code: string) => {
+  const index = keyMap.indexOf(code);
+  return index >= 0 ? index + 1 : null;
+};
+
+export const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement && !!target.closest('input, textarea, select, [contenteditable="true"]');
+
+// Ctrl/Cmd + Z deshace; Ctrl/Cmd + Shift + Z o Ctrl + Y rehacen
+export const getHistoryShortcut = (e: KeyboardEvent): 'undo' | 'redo' | null => {
+  if (!(e.ctrlKey || e.metaKey) || e.altKey) return null;
+  if (e.code === 'KeyZ') return e.shiftKey ? 'redo' : 'undo';
+  if (e.code === 'KeyY' && !e.shiftKey) return 'redo';
+  return null;
+};
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { readKit } from './kit';
+import { createZipWriter } from './zip';
+import { DEFAULT_FX } from './fx';
+
+const buildKit = async (files: Record<string, Blob | string>) => {
+  const parts: BlobPart[] = [];
+  const zip = createZipWriter(async chunk => { parts.push(chunk); });
+  for (const [name, data] of Object.entries(files)) await zip.add(name, typeof data === 'string' ? new Blob([data]) : data);
+  await zip.finish();
+  return new File(parts, 'kit.kit.zip');
+};
+
+const pad = (fields: Record<string, unknown> = {}) => ({ name: 'A1', audio: 'audio/01_A1.wav', duration: 0.5, volume: 5, ...fields });
+
+const wav = new Blob([new Uint8Array(64)]);
+
+describe('readKit', () => {
+  it('lee los pads y deja el medio con su tipo', async () => {
+    const kit = await readKit(await buildKit({
+      'audio/01_A1.wav': wav,
+      'kit.json': JSON.stringify({ kitName: 'Batería', version: 1, pads: [pad()] }),
+    }));
+    expect(kit.name).toBe('Batería');
+    expect(kit.pads).toHaveLength(1);
+    expect(kit.pads[0].media.type).toBe('audio/wav');
+    expect(kit.pads[0].descriptor.fx).toEqual(DEFAULT_FX);
+    expect(kit.skipped).toEqual([]);
+  });
+
+  it('explica que kit.json está dañado en lugar de lanzar un SyntaxError', async () => {
+    await expect(readKit(await buildKit({ 'kit.json': '{"pads": [' }))).rejects.toThrow(/kit\.json no es JSON válido/);
+  });
+
+  it('deja fuera los pads sin duración o sin audio válidos y lo informa', async () => {
+    const kit = await readKit(await buildKit({
+      'audio/01_A1.wav': wav,
+      'kit.json': JSON.stringify({ pads: [
+        pad(),
+        pad({ name: 'A2', duration: null }),
+        pad({ name: 'A3', duration: -1 }),
+        pad({ name: 'A4', audio: 7 }),
+        pad({ name: 'A5', audio: 'audio/no_existe.wav' }),
+      ] }),
+    }));
+    expect(kit.pads.map(p => p.descriptor.name)).toEqual(['A1']);
+    expect(kit.skipped.map(s => s.label)).toEqual(['A2', 'A3', 'A4', 'A5']);
+  });
+
+  it('corrige los ajustes anidados que no son válidos', async () => {
+    const kit = await readKit(await buildKit({
+      'audio/01_A1.wav': wav,
+      'kit.json': JSON.stringify({ pads: [pad({ volume: 'alto', fx: { ...DEFAULT_FX, drive: 'x' } })] }),
+    }));
+    expect(kit.pads[0].descriptor.volume).toBe(5);
+    expect(kit.pads[0].descriptor.fx.drive).toBe(DEFAULT_FX.drive);
+    expect(kit.warnings).toHaveLength(2);
+  });
+
+  it('rechaza un kit sin ningún pad utilizable', async () => {
+    await expect(readKit(await buildKit({ 'kit.json': JSON.stringify({ pads: [pad({ duration: 0 })] }) }))).rejects.toThrow(/Ningún pad/);
+  });
+});
@@ -0,0 +1,194 @@
+import { PadCell, PadEnvelope, PadFx, PadPitch, PadPlayback, PadTransform } from '../types';
+import { getClip, saveClip } from './db';
+import { getExtensionForMime, isAudioOnlyMime, openFileSink, toSafeFileName } from './media';
+import { getPadLabel } from './banks';
+import { encodeWav } from './wav';
+import { renderClipVideo } from './render';
+import { normalizePlayback } from './playback';
+import { normalizePitch } from './pitch';
+import { normalizeFx } from './fx';
+import { normalizeEnvelope } from './envelope';
+import { ImportReport, sanitizePadSettings } from './manifest';
+import { createZipWriter, readZip } from './zip';
+import { isFiniteNumber, isRecord } from './guards';
+
+// Un kit es un ZIP con pads ya recortados: WAV, vídeo opcional y este descriptor
+const KIT_MANIFEST = 'kit.json';
+const KIT_VERSION = 1;
+
+interface KitPadDescriptor {
+  name: string;          // Pad de origen (A1, B3...)
+  audio: string;
+  video?: string;
+  duration: number;
+  volume: number;
+  allowOverlap: boolean;
+  transform: PadTransform;
+  playback: PadPlayback;
+  pitch: PadPitch;
+  fx: PadFx;
+  envelope: PadEnvelope;
+}
+
+interface KitFile {
+  kitName: string;
+  version: number;
+  timestamp: number;
+  pads: KitPadDescriptor[];
+}
+
+export interface KitPad {
+  descriptor: KitPadDescriptor;
+  media: Blob;   // El vídeo si viene, si no el WAV
+}
+
+export interface Kit {
+  name: string;
+  pads: KitPad[];
+  skipped: ImportReport['skipped'];   // Pads del kit que no se pueden importar
+  warnings: string[];
+}
+
+// Pad a pad, como la exportación de proyectos: cada WAV y vídeo se escribe en el ZIP en cuanto está listo
+export const exportKit = async (
+  kitName: string,
+  cells: PadCell[],
+  withVideo: boolean,
+  onProgress?: (done: number, total: number) => void
+): Promise<void> => {
+  const pads = cells.filter(c => !c.isEmpty && c.audioBuffer);
+  if (pads.length === 0) {
+    throw new Error("No hay pads con audio para exportar.");
+  }
+
+  const sink = await openFileSink(`${toSafeFileName(kitName, 'kit_videopad')}.kit.zip`, 'application/zip', 'Kit VideoPad');
+  try {
+    const zip = createZipWriter(sink.write, sink.keepsBlobs);
+    const manifest: KitFile = { kitName: kitName || 'Kit VideoPad', version: KIT_VERSION, timestamp: Date.now(), pads: [] };
+
+    for (const [index, cell] of pads.entries()) {
+      onProgress?.(index, pads.length);
+      const buffer = cell.audioBuffer as AudioBuffer;
+      const end = Math.min(cell.endTime || buffer.duration, buffer.duration);
+      const base = `${String(index + 1).padStart(2, '0')}_${getPadLabel(cell.id)}`;
+      const descriptor: KitPadDescriptor = {
+        name: getPadLabel(cell.id),
+        audio: `audio/${base}.wav`,
+        duration: end - cell.startTime,
+        volume: cell.volume,
+        allowOverlap: cell.allowOverlap,
+        transform: cell.transform,
+        playback: normalizePlayback(cell.playback),
+        pitch: normalizePitch(cell.pitch),
+        fx: normalizeFx(cell.fx),
+        envelope: normalizeEnvelope(cell.envelope),
+      };
+      await zip.add(descriptor.audio, encodeWav(buffer, cell.startTime, end));
+
+      // Los clips solo de audio no tienen imagen que recortar
+      const clip = withVideo ? await getClip(cell.id) : null;
+      if (clip?.blob && !isAudioOnlyMime(clip.blob.type)) {
+        const video = await renderClipVideo(clip.blob, buffer, cell.startTime, end);
+        descriptor.video = `video/${base}.${getExtensionForMime(video.type)}`;
+        await zip.add(descriptor.video, video);
+      }
+      manifest.pads.push(descriptor);
+    }
+    onProgress?.(pads.length, pads.length);
+
+    await zip.add(KIT_MANIFEST, new Blob([JSON.stringify(manifest, null, 2)], { type: 'application/json' }));
+    await zip.finish();
+    await sink.close();
+  } catch (e) {
+    await sink.abort();
+    throw e;
+  }
+};
+
+// Comprueba un pad del kit como parseManifest comprueba los clips: devuelve el motivo si no se puede usar
+const checkDescriptor = (value: unknown, label: string, kit: Kit): KitPadDescriptor | string => {
+  if (!isRecord(value)) return 'no tiene el formato esperado';
+  const { audio, video, duration } = value;
+  if (typeof audio !== 'string' || !audio) return 'no indica su archivo de audio';
+  if (video !== undefined && typeof video !== 'string') return 'el archivo de vídeo no es válido';
+  if (!isFiniteNumber(duration) || duration <= 0) return 'la duración no es válida';
+
+  let volume = 5.0;
+  if (isFiniteNumber(value.volume) && value.volume >= 0 && value.volume <= 10) volume = value.volume;
+  else if (value.volume !== undefined) kit.warnings.push(`${label}: volumen fuera de rango; se usa 5.`);
+
+  return {
+    name: label,
+    audio,
+    video: typeof video === 'string' ? video : undefined,
+    duration,
+    volume,
+    allowOverlap: value.allowOverlap === true,
+    ...sanitizePadSettings(value, label, kit),
+  };
+};
+
+// Del ZIP solo se lee el índice; cada medio es un trozo del archivo que no se copia hasta guardarlo
+export const readKit = async (file: File): Promise<Kit> => {
+  const entries = await readZip(file);
+
+  const manifestEntry = entries.get(KIT_MANIFEST);
+  if (!manifestEntry) {
+    throw new Error("El ZIP no es un kit de VideoPad (falta kit.json).");
+  }
+  const manifestText = await (await manifestEntry.open()).text();
+  let manifest: unknown;
+  try {
+    manifest = JSON.parse(manifestText);
+  } catch (e) {
+    throw new Error("El kit está dañado: kit.json no es JSON válido.");
+  }
+  if (!isRecord(manifest) || !Array.isArray(manifest.pads) || manifest.pads.length === 0) {
+    throw new Error("El kit no contiene pads.");
+  }
+
+  const kit: Kit = { name: typeof manifest.kitName === 'string' && manifest.kitName.trim() ? manifest.kitName : 'Kit', pads: [], skipped: [], warnings: [] };
+  for (const [index, value] of manifest.pads.entries()) {
+    const label = isRecord(value) && typeof value.name === 'string' && value.name ? value.name : `Pad ${index + 1}`;
+    const descriptor = checkDescriptor(value, label, kit);
+    if (typeof descriptor === 'string') {
+      kit.skipped.push({ label, reason: descriptor });
+      continue;
+    }
+    const videoEntry = descriptor.video ? entries.get(descriptor.video) : undefined;
+    const source = videoEntry || entries.get(descriptor.audio);
+    if (!source || source.size === 0) {
+      kit.skipped.push({ label, reason: `falta el archivo ${descriptor.audio}` });
+      continue;
+    }
+    const type = videoEntry ? (descriptor.video!.endsWith('.webm') ? 'video/webm' : 'video/mp4') : 'audio/wav';
+    if (descriptor.video && !videoEntry) {
+      kit.warnings.push(`${label}: falta el vídeo ${descriptor.video}; se importa solo el audio.`);
+      delete descriptor.video;
+    }
+    kit.pads.push({ descriptor, media: await source.open(type) });
+  }
+  if (kit.pads.length === 0) {
+    throw new Error("Ningún pad del kit se puede importar: faltan sus archivos o están dañados.");
+  }
+  return kit;
+};
+
+// Guarda un pad del kit en un hueco concreto; el resto de la rejilla no se toca.
+// El descriptor ya viene comprobado por readKit
+export const saveKitPad = async (pad: KitPad, padId: number) => {
+  const { descriptor } = pad;
+  await saveClip(
+    padId,
+    pad.media,
+    0,
+    descriptor.duration,
+    descriptor.volume,
+    descriptor.transform,
+    descriptor.allowOverlap,
+    descriptor.playback,
+    descriptor.pitch,
+    descriptor.fx,
+    descriptor.envelope
+  );
+};
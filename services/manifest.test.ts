@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { MANIFEST_VERSION, parseManifest } from './manifest';
+import { DEFAULT_PITCH } from './pitch';
+import { DEFAULT_FX } from './fx';
+import { DEFAULT_ENVELOPE } from './envelope';
+import { isPadAudible } from './mixer';
+
+const clip = (fields: Record<string, unknown> = {}) => ({
+  id: 1, bank: 'A', pad: 1, startTime: 0, endTime: 1, volume: 5,
+  filename: 'video_assets/pad_A1.webm', mimeType: 'video/webm', ...fields,
+});
+
+const parse = (manifest: Record<string, unknown>) =>
+  parseManifest(JSON.stringify({ projectName: 'Prueba', version: MANIFEST_VERSION, timestamp: 0, ...manifest }), false);
+
+describe('parseManifest', () => {
+  it('acepta un manifiesto actual sin avisos', () => {
+    const { manifest, report } = parse({ clips: [clip()] });
+    expect(manifest.clips).toHaveLength(1);
+    expect(report.warnings).toEqual([]);
+    expect(report.skipped).toEqual([]);
+  });
+
+  it('sustituye los números anidados que no son finitos y lo avisa', () => {
+    const { manifest, report } = parse({
+      clips: [clip({
+        pitch: { semitones: 'doce', cents: 0, rate: 1 },
+        fx: { ...DEFAULT_FX, delay: { time: '0.5', feedback: 0.3, mix: 0.2 }, filter: { type: 'notch', frequency: 1000, q: 1 } },
+        envelope: { attack: null, hold: 0, release: 'x', autoFade: true },
+      })],
+    });
+    const [result] = manifest.clips;
+    expect(result.pitch).toEqual(DEFAULT_PITCH);
+    expect(result.fx?.delay.time).toBe(DEFAULT_FX.delay.time);
+    expect(result.fx?.delay.mix).toBe(0.2);
+    expect(result.fx?.filter.type).toBe(DEFAULT_FX.filter.type);
+    expect(result.envelope).toEqual(DEFAULT_ENVELOPE);
+    expect(report.warnings).toHaveLength(5);
+    expect(report.warnings.some(w => w.includes('pitch') || w.includes('semitones'))).toBe(true);
+  });
+
+  it('vacía los silencios y solos que no son listas', () => {
+    const { manifest, report } = parse({ clips: [clip()], mixer: { mutes: 'A1', solos: [1, 'x'] } });
+    expect(manifest.mixer?.mutes).toEqual([]);
+    expect(manifest.mixer?.solos).toEqual([1]);
+    expect(report.warnings).toHaveLength(2);
+    expect(isPadAudible(manifest.mixer!, 1)).toBe(true);
+  });
+
+  it('migra un project.json antiguo al banco A', () => {
+    const { manifest, report } = parseManifest(JSON.stringify({ projectName: 'Viejo', clips: [clip({ id: 3, bank: undefined, pad: undefined })] }), true);
+    expect(manifest.clips[0]).toMatchObject({ id: 3, bank: 'A', pad: 3 });
+    expect(report.legacy).toBe(true);
+    expect(report.migrations.length).toBeGreaterThan(0);
+  });
+
+  it('rechaza manifiestos de una versión más nueva', () => {
+    expect(() => parse({ version: MANIFEST_VERSION + 1, clips: [] })).toThrow(/más nueva/);
+  });
+});
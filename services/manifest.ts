@@ -0,0 +1,371 @@
+import { ChromaticSettings, MidiMapping, MixerSettings, PadEnvelope, PadFx, PadPattern, PadPitch, PadPlayback, PadTransform, SequencerSettings, Take, TakeEvent } from '../types';
+import { BANKS, DEFAULT_BANK, PADS_PER_BANK, getPadLabel, toPadId } from './banks';
+import { DEFAULT_SEQUENCER_SETTINGS } from './sequencer';
+import { DEFAULT_TRANSFORM, normalizeTransform } from './transform';
+import { DEFAULT_PLAYBACK, PLAY_MODES, normalizePlayback } from './playback';
+import { DEFAULT_PITCH, isChromaticSettings, normalizePitch } from './pitch';
+import { DEFAULT_FX, FILTER_TYPES, REVERB_TYPES, normalizeFx } from './fx';
+import { DEFAULT_ENVELOPE, normalizeEnvelope } from './envelope';
+import { DEFAULT_MASTER, normalizeMixer } from './mixer';
+import { isMidiMapping } from './midi';
+import { isKeyMap } from './keyboard';
+import { isFiniteNumber, isNumberList, isRecord, isString } from './guards';
+
+// Formato del manifiesto de los ZIP de proyecto. Cada cambio sube la versión y, si los
+// datos antiguos necesitan otra forma, añade una migración a MIGRATIONS.
+export const MANIFEST_VERSION = 15;
+export const MANIFEST_FILE = 'project_manifest.json';
+// Los primeros ZIP guardaban el manifiesto con este nombre y sin versión
+export const LEGACY_MANIFEST_FILE = 'project.json';
+
+export interface ClipMetadata {
+  id: number;
+  bank?: string;    // Desde la versión 7; antes todo era banco A
+  pad?: number;
+  startTime: number;
+  endTime: number;
+  volume: number;
+  filename: string;         // Desde la versión 15 varios clips pueden compartir archivo
+  mimeType: string;
+  allowOverlap?: boolean;
+  transform?: PadTransform;
+  playback?: PadPlayback;   // Desde la versión 10
+  pitch?: PadPitch;         // Desde la versión 11
+  fx?: PadFx;               // Desde la versión 12
+  envelope?: PadEnvelope;   // Desde la versión 14
+}
+
+export interface ProjectFile {
+  projectName: string;
+  version: number;
+  timestamp: number;
+  clips: ClipMetadata[];
+  sequencer?: {             // Desde la versión 5
+    settings: SequencerSettings;
+    patterns: PadPattern[];
+  };
+  takes?: Take[];           // Desde la versión 6
+  midi?: MidiMapping[];     // Desde la versión 8
+  keyMap?: string[];        // Desde la versión 9
+  chromatic?: ChromaticSettings;  // Desde la versión 11
+  mixer?: MixerSettings;    // Desde la versión 13
+}
+
+export interface ImportReport {
+  projectName: string;
+  sourceVersion: number;
+  legacy: boolean;
+  migrations: string[];
+  imported: number[];                            // Pads que se han guardado
+  skipped: { label: string; reason: string }[];  // Clips que no se han podido importar
+  warnings: string[];                            // Datos corregidos o descartados
+}
+
+type FieldType = 'number' | 'string' | 'boolean' | 'object' | 'array';
+
+interface FieldSpec {
+  key: string;
+  type: FieldType;
+  required?: boolean;
+  since?: number;   // Versión en la que apareció el campo
+}
+
+// Esquema de cada versión: un campo solo es válido desde su `since`
+const PROJECT_FIELDS: FieldSpec[] = [
+  { key: 'projectName', type: 'string' },
+  { key: 'version', type: 'number' },
+  { key: 'timestamp', type: 'number' },
+  { key: 'clips', type: 'array', required: true },
+  { key: 'sequencer', type: 'object', since: 5 },
+  { key: 'takes', type: 'array', since: 6 },
+  { key: 'midi', type: 'array', since: 8 },
+  { key: 'keyMap', type: 'array', since: 9 },
+  { key: 'chromatic', type: 'object', since: 11 },
+  { key: 'mixer', type: 'object', since: 13 },
+];
+
+const CLIP_FIELDS: FieldSpec[] = [
+  { key: 'id', type: 'number', required: true },
+  { key: 'bank', type: 'string', since: 7 },
+  { key: 'pad', type: 'number', since: 7 },
+  { key: 'startTime', type: 'number', required: true },
+  { key: 'endTime', type: 'number', required: true },
+  { key: 'volume', type: 'number' },
+  { key: 'filename', type: 'string', required: true },
+  { key: 'mimeType', type: 'string' },
+  { key: 'allowOverlap', type: 'boolean' },
+  { key: 'transform', type: 'object' },
+  { key: 'playback', type: 'object', since: 10 },
+  { key: 'pitch', type: 'object', since: 11 },
+  { key: 'fx', type: 'object', since: 12 },
+  { key: 'envelope', type: 'object', since: 14 },
+];
+
+interface Migration {
+  version: number;       // Versión a la que lleva el manifiesto
+  description: string;
+  migrate: (manifest: ProjectFile) => void;
+}
+
+// Solo las versiones que cambiaron la forma de los datos; el resto suben sin tocar nada
+const MIGRATIONS: Migration[] = [
+  {
+    version: 7,
+    description: 'Los pads pasan al banco A',
+    migrate: (manifest) => manifest.clips.forEach(clip => {
+      clip.bank = DEFAULT_BANK;
+      clip.pad = clip.id;
+      clip.id = toPadId(DEFAULT_BANK, clip.id);
+    }),
+  },
+  {
+    version: 10,
+    description: 'Modo de reproducción one-shot',
+    migrate: (manifest) => manifest.clips.forEach(clip => { clip.playback = DEFAULT_PLAYBACK; }),
+  },
+  {
+    version: 11,
+    description: 'Afinación sin transponer',
+    migrate: (manifest) => manifest.clips.forEach(clip => { clip.pitch = DEFAULT_PITCH; }),
+  },
+  {
+    version: 12,
+    description: 'Pads sin efectos',
+    migrate: (manifest) => manifest.clips.forEach(clip => { clip.fx = DEFAULT_FX; }),
+  },
+  {
+    version: 14,
+    description: 'Envolvente por defecto',
+    migrate: (manifest) => manifest.clips.forEach(clip => { clip.envelope = DEFAULT_ENVELOPE; }),
+  },
+];
+
+const typeOf = (value: unknown): string => Array.isArray(value) ? 'array' : isRecord(value) ? 'object' : typeof value;
+
+// Errores en campos obligatorios; los opcionales mal formados se descartan con un aviso
+const checkFields = (record: Record<string, unknown>, fields: FieldSpec[], version: number, where: string, report: ImportReport) => {
+  const errors: string[] = [];
+  for (const { key, type, required, since = 1 } of fields) {
+    const value = record[key];
+    if (value === undefined || value === null) {
+      if (required) errors.push(`falta «${key}»`);
+      continue;
+    }
+    if (version < since) {
+      report.warnings.push(`${where}: «${key}» no existe en la versión ${version}; se ignora.`);
+      delete record[key];
+    } else if (typeOf(value) !== type || (type === 'number' && !isFiniteNumber(value))) {
+      if (required) errors.push(`«${key}» debería ser ${type}`);
+      else {
+        report.warnings.push(`${where}: «${key}» no es válido; se usa el valor por defecto.`);
+        delete record[key];
+      }
+    }
+  }
+  return errors;
+};
+
+// Valores admitidos de los campos de texto que son una lista cerrada, por ruta dentro del objeto
+type Choices = Record<string, readonly string[]>;
+
+// Recorre el objeto por defecto y toma de `value` cada campo del mismo tipo (números finitos,
+// textos de la lista si la hay). Lo que falta se rellena en silencio; lo que viene mal, con un aviso.
+// Los rangos los ajustan después los normalize* de cada módulo.
+const mergeChecked = <T extends object>(value: unknown, defaults: T, where: string, report: Pick<ImportReport, 'warnings'>, choices: Choices = {}, path = ''): T => {
+  const source = isRecord(value) ? value : {};
+  if (value !== undefined && value !== null && !isRecord(value)) {
+    report.warnings.push(`${where}: «${path || 'ajustes'}» no es válido; se usa el valor por defecto.`);
+  }
+  const result: Record<string, unknown> = {};
+  for (const [key, fallback] of Object.entries(defaults)) {
+    const fieldPath = path ? `${path}.${key}` : key;
+    const candidate = source[key];
+    if (isRecord(fallback)) {
+      result[key] = mergeChecked(candidate, fallback, where, report, choices, fieldPath);
+      continue;
+    }
+    const allowed = choices[fieldPath];
+    const isValid = typeof candidate === typeof fallback
+      && (typeof candidate !== 'number' || Number.isFinite(candidate))
+      && (!allowed || (isString(candidate) && allowed.includes(candidate)));
+    if (isValid) result[key] = candidate;
+    else {
+      if (candidate !== undefined) report.warnings.push(`${where}: «${fieldPath}» no es válido; se usa el valor por defecto.`);
+      result[key] = fallback;
+    }
+  }
+  return result as T;
+};
+
+const PLAYBACK_CHOICES: Choices = { mode: PLAY_MODES.map(m => m.mode) };
+const FX_CHOICES: Choices = { 'filter.type': FILTER_TYPES.map(f => f.type), 'reverb.type': REVERB_TYPES.map(r => r.type) };
+
+export type PadSettings = Required<Pick<ClipMetadata, 'transform' | 'playback' | 'pitch' | 'fx' | 'envelope'>>;
+
+// Ajustes anidados de un pad, compartidos por los clips de proyecto y los pads de kit
+export const sanitizePadSettings = (pad: Partial<Record<keyof PadSettings, unknown>>, label: string, report: Pick<ImportReport, 'warnings'>): PadSettings => ({
+  transform: normalizeTransform(mergeChecked(pad.transform, DEFAULT_TRANSFORM, `${label} (encuadre)`, report)),
+  playback: normalizePlayback(mergeChecked(pad.playback, DEFAULT_PLAYBACK, `${label} (reproducción)`, report, PLAYBACK_CHOICES)),
+  pitch: normalizePitch(mergeChecked(pad.pitch, DEFAULT_PITCH, `${label} (afinación)`, report)),
+  fx: normalizeFx(mergeChecked(pad.fx, DEFAULT_FX, `${label} (efectos)`, report, FX_CHOICES)),
+  envelope: normalizeEnvelope(mergeChecked(pad.envelope, DEFAULT_ENVELOPE, `${label} (envolvente)`, report)),
+});
+
+// Corrige los valores de un clip ya migrado; devuelve el motivo si no se puede usar
+const sanitizeClip = (clip: ClipMetadata, report: ImportReport): string | null => {
+  const pad = clip.pad ?? 0;
+  if (!clip.bank || !BANKS.includes(clip.bank) || !Number.isInteger(pad) || pad < 1 || pad > PADS_PER_BANK) {
+    return 'el pad no existe en la rejilla';
+  }
+  clip.id = toPadId(clip.bank, pad);
+  const label = getPadLabel(clip.id);
+
+  if (clip.startTime < 0 || (clip.endTime !== 0 && clip.endTime <= clip.startTime)) {
+    report.warnings.push(`${label}: el recorte no es válido; se usa el clip completo.`);
+    clip.startTime = 0;
+    clip.endTime = 0;
+  }
+  if (!isFiniteNumber(clip.volume) || clip.volume < 0 || clip.volume > 10) {
+    if (clip.volume !== undefined) report.warnings.push(`${label}: volumen fuera de rango; se usa 5.`);
+    clip.volume = 5.0;
+  }
+  clip.allowOverlap = clip.allowOverlap ?? false;
+  Object.assign(clip, sanitizePadSettings(clip, label, report));
+  return null;
+};
+
+// Las listas opcionales conservan solo las entradas bien formadas
+const filterEntries = <T>(items: unknown[], isValid: (item: unknown) => item is T, what: string, report: ImportReport): T[] => {
+  const valid = items.filter(isValid);
+  if (valid.length < items.length) report.warnings.push(`Se han descartado ${items.length - valid.length} ${what} no válidos.`);
+  return valid;
+};
+
+const isPattern = (item: unknown): item is PadPattern =>
+  isRecord(item) && isFiniteNumber(item.padId) && isNumberList(item.steps);
+
+const isTakeEvent = (item: unknown): item is TakeEvent =>
+  isRecord(item) && isFiniteNumber(item.padId) && isFiniteNumber(item.time) && isFiniteNumber(item.velocity)
+  && isFiniteNumber(item.volume) && typeof item.allowOverlap === 'boolean'
+  && (item.transpose === undefined || isFiniteNumber(item.transpose));
+
+const isTake = (item: unknown): item is Take =>
+  isRecord(item) && isString(item.id) && isString(item.name) && isFiniteNumber(item.createdAt)
+  && isFiniteNumber(item.duration) && Array.isArray(item.events) && item.events.every(isTakeEvent);
+
+// Ids de pad para silencios y solos: si la lista no es válida se vacía con un aviso
+const checkPadList = (value: unknown, what: string, report: ImportReport): number[] => {
+  if (value === undefined) return [];
+  if (Array.isArray(value)) {
+    const valid = value.filter(isFiniteNumber);
+    if (valid.length < value.length) report.warnings.push(`Mezclador: se han descartado ${value.length - valid.length} ${what} no válidos.`);
+    return valid;
+  }
+  report.warnings.push(`Mezclador: la lista de ${what} no es válida; se vacía.`);
+  return [];
+};
+
+const sanitizeProjectData = (manifest: ProjectFile, report: ImportReport) => {
+  const sequencer: unknown = manifest.sequencer;
+  if (isRecord(sequencer)) {
+    manifest.sequencer = {
+      settings: mergeChecked(sequencer.settings, DEFAULT_SEQUENCER_SETTINGS, 'Secuenciador', report),
+      patterns: filterEntries(Array.isArray(sequencer.patterns) ? sequencer.patterns : [], isPattern, 'patrones', report),
+    };
+  }
+  if (manifest.takes) {
+    manifest.takes = filterEntries(manifest.takes, isTake, 'tomas', report);
+  }
+  if (manifest.midi) {
+    manifest.midi = filterEntries(manifest.midi, isMidiMapping, 'asignaciones MIDI', report);
+  }
+  if (manifest.keyMap && !isKeyMap(manifest.keyMap)) {
+    report.warnings.push('La distribución del teclado no es válida; se usa la de por defecto.');
+    delete manifest.keyMap;
+  }
+  if (manifest.chromatic && !isChromaticSettings(manifest.chromatic)) {
+    report.warnings.push('El modo cromático no es válido; se desactiva.');
+    delete manifest.chromatic;
+  }
+  const mixer: unknown = manifest.mixer;
+  if (isRecord(mixer)) {
+    manifest.mixer = normalizeMixer({
+      master: mergeChecked(mixer.master, DEFAULT_MASTER, 'Mezclador', report),
+      mutes: checkPadList(mixer.mutes, 'silencios', report),
+      solos: checkPadList(mixer.solos, 'solos', report),
+    });
+  }
+};
+
+// Valida el manifiesto con el esquema de su versión, lo migra a la actual y lo deja listo para escribir.
+// Los problemas del proyecto entero lanzan un error; los de un clip lo dejan fuera del informe de importados.
+export const parseManifest = (text: string, legacy: boolean): { manifest: ProjectFile; report: ImportReport } => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (e) {
+    throw new Error("El manifiesto del proyecto no es JSON válido.");
+  }
+  if (!isRecord(raw)) throw new Error("El manifiesto del proyecto está vacío o no tiene el formato esperado.");
+
+  const version = raw.version ?? 1;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new Error("El manifiesto no indica una versión válida.");
+  }
+  if (version > MANIFEST_VERSION) {
+    throw new Error(`El proyecto se creó con una versión más nueva de VideoPad (formato ${version}). Actualiza la app para abrirlo.`);
+  }
+
+  const report: ImportReport = {
+    projectName: typeof raw.projectName === 'string' && raw.projectName.trim() ? raw.projectName : 'Proyecto Importado',
+    sourceVersion: version,
+    legacy,
+    migrations: [],
+    imported: [],
+    skipped: [],
+    warnings: [],
+  };
+
+  const errors = checkFields(raw, PROJECT_FIELDS, version, 'Proyecto', report);
+  if (errors.length > 0) throw new Error(`El manifiesto no es válido: ${errors.join(', ')}.`);
+
+  const clips: ClipMetadata[] = [];
+  const rawClips = Array.isArray(raw.clips) ? raw.clips : [];
+  rawClips.forEach((clip: unknown, index: number) => {
+    const where = `Clip ${index + 1}`;
+    if (!isRecord(clip)) {
+      report.skipped.push({ label: where, reason: 'no tiene el formato esperado' });
+      return;
+    }
+    const clipErrors = checkFields(clip, CLIP_FIELDS, version, where, report);
+    if (clipErrors.length > 0) report.skipped.push({ label: where, reason: clipErrors.join(', ') });
+    // Los campos de primer nivel ya están comprobados; los anidados los revisa sanitizeClip
+    else clips.push(clip as unknown as ClipMetadata);
+  });
+
+  const manifest = { ...raw, projectName: report.projectName, clips } as ProjectFile;
+  for (const migration of MIGRATIONS) {
+    if (version < migration.version) {
+      migration.migrate(manifest);
+      report.migrations.push(`v${migration.version}: ${migration.description}`);
+    }
+  }
+  manifest.version = MANIFEST_VERSION;
+
+  // Un pad repetido se queda con el primer clip
+  const used = new Set<number>();
+  manifest.clips = manifest.clips.filter(clip => {
+    const reason = sanitizeClip(clip, report);
+    const label = reason ? `Clip ${clip.bank ?? ''}${clip.pad ?? clip.id}` : getPadLabel(clip.id);
+    if (!reason && used.has(clip.id)) {
+      report.skipped.push({ label, reason: 'el pad está repetido en el manifiesto' });
+      return false;
+    }
+    if (reason) report.skipped.push({ label, reason });
+    else used.add(clip.id);
+    return !reason;
+  });
+  sanitizeProjectData(manifest, report);
+
+  return { manifest, report };
+};
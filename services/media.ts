@@ -0,0 +1,203 @@
+// Utilidades compartidas de captura y descarga de medios
+import { decodeAudio } from './audio';
+
+// Negociación de formato: Safari en iOS solo graba mp4, el resto prefiere webm
+export const getRecorderOptions = (): MediaRecorderOptions => {
+  const options: MediaRecorderOptions = {
+    videoBitsPerSecond: 2500000,
+    audioBitsPerSecond: 128000,
+  };
+
+  const isApple = /iPad|iPhone|iPod/.test(navigator.userAgent) || (navigator.platform === 'MacIntel' && navigator.maxTouchPoints > 1);
+  
+  if (isApple && MediaRecorder.isTypeSupported('video/mp4')) {
+    options.mimeType = 'video/mp4';
+  } else if (MediaRecorder.isTypeSupported('video/webm;codecs=vp8,opus')) {
+    options.mimeType = 'video/webm;codecs=vp8,opus';
+  } else if (MediaRecorder.isTypeSupported('video/webm')) {
+    options.mimeType = 'video/webm';
+  }
+  return options;
+};
+
+// Archivos que se pueden importar a un pad; el tipo se deduce de la extensión si el navegador no lo da
+const IMPORT_TYPES: Record<string, string> = {
+  mp4: 'video/mp4',
+  m4v: 'video/mp4',
+  webm: 'video/webm',
+  mov: 'video/quicktime',
+  wav: 'audio/wav',
+  mp3: 'audio/mpeg',
+  ogg: 'audio/ogg',
+  oga: 'audio/ogg',
+  m4a: 'audio/mp4',
+};
+
+export const IMPORT_ACCEPT = ['video/*', 'audio/*', ...Object.keys(IMPORT_TYPES).map(ext => `.${ext}`)].join(',');
+
+export const isAudioOnlyMime = (mime: string) => mime.startsWith('audio/');
+
+export const getExtensionForMime = (mime: string) => {
+  if (mime.includes('quicktime')) return 'mov';
+  if (isAudioOnlyMime(mime)) {
+    if (mime.includes('wav')) return 'wav';
+    if (mime.includes('mpeg')) return 'mp3';
+    if (mime.includes('ogg')) return 'ogg';
+    if (mime.includes('webm')) return 'webm';
+    return 'm4a';
+  }
+  return mime.includes('webm') ? 'webm' : 'mp4';
+};
+
+export const getImportMimeType = (file: File) => {
+  const extension = file.name.split('.').pop()?.toLowerCase() || '';
+  return file.type || IMPORT_TYPES[extension] || '';
+};
+
+// Duración y presencia de imagen según el propio elemento <video>; falla si no lo puede abrir
+export const probeMedia = (blob: Blob, timeout = 10000) =>
+  new Promise<{ duration: number; hasVideo: boolean }>((resolve, reject) => {
+    const video = document.createElement('video');
+    const url = URL.createObjectURL(blob);
+    const finish = (error?: Error) => {
+      window.clearTimeout(timer);
+      video.onloadedmetadata = null;
+      video.onerror = null;
+      video.removeAttribute('src');
+      URL.revokeObjectURL(url);
+      if (error) reject(error); else resolve({ duration: video.duration, hasVideo: video.videoWidth > 0 });
+    };
+    const timer = window.setTimeout(() => finish(new Error("El archivo tarda demasiado en abrirse.")), timeout);
+    video.preload = 'metadata';
+    video.muted = true;
+    video.onloadedmetadata = () => finish();
+    video.onerror = () => finish(new Error(`Código de error ${video.error?.code ?? '?'}`));
+    video.src = url;
+  });
+
+export const toSafeFileName = (name: string, fallback: string) =>
+  name.trim().replace(/[^a-z0-9]/gi, '_').toLowerCase() || fallback;
+
+// Se resuelve cuando la URL ya se ha liberado y el navegador tiene su propia referencia al archivo
+export const downloadBlob = (blob: Blob, filename: string) => new Promise<void>(resolve => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.style.display = 'none';
+  a.href = url;
+  a.download = filename;
+  
+  document.body.appendChild(a);
+  a.click();
+  
+  setTimeout(() => {
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+    resolve();
+  }, 2000);
+});
+
+// Destino de un archivo que se escribe por partes. Con keepsBlobs el destino solo guarda referencias:
+// hay que darle cada Blob entero, no sus bytes por trozos
+export interface FileSink {
+  keepsBlobs: boolean;
+  write: (chunk: Blob | Uint8Array) => Promise<void>;
+  close: () => Promise<void>;
+  abort: () => Promise<void>;
+}
+
+type SaveFilePicker = (options: {
+  suggestedName: string;
+  types: { description: string; accept: Record<string, string[]> }[];
+}) => Promise<FileSystemFileHandle>;
+
+// Dónde acaba un archivo escrito por partes:
+// - 'disk': File System Access, el usuario elige el archivo y cada parte va directa a él
+// - 'temp': archivo temporal en el almacenamiento privado del origen (OPFS) que luego se descarga
+// - 'memory': sin ninguna de las dos (Safari en iOS), el archivo es un Blob que referencia los medios
+//   guardados; solo las cabeceras del ZIP se copian en la memoria de la página
+export type FileSinkMode = 'disk' | 'temp' | 'memory';
+
+const getSaveFilePicker = () => (window as Window & { showSaveFilePicker?: SaveFilePicker }).showSaveFilePicker;
+
+export const getFileSinkMode = (): FileSinkMode => {
+  if (getSaveFilePicker()) return 'disk';
+  if (navigator.storage?.getDirectory && typeof FileSystemFileHandle !== 'undefined' && 'createWritable' in FileSystemFileHandle.prototype) return 'temp';
+  return 'memory';
+};
+
+const TEMP_EXPORT_FILE = 'videopad-export.tmp';
+
+const toSink = (writable: FileSystemWritableFileStream, onClose: () => Promise<void>, onAbort: () => Promise<void>): FileSink => ({
+  keepsBlobs: false,
+  write: chunk => writable.write(chunk),
+  close: async () => { await writable.close(); await onClose(); },
+  // Hasta cerrar se escribe en un archivo aparte: abortar no deja un archivo a medias
+  abort: async () => {
+    try {
+      await writable.abort().catch(() => undefined);
+    } finally {
+      await onAbort();
+    }
+  },
+});
+
+// Hay que llamarlo durante el gesto del usuario: el selector de archivo lo exige
+export const openFileSink = async (filename: string, mimeType: string, description: string): Promise<FileSink> => {
+  const mode = getFileSinkMode();
+  if (mode === 'disk') {
+    const extension = filename.slice(filename.indexOf('.'));
+    const handle = await getSaveFilePicker()!({ suggestedName: filename, types: [{ description, accept: { [mimeType]: [extension] } }] });
+    const done = async () => undefined;
+    return toSink(await handle.createWritable(), done, done);
+  }
+
+  if (mode === 'temp') {
+    const root = await navigator.storage.getDirectory();
+    const handle = await root.getFileHandle(TEMP_EXPORT_FILE, { create: true });
+    // El temporal no cuenta en el panel de almacenamiento: se borra siempre, también si se cancela
+    const remove = () => root.removeEntry(TEMP_EXPORT_FILE).catch(() => undefined);
+    return toSink(await handle.createWritable(), async () => {
+      try {
+        // El File de OPFS se lee del disco al descargar, no se copia a la página
+        await downloadBlob(await handle.getFile(), filename);
+      } finally {
+        await remove();
+      }
+    }, remove);
+  }
+
+  // Los Blob de los medios entran tal cual en el Blob final; solo las cabeceras ocupan memoria propia
+  const parts: BlobPart[] = [];
+  return {
+    keepsBlobs: true,
+    write: async chunk => { parts.push(chunk); },
+    close: () => downloadBlob(new Blob(parts, { type: mimeType }), filename),
+    abort: async () => { parts.length = 0; },
+  };
+};
+
+// Abre un archivo local para un pad. Los errores explican qué parte no entiende el navegador
+export const loadImportedFile = async (file: File) => {
+  const mimeType = getImportMimeType(file);
+  if (!mimeType.startsWith('video/') && !isAudioOnlyMime(mimeType)) {
+    throw new Error(`«${file.name}» no es un archivo de vídeo o audio.`);
+  }
+  const blob = file.type === mimeType ? file : new Blob([file], { type: mimeType });
+
+  let buffer: AudioBuffer;
+  try {
+    buffer = await decodeAudio(blob);
+  } catch (e) {
+    throw new Error(`No se pudo decodificar el audio de «${file.name}»: este navegador no admite su códec o el archivo no tiene sonido.`);
+  }
+
+  let duration = buffer.duration;
+  if (!isAudioOnlyMime(mimeType)) {
+    const probe = await probeMedia(blob).catch(() => null);
+    if (!probe || !probe.hasVideo) {
+      throw new Error(`Este navegador no puede mostrar el vídeo de «${file.name}». Prueba con MP4 (H.264) o WebM.`);
+    }
+    if (Number.isFinite(probe.duration) && probe.duration > 0) duration = probe.duration;
+  }
+  return { blob, buffer, duration };
+};
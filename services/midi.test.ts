@@ -0,0 +1,111 @@
+import { describe, expect, it, vi } from 'vitest';
+import { MidiMapping } from '../types';
+import { MidiAccessLike, MidiInputLike, createMidiController, parseMidiMessage } from './midi';
+
+// Acceso MIDI falso con entradas a las que se les pueden enviar mensajes crudos
+const createFakeAccess = (names: string[]) => {
+  const inputs: MidiInputLike[] = names.map(name => ({ id: `in-${name}`, name, onmidimessage: null }));
+  const access: MidiAccessLike = {
+    inputs: { forEach: callback => inputs.forEach(callback) },
+    onstatechange: null,
+  };
+  const send = (bytes: number[], input = 0) => inputs[input].onmidimessage?.({ data: new Uint8Array(bytes) });
+  return { access, inputs, send };
+};
+
+const setup = (mappings: MidiMapping[] = []) => {
+  const fake = createFakeAccess(['Pads']);
+  const onTrigger = vi.fn();
+  const onRelease = vi.fn();
+  const onMappingsChange = vi.fn();
+  const onLearnChange = vi.fn();
+  const controller = createMidiController(fake.access, { mappings, onTrigger, onRelease, onMappingsChange, onLearnChange });
+  return { ...fake, controller, onTrigger, onRelease, onMappingsChange, onLearnChange };
+};
+
+describe('parseMidiMessage', () => {
+  it('reconoce notas, CC y el canal', () => {
+    expect(parseMidiMessage(new Uint8Array([0x90, 36, 100]))).toEqual({ type: 'noteon', channel: 1, number: 36, value: 100 });
+    expect(parseMidiMessage(new Uint8Array([0x89, 36, 0]))).toEqual({ type: 'noteoff', channel: 10, number: 36, value: 0 });
+    expect(parseMidiMessage(new Uint8Array([0xb2, 20, 127]))).toEqual({ type: 'cc', channel: 3, number: 20, value: 127 });
+  });
+
+  it('trata una nota con velocidad 0 como soltarla', () => {
+    expect(parseMidiMessage(new Uint8Array([0x90, 36, 0]))?.type).toBe('noteoff');
+  });
+
+  it('ignora mensajes cortos y de otros tipos', () => {
+    expect(parseMidiMessage(null)).toBeNull();
+    expect(parseMidiMessage(new Uint8Array([0x90, 36]))).toBeNull();
+    expect(parseMidiMessage(new Uint8Array([0xe0, 0, 64]))).toBeNull();
+  });
+});
+
+describe('createMidiController', () => {
+  it('dispara el pad de la nota con la velocidad escalada a 0..1', () => {
+    const { send, onTrigger } = setup([{ padId: 5, type: 'note', channel: 1, number: 36 }]);
+    send([0x90, 36, 127]);
+    send([0x90, 36, 64]);
+    send([0x91, 36, 100]);   // Otro canal
+    expect(onTrigger).toHaveBeenCalledTimes(2);
+    expect(onTrigger).toHaveBeenNthCalledWith(1, 5, 1);
+    expect(onTrigger).toHaveBeenNthCalledWith(2, 5, 64 / 127);
+  });
+
+  it('suelta el pad con note-off y con note-on de velocidad 0', () => {
+    const { send, onTrigger, onRelease } = setup([{ padId: 5, type: 'note', channel: 1, number: 36 }]);
+    send([0x80, 36, 64]);
+    send([0x90, 36, 0]);
+    expect(onRelease).toHaveBeenCalledTimes(2);
+    expect(onRelease).toHaveBeenCalledWith(5);
+    expect(onTrigger).not.toHaveBeenCalled();
+  });
+
+  it('dispara con CC y suelta cuando el CC vuelve a 0', () => {
+    const { send, onTrigger, onRelease } = setup([{ padId: 14, type: 'cc', channel: 2, number: 20 }]);
+    send([0xb1, 20, 127]);
+    send([0xb1, 20, 0]);
+    send([0x91, 20, 100]);   // Una nota con el mismo número no es el CC
+    expect(onTrigger).toHaveBeenCalledTimes(1);
+    expect(onTrigger).toHaveBeenCalledWith(14, 1);
+    expect(onRelease).toHaveBeenCalledWith(14);
+  });
+
+  it('en modo aprendizaje asigna el siguiente control al pad y sustituye asignaciones previas', () => {
+    const { send, controller, onTrigger, onMappingsChange, onLearnChange } = setup([
+      { padId: 3, type: 'note', channel: 1, number: 40 },
+      { padId: 7, type: 'note', channel: 1, number: 36 },
+    ]);
+    controller.startLearn(3);
+    expect(onLearnChange).toHaveBeenLastCalledWith(3);
+    send([0x80, 36, 0]);     // Soltar no se aprende
+    expect(onMappingsChange).not.toHaveBeenCalled();
+
+    send([0x90, 36, 90]);
+    expect(onTrigger).not.toHaveBeenCalled();
+    expect(onLearnChange).toHaveBeenLastCalledWith(null);
+    expect(onMappingsChange).toHaveBeenCalledWith([{ padId: 3, type: 'note', channel: 1, number: 36 }]);
+
+    send([0x90, 36, 127]);
+    expect(onTrigger).toHaveBeenCalledWith(3, 1);
+  });
+
+  it('aprende un CC como CC', () => {
+    const { send, controller, onMappingsChange } = setup();
+    controller.startLearn(20);
+    send([0xbf, 7, 50]);
+    expect(onMappingsChange).toHaveBeenCalledWith([{ padId: 20, type: 'cc', channel: 16, number: 7 }]);
+  });
+
+  it('escucha las entradas conectadas después y se desconecta al liberar', () => {
+    const { access, inputs, send, controller, onTrigger } = setup([{ padId: 1, type: 'note', channel: 1, number: 60 }]);
+    inputs.push({ id: 'in-nuevo', name: 'Nuevo', onmidimessage: null });
+    access.onstatechange?.({});
+    send([0x90, 60, 127], 1);
+    expect(onTrigger).toHaveBeenCalledWith(1, 1);
+
+    controller.dispose();
+    expect(access.onstatechange).toBeNull();
+    expect(inputs.every(input => input.onmidimessage === null)).toBe(true);
+  });
+});
@@ -0,0 +1,135 @@
+import { MidiMapping } from '../types';
+import { isFiniteNumber, isListOf, isRecord } from './guards';
+
+// Subconjunto de la Web MIDI API que usamos. Cualquier objeto con esta forma sirve,
+// lo que permite probar el controlador con un acceso MIDI falso.
+export interface MidiInputLike {
+  id: string;
+  name?: string | null;
+  onmidimessage: ((event: { data: Uint8Array | null }) => void) | null;
+}
+
+export interface MidiAccessLike {
+  inputs: { forEach: (callback: (input: MidiInputLike) => void) => void };
+  onstatechange: ((event: unknown) => void) | null;
+}
+
+export interface MidiMessage {
+  type: 'noteon' | 'noteoff' | 'cc';
+  channel: number;    // 1..16
+  number: number;     // Nota o número de CC
+  value: number;      // Velocidad o valor del CC, 0..127
+}
+
+interface MidiControllerOptions {
+  mappings: MidiMapping[];
+  onTrigger: (padId: number, velocity: number) => void;
+  onRelease?: (padId: number) => void;
+  onMappingsChange: (mappings: MidiMapping[]) => void;
+  onLearnChange?: (padId: number | null) => void;
+  onInputsChange?: (names: string[]) => void;
+}
+
+export const isMidiSupported = () => typeof navigator !== 'undefined' && 'requestMIDIAccess' in navigator;
+
+export const requestMidiAccess = async (): Promise<MidiAccessLike> => {
+  if (!isMidiSupported()) {
+    throw new Error("Este navegador no soporta Web MIDI.");
+  }
+  return navigator.requestMIDIAccess();
+};
+
+export const parseMidiMessage = (data: Uint8Array | null): MidiMessage | null => {
+  if (!data || data.length < 3) return null;
+  const status = data[0] & 0xf0;
+  const channel = (data[0] & 0x0f) + 1;
+  const [, number, value] = data;
+
+  // Una nota con velocidad 0 equivale a soltarla
+  if (status === 0x90) return { type: value > 0 ? 'noteon' : 'noteoff', channel, number, value };
+  if (status === 0x80) return { type: 'noteoff', channel, number, value };
+  if (status === 0xb0) return { type: 'cc', channel, number, value };
+  return null;
+};
+
+export const isMidiMapping = (value: unknown): value is MidiMapping =>
+  isRecord(value) && isFiniteNumber(value.padId) && (value.type === 'note' || value.type === 'cc')
+  && isFiniteNumber(value.channel) && isFiniteNumber(value.number);
+
+export const isMidiMappingList = (value: unknown): value is MidiMapping[] => isListOf(value, isMidiMapping);
+
+export const describeMapping = (mapping: MidiMapping) =>
+  `${mapping.type === 'note' ? 'NOTA' : 'CC'} ${mapping.number} • CH${mapping.channel}`;
+
+const matches = (mapping: MidiMapping, message: MidiMessage) =>
+  mapping.channel === message.channel &&
+  mapping.number === message.number &&
+  (mapping.type === 'note' ? message.type !== 'cc' : message.type === 'cc');
+
+// Soltar la nota, o un botón CC que vuelve a 0, termina la pulsación (modos gate y bucle)
+const isRelease = (message: MidiMessage) =>
+  message.type === 'noteoff' || (message.type === 'cc' && message.value === 0);
+
+export const createMidiController = (access: MidiAccessLike, options: MidiControllerOptions) => {
+  let mappings = options.mappings;
+  let learningPadId: number | null = null;
+
+  const setLearning = (padId: number | null) => {
+    learningPadId = padId;
+    if (options.onLearnChange) options.onLearnChange(padId);
+  };
+
+  const handleMessage = (message: MidiMessage) => {
+    if (learningPadId !== null) {
+      if (isRelease(message)) return;
+      const mapping: MidiMapping = {
+        padId: learningPadId,
+        type: message.type === 'cc' ? 'cc' : 'note',
+        channel: message.channel,
+        number: message.number,
+      };
+      // Un control solo dispara un pad, y cada pad tiene un único control asignado
+      mappings = [
+        ...mappings.filter(m => m.padId !== mapping.padId && !(m.type === mapping.type && m.channel === mapping.channel && m.number === mapping.number)),
+        mapping,
+      ];
+      options.onMappingsChange(mappings);
+      setLearning(null);
+      return;
+    }
+
+    const matching = mappings.filter(m => matches(m, message));
+    if (isRelease(message)) {
+      const { onRelease } = options;
+      if (onRelease) matching.forEach(m => onRelease(m.padId));
+      return;
+    }
+    matching.forEach(m => options.onTrigger(m.padId, message.value / 127));
+  };
+
+  const attachInputs = () => {
+    const names: string[] = [];
+    access.inputs.forEach(input => {
+      names.push(input.name || input.id);
+      input.onmidimessage = (event) => {
+        const message = parseMidiMessage(event.data);
+        if (message) handleMessage(message);
+      };
+    });
+    if (options.onInputsChange) options.onInputsChange(names);
+  };
+
+  attachInputs();
+  // Los controladores conectados en caliente también quedan escuchando
+  access.onstatechange = () => attachInputs();
+
+  return {
+    startLearn: (padId: number) => setLearning(padId),
+    cancelLearn: () => setLearning(null),
+    setMappings: (next: MidiMapping[]) => { mappings = next; },
+    dispose: () => {
+      access.onstatechange = null;
+      access.inputs.forEach(input => { input.onmidimessage = null; });
+    },
+  };
+};
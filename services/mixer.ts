@@ -0,0 +1,52 @@
+import { MasterSettings, MixerSettings } from '../types';
+import { isNumberList, isRecord } from './guards';
+
+// Los valores del compresor son los que el bus maestro tenía fijos antes del mezclador
+export const DEFAULT_MASTER: MasterSettings = {
+  gain: 1,
+  eq: { low: 0, mid: 0, high: 0 },
+  compressor: { threshold: -12, knee: 30, ratio: 12, attack: 0.003, release: 0.25 },
+  limiter: false,
+};
+
+export const DEFAULT_MIXER: MixerSettings = { master: DEFAULT_MASTER, mutes: [], solos: [] };
+
+export const MAX_MASTER_GAIN = 1.5;
+export const EQ_RANGE = 12;
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+// Rangos admitidos por DynamicsCompressorNode
+export const normalizeMaster = (master?: Partial<MasterSettings> | null): MasterSettings => ({
+  gain: clamp(master?.gain ?? DEFAULT_MASTER.gain, 0, MAX_MASTER_GAIN),
+  eq: {
+    low: clamp(master?.eq?.low ?? 0, -EQ_RANGE, EQ_RANGE),
+    mid: clamp(master?.eq?.mid ?? 0, -EQ_RANGE, EQ_RANGE),
+    high: clamp(master?.eq?.high ?? 0, -EQ_RANGE, EQ_RANGE),
+  },
+  compressor: {
+    threshold: clamp(master?.compressor?.threshold ?? DEFAULT_MASTER.compressor.threshold, -60, 0),
+    knee: clamp(master?.compressor?.knee ?? DEFAULT_MASTER.compressor.knee, 0, 40),
+    ratio: clamp(master?.compressor?.ratio ?? DEFAULT_MASTER.compressor.ratio, 1, 20),
+    attack: clamp(master?.compressor?.attack ?? DEFAULT_MASTER.compressor.attack, 0, 1),
+    release: clamp(master?.compressor?.release ?? DEFAULT_MASTER.compressor.release, 0, 1),
+  },
+  limiter: master?.limiter ?? DEFAULT_MASTER.limiter,
+});
+
+// Solo la forma: los valores del máster los ajusta normalizeMixer
+export const isMixerSettings = (value: unknown): value is MixerSettings =>
+  isRecord(value) && isRecord(value.master) && isNumberList(value.mutes) && isNumberList(value.solos);
+
+export const normalizeMixer = (mixer?: Partial<MixerSettings> | null): MixerSettings => ({
+  master: normalizeMaster(mixer?.master),
+  mutes: mixer?.mutes ?? [],
+  solos: mixer?.solos ?? [],
+});
+
+// Un pad suena si no está silenciado y, cuando hay solos, si es uno de ellos
+export const isPadAudible = (mixer: MixerSettings, padId: number) =>
+  !mixer.mutes.includes(padId) && (mixer.solos.length === 0 || mixer.solos.includes(padId));
+
+// dBFS para el medidor; por debajo de -60 dB se considera silencio
+export const toDecibels = (level: number) => level > 0 ? Math.max(-60, 20 * Math.log10(level)) : -60;
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { detectOnsets } from './onsets';
+
+const SAMPLE_RATE = 44100;
+
+// Ruido blanco reproducible (LCG) para que los resultados no dependan de Math.random
+const createNoise = (length: number, amplitude: number, seed = 1) => {
+  const data = new Float32Array(length);
+  let state = seed;
+  for (let i = 0; i < length; i++) {
+    state = (state * 1664525 + 1013904223) >>> 0;
+    data[i] = (state / 0xffffffff * 2 - 1) * amplitude;
+  }
+  return data;
+};
+
+// Golpe percusivo: seno de 220 Hz con caída exponencial
+const addHit = (data: Float32Array, time: number, amplitude: number) => {
+  const start = Math.round(time * SAMPLE_RATE);
+  const length = Math.round(0.15 * SAMPLE_RATE);
+  for (let i = 0; i < length && start + i < data.length; i++) {
+    const t = i / SAMPLE_RATE;
+    data[start + i] += amplitude * Math.sin(2 * Math.PI * 220 * t) * Math.exp(-t / 0.04);
+  }
+};
+
+const createBuffer = (duration: number, hits: { time: number; amplitude: number }[], noise = 0.1) => {
+  const data = createNoise(Math.round(duration * SAMPLE_RATE), noise);
+  hits.forEach(hit => addHit(data, hit.time, hit.amplitude));
+  return [data];
+};
+
+const detectTimes = (channels: Float32Array[], sensitivity?: number) =>
+  detectOnsets(channels, SAMPLE_RATE, { sensitivity }).map(onset => onset.time);
+
+const expectHits = (times: number[], expected: number[]) => {
+  expect(times).toHaveLength(expected.length);
+  expected.forEach((time, i) => expect(times[i]).toBeCloseTo(time, 2));
+};
+
+describe('detectOnsets', () => {
+  it('encuentra dos golpes iguales sobre ruido', () => {
+    const hits = [0.5, 1.2].map(time => ({ time, amplitude: 0.5 }));
+    expectHits(detectTimes(createBuffer(2, hits)), [0.5, 1.2]);
+  });
+
+  it('encuentra golpes iguales sea cual sea su posición respecto a las tramas', () => {
+    const hits = [0.3, 0.9, 1.5].map(time => ({ time, amplitude: 0.5 }));
+    expectHits(detectTimes(createBuffer(2, hits)), [0.3, 0.9, 1.5]);
+    const shifted = [0.3013, 0.9071, 1.5029].map(time => ({ time, amplitude: 0.5 }));
+    expectHits(detectTimes(createBuffer(2, shifted)), [0.3013, 0.9071, 1.5029]);
+  });
+
+  it('encuentra un golpe cerca del principio', () => {
+    expectHits(detectTimes(createBuffer(1, [{ time: 0.05, amplitude: 0.5 }])), [0.05]);
+  });
+
+  it('encuentra golpes suaves en un clip silencioso', () => {
+    const hits = [0.4, 1.1].map(time => ({ time, amplitude: 0.05 }));
+    expectHits(detectTimes(createBuffer(1.6, hits, 0.001)), [0.4, 1.1]);
+  });
+
+  it('no inventa ataques en ruido constante', () => {
+    expect(detectTimes(createBuffer(2, []))).toEqual([]);
+  });
+
+  it('la sensibilidad decide si cuentan los golpes suaves', () => {
+    const channels = createBuffer(2.4, [
+      { time: 0.3, amplitude: 0.8 },
+      { time: 1.0, amplitude: 0.8 },
+      { time: 1.7, amplitude: 0.2 },
+    ]);
+    expectHits(detectTimes(channels, 0.3), [0.3, 1.0]);
+    expectHits(detectTimes(channels, 0.9), [0.3, 1.0, 1.7]);
+  });
+
+  it('con sensibilidad baja sigue encontrando golpes claros', () => {
+    const hits = [0.5, 1.2].map(time => ({ time, amplitude: 0.5 }));
+    expectHits(detectTimes(createBuffer(2, hits), 0.3), [0.5, 1.2]);
+  });
+
+  it('suma los canales: un golpe en un solo lado también cuenta', () => {
+    const left = createNoise(SAMPLE_RATE, 0.01, 1);
+    const right = createNoise(SAMPLE_RATE, 0.01, 2);
+    addHit(right, 0.6, 0.5);
+    expectHits(detectTimes([left, right]), [0.6]);
+  });
+});
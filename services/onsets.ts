@@ -0,0 +1,124 @@
+// Detector de ataques por diferencia de energía con suelo de ruido adaptativo.
+// Trabaja sobre los datos de canal en crudo para poder probarlo con buffers sintéticos.
+
+export interface Onset {
+  time: number;        // Segundos, ajustado a la muestra en la que empieza el ataque
+  confidence: number;  // 0..1
+}
+
+export interface OnsetOptions {
+  sensitivity?: number;  // 0..1; más alto detecta ataques más suaves
+  minGap?: number;       // Separación mínima entre ataques, en segundos
+}
+
+export const DEFAULT_SENSITIVITY = 0.5;
+// Margen que se deja antes de un ataque al colocar un inicio de clip
+export const ONSET_PRE_ROLL = 0.01;
+
+const HOP = 256;
+const MEDIAN_RADIUS = 8;   // Tramas a cada lado para el umbral adaptativo
+const PEAK_RADIUS = 3;
+const SILENCE_DB = -100;
+const NOISE_PERCENTILE = 0.1;
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+const toDb = (amplitude: number) => Math.max(SILENCE_DB, 20 * Math.log10(amplitude || 1e-10));
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+// Pico por trama sumando todos los canales: un golpe en un solo lado también cuenta. Con el pico,
+// y no la energía media, un ataque pesa lo mismo caiga al principio o al final de la trama
+const framePeaks = (channels: Float32Array[], length: number) => {
+  const peaks: number[] = [];
+  for (let start = 0; start + HOP <= length; start += HOP) {
+    let peak = 0;
+    for (const data of channels) {
+      for (let i = start; i < start + HOP; i++) peak = Math.max(peak, Math.abs(data[i]));
+    }
+    peaks.push(peak);
+  }
+  return peaks;
+};
+
+// Dentro de la zona del ataque, la primera muestra que supera una fracción del pico
+const refineOnset = (channels: Float32Array[], from: number, to: number, noisePeak: number) => {
+  let peak = 0;
+  for (const data of channels) {
+    for (let i = from; i < to; i++) peak = Math.max(peak, Math.abs(data[i]));
+  }
+  const threshold = Math.max(peak * 0.2, noisePeak * 1.2);
+  for (let i = from; i < to; i++) {
+    if (channels.some(data => Math.abs(data[i]) >= threshold)) return i;
+  }
+  return from;
+};
+
+export const detectOnsets = (channels: Float32Array[], sampleRate: number, options: OnsetOptions = {}): Onset[] => {
+  const length = Math.min(...channels.map(c => c.length));
+  if (channels.length === 0 || length < HOP * 6) return [];
+
+  const sensitivity = clamp(options.sensitivity ?? DEFAULT_SENSITIVITY, 0, 1);
+  const minGap = options.minGap ?? 0.05;
+  // A más sensibilidad, menos margen sobre el ruido y sobre la mediana local
+  const gateDb = 12 - 8 * sensitivity;
+  const deltaDb = 6 - 3 * sensitivity;
+
+  const peaks = framePeaks(channels, length);
+  const levels = peaks.map(toDb);
+
+  // Suelo de ruido: percentil bajo del pico de las tramas
+  const sortedLevels = [...levels].sort((a, b) => a - b);
+  const noiseFloor = sortedLevels[Math.floor(sortedLevels.length * NOISE_PERCENTILE)];
+  const noisePeak = Math.pow(10, noiseFloor / 20);
+
+  // Función de detección: subida en dB respecto a dos tramas antes, para que un ataque partido
+  // entre dos tramas cuente entero. Antes del principio se supone el suelo de ruido, así un
+  // golpe al arrancar el clip también sube
+  const levelAt = (n: number) => n < 0 ? noiseFloor : levels[n];
+  const flux = levels.map((level, n) => Math.max(0, level - levelAt(n - 2)));
+
+  // La mediana móvil se siembra con la del clip entero: al principio no hay tramas anteriores
+  // y la ventana, medio vacía, la dominarían los propios ataques
+  const seed = median(flux);
+  const localMedian = (n: number) => median(
+    Array.from({ length: MEDIAN_RADIUS * 2 + 1 }, (_, k) => flux[n - MEDIAN_RADIUS + k] ?? seed)
+  );
+
+  const candidates: { frame: number; excess: number }[] = [];
+  for (let n = 0; n < flux.length; n++) {
+    if (levels[n] < noiseFloor + gateDb) continue;
+
+    const threshold = localMedian(n) + deltaDb;
+    if (flux[n] < threshold) continue;
+
+    let isPeak = true;
+    for (let k = Math.max(0, n - PEAK_RADIUS); k <= Math.min(flux.length - 1, n + PEAK_RADIUS); k++) {
+      if (flux[k] > flux[n] || (flux[k] === flux[n] && k < n)) { isPeak = false; break; }
+    }
+    if (isPeak) candidates.push({ frame: n, excess: flux[n] - threshold });
+  }
+  if (candidates.length === 0) return [];
+
+  const maxExcess = Math.max(...candidates.map(c => c.excess)) || 1;
+  const onsets: Onset[] = [];
+  for (const { frame, excess } of candidates) {
+    const sample = refineOnset(channels, Math.max(0, (frame - 1) * HOP), Math.min(length, (frame + 1) * HOP), noisePeak);
+    const time = sample / sampleRate;
+    if (onsets.length > 0 && time - onsets[onsets.length - 1].time < minGap) continue;
+    // Mitad relativa al ataque más fuerte del clip, mitad absoluta (12 dB sobre el umbral = máxima)
+    const confidence = 0.5 * (excess / maxExcess) + 0.5 * clamp(excess / 12, 0, 1);
+    onsets.push({ time, confidence: clamp(confidence, 0, 1) });
+  }
+  return onsets;
+};
+
+export const detectBufferOnsets = (buffer: AudioBuffer, options?: OnsetOptions) =>
+  detectOnsets(
+    Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c)),
+    buffer.sampleRate,
+    options
+  );
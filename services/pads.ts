@@ -0,0 +1,87 @@
+import { ChromaticSettings, PadTriggerEvent, PadTriggerOptions } from '../types';
+import { getBankOf, getPadNumber } from './banks';
+import { getScaleOffset } from './pitch';
+
+// Registro de pads: cada GridCell montado publica cómo dispararlo y cómo silenciarlo
+// para que el secuenciador, el teclado o MIDI puedan tocar pads sin un evento de puntero.
+interface PadHandle {
+  trigger: (options?: PadTriggerOptions) => void;
+  release: () => void;
+  stop: (when?: number) => void;
+  getChokeGroup: () => number;
+}
+
+const handles = new Map<number, PadHandle>();
+
+export const registerPad = (id: number, handle: PadHandle) => {
+  handles.set(id, handle);
+  return () => {
+    if (handles.get(id) === handle) handles.delete(id);
+  };
+};
+
+// En modo cromático los pads del banco elegido disparan el pad origen transpuesto.
+// Un disparo que ya trae `transpose` (reproducción de tomas) no se vuelve a desviar.
+let chromatic: ChromaticSettings | null = null;
+
+export const setChromatic = (settings: ChromaticSettings | null) => {
+  chromatic = settings;
+};
+
+const isChromaticPad = (id: number) => !!chromatic && getBankOf(id) === chromatic.bank;
+
+export const triggerPad = (id: number, options: PadTriggerOptions = {}) => {
+  if (chromatic && isChromaticPad(id) && options.transpose === undefined) {
+    const handle = handles.get(chromatic.sourceId);
+    if (handle) handle.trigger({ ...options, allowOverlap: true, transpose: getScaleOffset(chromatic.scale, getPadNumber(id)) });
+    return;
+  }
+  const handle = handles.get(id);
+  if (handle) handle.trigger(options);
+};
+
+// Fin de la pulsación para los modos gate y bucle
+export const releasePad = (id: number) => {
+  const handle = handles.get(chromatic && isChromaticPad(id) ? chromatic.sourceId : id);
+  if (handle) handle.release();
+};
+
+// Silencia, en el instante indicado, al resto de pads del mismo grupo de choke
+export const chokeGroup = (group: number, exceptId: number, when?: number) => {
+  if (!group) return;
+  handles.forEach((handle, id) => {
+    if (id !== exceptId && handle.getChokeGroup() === group) handle.stop(when);
+  });
+};
+
+// Pánico: corta todas las fuentes que estén sonando o programadas
+export const stopAllPads = () => {
+  handles.forEach(handle => handle.stop());
+};
+
+// Los pads también publican su <video> y cada disparo efectivo, para que el
+// render de actuaciones pueda componer la rejilla sin tocar el DOM
+type PadTriggerListener = (event: PadTriggerEvent) => void;
+
+const videos = new Map<number, HTMLVideoElement>();
+const listeners = new Set<PadTriggerListener>();
+
+export const registerPadVideo = (id: number, video: HTMLVideoElement) => {
+  videos.set(id, video);
+  return () => {
+    if (videos.get(id) === video) videos.delete(id);
+  };
+};
+
+export const getPadVideo = (id: number) => videos.get(id) || null;
+
+export const onPadTrigger = (listener: PadTriggerListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const emitPadTrigger = (event: PadTriggerEvent) => {
+  listeners.forEach(listener => listener(event));
+};
@@ -0,0 +1,177 @@
+import { PadCell, PadTriggerEvent } from '../types';
+import { getAudioContext, getMasterStream } from './audio';
+import { getPadVideo, onPadTrigger } from './pads';
+import { getRecorderOptions } from './media';
+import { drawTransformed } from './transform';
+import { PADS_PER_BANK, getBankOf, getPadNumber } from './banks';
+
+const FPS = 30;
+const CELL_SIZE = 240;
+const GAP = 8;
+const COLUMNS = 3;
+
+export interface PerformanceResult {
+  blob: Blob;
+  events: PadTriggerEvent[];  // Tiempos relativos al inicio de la actuación
+  duration: number;
+}
+
+// Imágenes de los clips solo de audio, cargadas una vez por URL
+const posterImages = new Map<string, HTMLImageElement>();
+
+const getPosterImage = (url: string) => {
+  let image = posterImages.get(url);
+  if (!image) {
+    image = new Image();
+    image.src = url;
+    posterImages.set(url, image);
+  }
+  return image;
+};
+
+// Dibuja un vídeo con el recorte de object-cover y el PadTransform del pad
+const drawPadVideo = (ctx: CanvasRenderingContext2D, video: HTMLVideoElement, cell: PadCell, x: number, y: number) => {
+  // Sin imagen de vídeo (clip solo de audio) se dibuja su póster
+  const poster = !video.videoWidth && cell.posterUrl ? getPosterImage(cell.posterUrl) : null;
+  const vw = poster ? poster.naturalWidth : video.videoWidth;
+  const vh = poster ? poster.naturalHeight : video.videoHeight;
+  if (!vw || !vh) return;
+  drawTransformed(ctx, poster || video, vw, vh, cell.transform, x, y, CELL_SIZE);
+};
+
+const roundedRect = (ctx: CanvasRenderingContext2D, x: number, y: number, w: number, h: number, r: number) => {
+  ctx.beginPath();
+  ctx.roundRect(x, y, w, h, r);
+};
+
+const isSounding = (trigger: PadTriggerEvent | undefined, now: number): trigger is PadTriggerEvent =>
+  !!trigger && now >= trigger.time && now <= trigger.time + trigger.duration;
+
+// getCells da los pads de todos los bancos: el secuenciador, las tomas y MIDI tocan pads de
+// cualquier banco, no solo del que está en pantalla
+export const createPerformanceRenderer = (getCells: () => PadCell[], getBank: () => string) => {
+  let recorder: MediaRecorder | null = null;
+  let frameId: number | null = null;
+  let unsubscribe: (() => void) | null = null;
+  let startedAt = 0;
+  let chunks: Blob[] = [];
+  let events: PadTriggerEvent[] = [];
+  // Último disparo de cada pad, para dibujar el destello mientras suena
+  const lastTriggers = new Map<number, PadTriggerEvent>();
+
+  const canvas = document.createElement('canvas');
+
+  const drawFrame = () => {
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    const cells = getCells();
+    const bank = getBank();
+    const rows = Math.ceil(PADS_PER_BANK / COLUMNS);
+    const width = COLUMNS * CELL_SIZE + (COLUMNS + 1) * GAP;
+    const height = rows * CELL_SIZE + (rows + 1) * GAP;
+    if (canvas.width !== width || canvas.height !== height) {
+      canvas.width = width;
+      canvas.height = height;
+    }
+
+    const now = getAudioContext().currentTime;
+    ctx.fillStyle = '#030712';
+    ctx.fillRect(0, 0, width, height);
+
+    // Cada hueco muestra el pad del banco en pantalla, salvo que esté sonando uno de otro
+    // banco con el mismo número: entonces manda el disparo más reciente
+    const slots = new Map<number, PadCell>();
+    cells.forEach(cell => {
+      if (getBankOf(cell.id) === bank && !slots.has(getPadNumber(cell.id))) slots.set(getPadNumber(cell.id), cell);
+    });
+    cells.forEach(cell => {
+      const trigger = lastTriggers.get(cell.id);
+      if (!isSounding(trigger, now)) return;
+      const current = slots.get(getPadNumber(cell.id));
+      const currentTrigger = current ? lastTriggers.get(current.id) : undefined;
+      if (!isSounding(currentTrigger, now) || trigger.time > currentTrigger.time) slots.set(getPadNumber(cell.id), cell);
+    });
+
+    slots.forEach((cell, padNumber) => {
+      const i = padNumber - 1;
+      const x = GAP + (i % COLUMNS) * (CELL_SIZE + GAP);
+      const y = GAP + Math.floor(i / COLUMNS) * (CELL_SIZE + GAP);
+
+      ctx.save();
+      roundedRect(ctx, x, y, CELL_SIZE, CELL_SIZE, 16);
+      ctx.fillStyle = cell.isEmpty ? '#111827' : '#000000';
+      ctx.fill();
+      ctx.clip();
+
+      const video = cell.isEmpty ? null : getPadVideo(cell.id);
+      if (video) drawPadVideo(ctx, video, cell, x, y);
+
+      const trigger = lastTriggers.get(cell.id);
+      const isPlaying = isSounding(trigger, now);
+      if (isPlaying) {
+        const intensity = Math.min(1, (trigger.volume / 10) * trigger.velocity * 2);
+        const gradient = ctx.createLinearGradient(0, y + CELL_SIZE, 0, y);
+        gradient.addColorStop(0, `rgba(236, 72, 153, ${0.3 * intensity})`);
+        gradient.addColorStop(1, 'rgba(236, 72, 153, 0)');
+        ctx.fillStyle = gradient;
+        ctx.fillRect(x, y, CELL_SIZE, CELL_SIZE);
+      }
+      ctx.restore();
+
+      if (isPlaying) {
+        roundedRect(ctx, x + 2, y + 2, CELL_SIZE - 4, CELL_SIZE - 4, 14);
+        ctx.lineWidth = 4;
+        ctx.strokeStyle = 'rgba(244, 114, 182, 0.9)';
+        ctx.stroke();
+      }
+    });
+
+    frameId = requestAnimationFrame(drawFrame);
+  };
+
+  const start = () => {
+    if (recorder) return;
+    chunks = [];
+    events = [];
+    lastTriggers.clear();
+    startedAt = getAudioContext().currentTime;
+
+    unsubscribe = onPadTrigger((event) => {
+      lastTriggers.set(event.padId, event);
+      events.push({ ...event, time: Math.max(0, event.time - startedAt) });
+    });
+
+    drawFrame();
+    const stream = canvas.captureStream(FPS);
+    getMasterStream().getAudioTracks().forEach(track => stream.addTrack(track));
+
+    const options = getRecorderOptions();
+    recorder = new MediaRecorder(stream, options);
+    recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) chunks.push(e.data);
+    };
+    recorder.start(1000);
+  };
+
+  const stop = () => new Promise<PerformanceResult>((resolve, reject) => {
+    const active = recorder;
+    if (!active) {
+      reject(new Error("No hay ninguna actuación en curso."));
+      return;
+    }
+    const duration = getAudioContext().currentTime - startedAt;
+    active.onstop = () => {
+      const blob = new Blob(chunks, { type: active.mimeType || 'video/webm' });
+      active.stream.getVideoTracks().forEach(track => track.stop());
+      resolve({ blob, events, duration });
+    };
+    if (frameId !== null) cancelAnimationFrame(frameId);
+    frameId = null;
+    if (unsubscribe) unsubscribe();
+    unsubscribe = null;
+    recorder = null;
+    active.stop();
+  });
+
+  return { start, stop, isActive: () => recorder !== null };
+};
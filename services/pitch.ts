@@ -0,0 +1,47 @@
+import { ChromaticSettings, PadPitch } from '../types';
+import { BANKS } from './banks';
+import { isFiniteNumber, isRecord, isString } from './guards';
+
+export const DEFAULT_PITCH: PadPitch = { semitones: 0, cents: 0, rate: 1 };
+
+export const SEMITONE_RANGE = 24;
+export const CENTS_RANGE = 50;
+export const MIN_RATE = 0.5;
+export const MAX_RATE = 2;
+
+// Rango que los navegadores aceptan en HTMLMediaElement.playbackRate sin silenciar el vídeo
+const MIN_VIDEO_RATE = 0.25;
+const MAX_VIDEO_RATE = 4;
+
+export const SCALES: { id: string; label: string; degrees: number[] }[] = [
+  { id: 'chromatic', label: 'Cromática', degrees: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11] },
+  { id: 'major', label: 'Mayor', degrees: [0, 2, 4, 5, 7, 9, 11] },
+  { id: 'minor', label: 'Menor', degrees: [0, 2, 3, 5, 7, 8, 10] },
+  { id: 'pentatonic', label: 'Pentatónica', degrees: [0, 2, 4, 7, 9] },
+];
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+export const normalizePitch = (pitch?: Partial<PadPitch> | null): PadPitch => ({
+  semitones: clamp(Math.round(pitch?.semitones ?? 0), -SEMITONE_RANGE, SEMITONE_RANGE),
+  cents: clamp(Math.round(pitch?.cents ?? 0), -CENTS_RANGE, CENTS_RANGE),
+  rate: clamp(pitch?.rate ?? 1, MIN_RATE, MAX_RATE),
+});
+
+// Factor de velocidad total: el ajuste fino multiplica a la transposición en semitonos y cents
+export const getPlaybackRate = (pitch: PadPitch, transpose = 0) =>
+  pitch.rate * Math.pow(2, (pitch.semitones + transpose + pitch.cents / 100) / 12);
+
+export const toVideoRate = (rate: number) => clamp(rate, MIN_VIDEO_RATE, MAX_VIDEO_RATE);
+
+// Semitonos del pad número `pad` (1..12) en la escala: al acabar los grados se sube de octava
+export const getScaleOffset = (scaleId: string, pad: number) => {
+  const degrees = (SCALES.find(s => s.id === scaleId) || SCALES[0]).degrees;
+  const index = pad - 1;
+  return degrees[index % degrees.length] + 12 * Math.floor(index / degrees.length);
+};
+
+export const isChromaticSettings = (value: unknown): value is ChromaticSettings =>
+  isRecord(value) && isFiniteNumber(value.sourceId) && isString(value.bank) && BANKS.includes(value.bank) && isString(value.scale);
+
+export const formatSemitones = (value: number) => value > 0 ? `+${value}` : `${value}`;
@@ -0,0 +1,47 @@
+import { PadPlayback, PlayMode } from '../types';
+
+export const DEFAULT_PLAYBACK: PadPlayback = { mode: 'oneshot', reverse: false, chokeGroup: 0 };
+
+export const PLAY_MODES: { mode: PlayMode; label: string }[] = [
+  { mode: 'oneshot', label: 'One-shot' },
+  { mode: 'gate', label: 'Gate' },
+  { mode: 'loop', label: 'Bucle' },
+  { mode: 'toggle', label: 'Alternar' },
+];
+
+export const CHOKE_GROUPS = 4;
+
+export const getNextPlayMode = (mode: PlayMode): PlayMode => {
+  const index = PLAY_MODES.findIndex(m => m.mode === mode);
+  return PLAY_MODES[(index + 1) % PLAY_MODES.length].mode;
+};
+
+export const getPlayModeLabel = (mode: PlayMode) => PLAY_MODES.find(m => m.mode === mode)?.label || mode;
+
+// Gate y bucle dependen de que llegue el aviso de soltar
+export const isHeldMode = (mode: PlayMode) => mode === 'gate' || mode === 'loop';
+
+export const isLoopMode = (mode: PlayMode) => mode === 'loop' || mode === 'toggle';
+
+// Los clips guardados antes de los modos de reproducción no traen el campo
+export const normalizePlayback = (playback?: Partial<PadPlayback> | null): PadPlayback => ({
+  ...DEFAULT_PLAYBACK,
+  ...playback,
+  chokeGroup: Math.max(0, Math.min(CHOKE_GROUPS, Math.round(playback?.chokeGroup ?? 0))),
+});
+
+// El buffer invertido se calcula una sola vez por buffer decodificado
+const reversedBuffers = new WeakMap<AudioBuffer, AudioBuffer>();
+
+export const getReversedBuffer = (ctx: BaseAudioContext, buffer: AudioBuffer) => {
+  const cached = reversedBuffers.get(buffer);
+  if (cached) return cached;
+
+  const reversed = ctx.createBuffer(buffer.numberOfChannels, buffer.length, buffer.sampleRate);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel).slice().reverse();
+    reversed.copyToChannel(data, channel);
+  }
+  reversedBuffers.set(buffer, reversed);
+  return reversed;
+};
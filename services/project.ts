@@ -1,129 +1,211 @@
 
-import JSZip from 'jszip';
-import { getAllClips, saveClip, deleteClip } from './db';
-
-interface ClipMetadata {
-  id: number;
-  startTime: number;
-  endTime: number;
-  volume: number;
-  filename: string;
-  mimeType: string;
-  allowOverlap?: boolean;
-  transform?: { scale: number; x: number; y: number; rotation: number };
-}
-
-interface ProjectFile {
-  projectName: string;
-  version: number;
-  timestamp: number;
-  clips: ClipMetadata[];
-}
-
-export const exportProject = async (projectName: string): Promise<void> => {
-  const zip = new JSZip();
-  const clips = await getAllClips();
-  
-  if (clips.length === 0) {
+import { getClipIds, getClipRecord, getMediaBlob, saveClip, saveMedia, SharedMedia, getAllPatterns, savePattern, getSetting, saveSetting, getAllTakes, saveTake, createProject, deleteProject } from './db';
+import { DEFAULT_SEQUENCER_SETTINGS, isSequencerSettings } from './sequencer';
+import { getExtensionForMime, openFileSink, toSafeFileName } from './media';
+import { getBankOf, getPadLabel, getPadNumber } from './banks';
+import { ProjectInfo } from '../types';
+import { ImportReport, LEGACY_MANIFEST_FILE, MANIFEST_FILE, MANIFEST_VERSION, ProjectFile, parseManifest } from './manifest';
+import { normalizePlayback } from './playback';
+import { isChromaticSettings, normalizePitch } from './pitch';
+import { normalizeFx } from './fx';
+import { isMixerSettings, normalizeMixer } from './mixer';
+import { normalizeEnvelope } from './envelope';
+import { ZipEntry, createZipWriter, readZip } from './zip';
+import { isMidiMappingList } from './midi';
+import { isKeyMap } from './keyboard';
+
+export type TransferProgress = (done: number, total: number) => void;
+
+// Cancelar (o cerrar el selector de archivo sin elegir) llega como AbortError
+export const isAbortError = (e: unknown) => e instanceof DOMException && e.name === 'AbortError';
+
+// Clip a clip: cada medio se lee de la base de datos y se escribe en el ZIP antes de pasar al
+// siguiente, así los proyectos grandes no agotan la memoria en móviles
+export const exportProject = async (projectName: string, onProgress?: TransferProgress, signal?: AbortSignal): Promise<void> => {
+  const clipIds = await getClipIds();
+  if (clipIds.length === 0) {
     throw new Error("No hay clips para exportar.");
   }
 
-  const metadata: ProjectFile = {
-    projectName: projectName || "Untitled Project",
-    version: 4, 
-    timestamp: Date.now(),
-    clips: [],
-  };
+  const sink = await openFileSink(`${toSafeFileName(projectName, 'proyecto_videopad')}.zip`, 'application/zip', 'Proyecto VideoPad');
+  try {
+    signal?.throwIfAborted();
+    const metadata: ProjectFile = {
+      projectName: projectName || "Untitled Project",
+      version: MANIFEST_VERSION,
+      timestamp: Date.now(),
+      clips: [],
+    };
+
+    const sequencerSettings = await getSetting('sequencer', isSequencerSettings);
+    const patterns = await getAllPatterns();
+    if (sequencerSettings || patterns.length > 0) {
+      metadata.sequencer = {
+        settings: sequencerSettings || DEFAULT_SEQUENCER_SETTINGS,
+        patterns,
+      };
+    }
 
-  const videoFolder = zip.folder("video_assets");
+    const takes = await getAllTakes();
+    if (takes.length > 0) metadata.takes = takes;
+
+    const midiMappings = await getSetting('midiMappings', isMidiMappingList);
+    if (midiMappings && midiMappings.length > 0) metadata.midi = midiMappings;
+
+    const keyMap = await getSetting('keyMap', isKeyMap);
+    if (keyMap) metadata.keyMap = keyMap;
+
+    const chromatic = await getSetting('chromatic', isChromaticSettings);
+    if (chromatic) metadata.chromatic = chromatic;
+
+    const mixer = await getSetting('mixer', isMixerSettings);
+    if (mixer) metadata.mixer = mixer;
+
+    const zip = createZipWriter(sink.write, sink.keepsBlobs);
+    // Los medios compartidos (tomas troceadas) se escriben una sola vez
+    const sharedFiles = new Map<string, string>();
+
+    for (const [index, id] of clipIds.entries()) {
+      signal?.throwIfAborted();
+      onProgress?.(index, clipIds.length);
+      const clip = await getClipRecord(id);
+      if (!clip) continue;
+      const shared: string | undefined = clip.mediaId ? sharedFiles.get(clip.mediaId) : undefined;
+      const blob: Blob | null | undefined = shared ? null : clip.mediaId ? await getMediaBlob(clip.mediaId) : clip.blob;
+      if (!shared && (!blob || blob.size === 0)) continue;
+
+      const mime: string = blob?.type || clip.mimeType;
+      const extension = getExtensionForMime(mime);
+      const filename = shared || (clip.mediaId ? `${clip.mediaId}.${extension}` : `pad_${getPadLabel(clip.id)}.${extension}`);
+
+      if (blob) {
+        await zip.add(`video_assets/${filename}`, blob);
+      }
+      if (clip.mediaId) sharedFiles.set(clip.mediaId, filename);
+
+      metadata.clips.push({
+        id: clip.id,
+        bank: getBankOf(clip.id),
+        pad: getPadNumber(clip.id),
+        startTime: clip.startTime,
+        endTime: clip.endTime,
+        volume: clip.volume ?? 5.0,
+        filename: `video_assets/${filename}`,
+        mimeType: mime,
+        allowOverlap: clip.allowOverlap ?? false,
+        transform: clip.transform,
+        playback: normalizePlayback(clip.playback),
+        pitch: normalizePitch(clip.pitch),
+        fx: normalizeFx(clip.fx),
+        envelope: normalizeEnvelope(clip.envelope)
+      });
+    }
+    onProgress?.(clipIds.length, clipIds.length);
 
-  for (const clip of clips) {
-    if (!clip || !clip.blob || clip.blob.size === 0) continue;
+    await zip.add(MANIFEST_FILE, new Blob([JSON.stringify(metadata, null, 2)], { type: 'application/json' }));
+    await zip.finish();
+    await sink.close();
+  } catch (e) {
+    await sink.abort();
+    throw e;
+  }
+};
 
-    const mime = clip.blob.type;
-    const extension = mime.includes('webm') ? 'webm' : 'mp4';
-    const filename = `pad_${clip.id}.${extension}`; 
-    
-    if (videoFolder) {
-      videoFolder.file(filename, clip.blob);
-    }
-    
-    metadata.clips.push({
-      id: clip.id,
-      startTime: clip.startTime,
-      endTime: clip.endTime,
-      volume: clip.volume ?? 5.0,
-      filename: `video_assets/${filename}`,
-      mimeType: mime,
-      allowOverlap: clip.allowOverlap ?? false,
-      transform: clip.transform as any
-    });
+export interface ImportResult {
+  project: ProjectInfo;
+  report: ImportReport;
+}
+
+// Importa el ZIP como un proyecto nuevo de la biblioteca. Todo se comprueba antes de escribir, y se
+// escribe directamente en el proyecto nuevo: el activo sigue en pantalla y editable sin recibir nada
+// del ZIP. Si la escritura falla o se cancela, el proyecto a medias se borra.
+// Del ZIP solo se lee el índice; cada clip se saca del archivo cuando le toca guardarse.
+export const importProject = async (file: File, onProgress?: TransferProgress, signal?: AbortSignal): Promise<ImportResult> => {
+  const entries = await readZip(file);
+
+  const manifestEntry = entries.get(MANIFEST_FILE) || entries.get(LEGACY_MANIFEST_FILE);
+  if (!manifestEntry) {
+    throw new Error("No se encontró el archivo de proyecto.");
   }
 
-  zip.file("project_manifest.json", JSON.stringify(metadata, null, 2));
+  const manifestText = await (await manifestEntry.open()).text();
+  const { manifest, report } = parseManifest(manifestText, manifestEntry.name === LEGACY_MANIFEST_FILE);
 
-  const content = await zip.generateAsync({ 
-    type: "blob",
-    compression: "STORE"
+  // Los clips sin su archivo quedan en el informe en lugar de desaparecer sin aviso
+  const totalClips = manifest.clips.length + report.skipped.length;
+  manifest.clips = manifest.clips.filter(clip => {
+    const entry = entries.get(clip.filename);
+    if (entry && entry.size > 0) return true;
+    report.skipped.push({ label: getPadLabel(clip.id), reason: entry ? `el archivo ${clip.filename} está vacío` : `falta el archivo ${clip.filename}` });
+    return false;
   });
+  if (totalClips > 0 && manifest.clips.length === 0) {
+    throw new Error("Ningún clip del proyecto se puede importar: faltan sus archivos o están dañados.");
+  }
+  signal?.throwIfAborted();
 
-  const safeName = projectName.trim().replace(/[^a-z0-9]/gi, '_').toLowerCase() || 'proyecto_videopad';
-  const url = URL.createObjectURL(content);
-  const a = document.createElement('a');
-  a.style.display = 'none';
-  a.href = url;
-  a.download = `${safeName}.zip`;
-  
-  document.body.appendChild(a);
-  a.click();
-  
-  setTimeout(() => {
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
-  }, 2000);
-};
+  const project = await createProject(report.projectName);
 
-export const importProject = async (file: File): Promise<string> => {
-  const zip = new JSZip();
-  let loadedZip;
-  
   try {
-    loadedZip = await zip.loadAsync(file);
+    await writeProjectData(project.id, entries, manifest, onProgress, signal);
   } catch (e) {
-    throw new Error("El archivo no es un ZIP válido.");
+    // No dejamos proyectos a medias en la biblioteca
+    await deleteProject(project.id);
+    throw e;
   }
 
-  const manifestFile = loadedZip.file("project_manifest.json") || loadedZip.file("project.json");
-  if (!manifestFile) {
-    throw new Error("No se encontró el archivo de proyecto.");
-  }
+  report.imported = manifest.clips.map(clip => clip.id);
+  return { project, report };
+};
 
-  const metadataStr = await manifestFile.async("string");
-  const metadata: ProjectFile = JSON.parse(metadataStr);
+// Recibe un manifiesto ya validado y migrado a la versión actual
+const writeProjectData = async (projectId: string, entries: Map<string, ZipEntry>, metadata: ProjectFile, onProgress?: TransferProgress, signal?: AbortSignal) => {
+  const fileUses = new Map<string, number>();
+  metadata.clips.forEach(c => fileUses.set(c.filename, (fileUses.get(c.filename) || 0) + 1));
+  const sharedMedia = new Map<string, SharedMedia>();
+
+  for (const [index, clipData] of metadata.clips.entries()) {
+    signal?.throwIfAborted();
+    onProgress?.(index, metadata.clips.length);
+    // Un archivo usado por varios pads vuelve a guardarse como medio compartido
+    let source: Blob | SharedMedia | undefined = sharedMedia.get(clipData.filename);
+    if (!source) {
+      const mimeType = clipData.mimeType || (clipData.filename.endsWith('.webm') ? 'video/webm' : 'video/mp4');
+      source = await entries.get(clipData.filename)!.open(mimeType);
+      if ((fileUses.get(clipData.filename) || 0) > 1) {
+        source = await saveMedia(source, projectId);
+        sharedMedia.set(clipData.filename, source);
+      }
+    }
 
-  const currentClips = await getAllClips();
-  for (const clip of currentClips) {
-    await deleteClip(clip.id);
+    await saveClip(
+      clipData.id, 
+      source, 
+      clipData.startTime, 
+      clipData.endTime, 
+      clipData.volume, 
+      clipData.transform, 
+      clipData.allowOverlap,
+      normalizePlayback(clipData.playback),
+      normalizePitch(clipData.pitch),
+      normalizeFx(clipData.fx),
+      normalizeEnvelope(clipData.envelope),
+      projectId
+    );
   }
+  onProgress?.(metadata.clips.length, metadata.clips.length);
 
-  for (const clipData of metadata.clips) {
-    const videoFile = loadedZip.file(clipData.filename);
-    if (videoFile) {
-      const arrayBuffer = await videoFile.async("arraybuffer");
-      let mimeType = clipData.mimeType || (clipData.filename.endsWith('.webm') ? 'video/webm' : 'video/mp4');
-      const videoBlob = new Blob([arrayBuffer], { type: mimeType }); 
-      
-      await saveClip(
-        clipData.id, 
-        videoBlob, 
-        clipData.startTime, 
-        clipData.endTime, 
-        clipData.volume, 
-        clipData.transform as any, 
-        clipData.allowOverlap
-      );
+  if (metadata.sequencer) {
+    await saveSetting('sequencer', metadata.sequencer.settings, projectId);
+    for (const pattern of metadata.sequencer.patterns) {
+      await savePattern(pattern.padId, pattern.steps, projectId);
     }
   }
-
-  return metadata.projectName || "Proyecto Importado";
+  for (const take of metadata.takes || []) {
+    await saveTake(take, projectId);
+  }
+  if (metadata.midi) await saveSetting('midiMappings', metadata.midi, projectId);
+  if (metadata.keyMap) await saveSetting('keyMap', metadata.keyMap, projectId);
+  if (metadata.chromatic) await saveSetting('chromatic', metadata.chromatic, projectId);
+  if (metadata.mixer) await saveSetting('mixer', normalizeMixer(metadata.mixer), projectId);
 };
@@ -0,0 +1,65 @@
+/// <reference types="vite/client" />
+
+type UpdateListener = (apply: () => void) => void;
+
+const updateListeners = new Set<UpdateListener>();
+// Versión nueva instalada y esperando; la interfaz puede suscribirse después de que llegue
+let applyUpdate: (() => void) | null = null;
+
+const setWaiting = (worker: ServiceWorker) => {
+  applyUpdate = () => worker.postMessage({ type: 'SKIP_WAITING' });
+  updateListeners.forEach(listener => listener(applyUpdate!));
+};
+
+// Registro del service worker. En desarrollo no se registra: serviría archivos viejos.
+export const registerServiceWorker = () => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+  // Cuando la versión nueva toma el control, se recarga una sola vez
+  let reloading = false;
+  navigator.serviceWorker.addEventListener('controllerchange', () => {
+    if (reloading) return;
+    reloading = true;
+    window.location.reload();
+  });
+
+  const register = async () => {
+    try {
+      const registration = await navigator.serviceWorker.register('/sw.js');
+      // Solo hay actualización si ya había una versión controlando la página
+      if (registration.waiting && navigator.serviceWorker.controller) setWaiting(registration.waiting);
+      registration.addEventListener('updatefound', () => {
+        const worker = registration.installing;
+        worker?.addEventListener('statechange', () => {
+          if (worker.state === 'installed' && navigator.serviceWorker.controller) setWaiting(worker);
+        });
+      });
+      // Al recuperar la conexión se comprueba si hay versión nueva
+      window.addEventListener('online', () => registration.update().catch(() => {}));
+    } catch (e) {
+      console.warn("No se pudo registrar el service worker:", e);
+    }
+  };
+
+  if (document.readyState === 'complete') register();
+  else window.addEventListener('load', register, { once: true });
+};
+
+export const onUpdateAvailable = (listener: UpdateListener) => {
+  updateListeners.add(listener);
+  if (applyUpdate) listener(applyUpdate);
+  return () => {
+    updateListeners.delete(listener);
+  };
+};
+
+export const onConnectivityChange = (listener: (online: boolean) => void) => {
+  const handleOnline = () => listener(true);
+  const handleOffline = () => listener(false);
+  window.addEventListener('online', handleOnline);
+  window.addEventListener('offline', handleOffline);
+  return () => {
+    window.removeEventListener('online', handleOnline);
+    window.removeEventListener('offline', handleOffline);
+  };
+};
@@ -0,0 +1,98 @@
+import { getAudioContext } from './audio';
+import { getRecorderOptions } from './media';
+import { DEFAULT_TRANSFORM, drawTransformed } from './transform';
+import { PadTransform } from '../types';
+
+const FPS = 30;
+
+export interface RenderOptions {
+  size?: number;                // Con lado, la salida es cuadrada como el pad
+  transform?: PadTransform;     // Encuadre que se aplica a la imagen (solo con `size`)
+  videoBitsPerSecond?: number;
+}
+
+const waitFor = (target: HTMLMediaElement, event: 'loadedmetadata' | 'seeked') =>
+  new Promise<void>((resolve, reject) => {
+    target.addEventListener(event, () => resolve(), { once: true });
+    target.addEventListener('error', () => reject(new Error("No se pudo abrir el vídeo del pad.")), { once: true });
+  });
+
+// Vuelve a grabar en tiempo real el tramo [start, end] de un clip: la imagen pasa por un canvas
+// y el audio sale del buffer ya decodificado, sin sonar por el master
+export const renderClipVideo = async (
+  blob: Blob,
+  buffer: AudioBuffer,
+  start: number,
+  end: number,
+  { size, transform, videoBitsPerSecond }: RenderOptions = {}
+): Promise<Blob> => {
+  const video = document.createElement('video');
+  const url = URL.createObjectURL(blob);
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = 'auto';
+
+  try {
+    const loaded = waitFor(video, 'loadedmetadata');
+    video.src = url;
+    await loaded;
+    if (!video.videoWidth) throw new Error("El clip no tiene imagen que exportar.");
+    const seeked = waitFor(video, 'seeked');
+    video.currentTime = start;
+    await seeked;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = size || video.videoWidth;
+    canvas.height = size || video.videoHeight;
+    const ctx2d = canvas.getContext('2d');
+    if (!ctx2d) throw new Error("Este navegador no permite renderizar vídeo.");
+
+    const ctx = getAudioContext();
+    if (ctx.state === 'suspended') await ctx.resume();
+    const destination = ctx.createMediaStreamDestination();
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.connect(destination);
+
+    const stream = canvas.captureStream(FPS);
+    destination.stream.getAudioTracks().forEach(track => stream.addTrack(track));
+    const options = getRecorderOptions();
+    if (videoBitsPerSecond) options.videoBitsPerSecond = videoBitsPerSecond;
+    const recorder = new MediaRecorder(stream, options);
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) chunks.push(e.data);
+    };
+    const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+    const ended = new Promise<void>(resolve => { source.onended = () => resolve(); });
+
+    let frameId = 0;
+    const draw = () => {
+      if (size) {
+        // Fuera del encuadre queda negro, igual que el fondo del pad
+        ctx2d.fillStyle = '#000';
+        ctx2d.fillRect(0, 0, size, size);
+        drawTransformed(ctx2d, video, video.videoWidth, video.videoHeight, transform || DEFAULT_TRANSFORM, 0, 0, size);
+      } else {
+        ctx2d.drawImage(video, 0, 0, canvas.width, canvas.height);
+      }
+      frameId = requestAnimationFrame(draw);
+    };
+    draw();
+    recorder.start();
+    await video.play();
+    source.start(ctx.currentTime, start, Math.max(0, end - start));
+    await ended;
+
+    cancelAnimationFrame(frameId);
+    video.pause();
+    recorder.stop();
+    await stopped;
+    stream.getTracks().forEach(track => track.stop());
+    source.disconnect();
+    return new Blob(chunks, { type: recorder.mimeType || 'video/webm' });
+  } finally {
+    video.removeAttribute('src');
+    URL.revokeObjectURL(url);
+  }
+};
@@ -0,0 +1,77 @@
+import { getAudioContext } from './audio';
+import { SequencerSettings } from '../types';
+import { isFiniteNumber, isRecord } from './guards';
+
+export const DEFAULT_SEQUENCER_SETTINGS: SequencerSettings = { bpm: 120, steps: 16, swing: 0 };
+
+export const isSequencerSettings = (value: unknown): value is SequencerSettings =>
+  isRecord(value) && isFiniteNumber(value.bpm) && isFiniteNumber(value.steps) && isFiniteNumber(value.swing);
+export const STEP_OPTIONS = [8, 16, 32];
+
+// El reloj corre con setInterval, pero los eventos se programan en la línea de
+// tiempo del AudioContext con un margen de anticipación para que no haya jitter.
+const LOOKAHEAD_MS = 25;
+const SCHEDULE_AHEAD = 0.1;
+
+interface SequencerOptions {
+  getSettings: () => SequencerSettings;
+  getPatterns: () => Record<number, number[]>;
+  onTrigger: (padId: number, when: number, velocity: number) => void;
+  onStep?: (step: number, when: number) => void;
+}
+
+// Cada paso es una semicorchea
+export const getStepDuration = (bpm: number) => 60 / Math.max(1, bpm) / 4;
+
+export const createSequencer = ({ getSettings, getPatterns, onTrigger, onStep }: SequencerOptions) => {
+  let timer: number | null = null;
+  let currentStep = 0;
+  let nextStepTime = 0;
+
+  const scheduleStep = (step: number, baseTime: number, settings: SequencerSettings) => {
+    // El swing retrasa los pasos impares una fracción de medio paso
+    const swingOffset = step % 2 === 1 ? settings.swing * getStepDuration(settings.bpm) * 0.5 : 0;
+    const when = baseTime + swingOffset;
+
+    const patterns = getPatterns();
+    Object.entries(patterns).forEach(([padId, steps]) => {
+      const velocity = steps[step] ?? 0;
+      if (velocity > 0) onTrigger(Number(padId), when, velocity);
+    });
+    if (onStep) onStep(step, when);
+  };
+
+  const tick = () => {
+    const ctx = getAudioContext();
+    while (nextStepTime < ctx.currentTime + SCHEDULE_AHEAD) {
+      const settings = getSettings();
+      const step = currentStep % settings.steps;
+      scheduleStep(step, nextStepTime, settings);
+      nextStepTime += getStepDuration(settings.bpm);
+      currentStep = (step + 1) % settings.steps;
+    }
+  };
+
+  const start = () => {
+    if (timer !== null) return;
+    const ctx = getAudioContext();
+    currentStep = 0;
+    nextStepTime = ctx.currentTime + 0.05;
+    tick();
+    timer = window.setInterval(tick, LOOKAHEAD_MS);
+  };
+
+  const stop = () => {
+    if (timer !== null) window.clearInterval(timer);
+    timer = null;
+  };
+
+  return { start, stop, isRunning: () => timer !== null };
+};
+
+// Ajusta un patrón al número de pasos actual sin perder lo ya programado
+export const resizePattern = (steps: number[] | undefined, length: number) => {
+  const result = new Array<number>(length).fill(0);
+  (steps || []).slice(0, length).forEach((v, i) => { result[i] = v; });
+  return result;
+};
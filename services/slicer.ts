@@ -0,0 +1,26 @@
+import { ONSET_PRE_ROLL, detectBufferOnsets } from './onsets';
+
+export interface Slice {
+  start: number;
+  end: number;
+}
+
+export const MIN_SLICE = 0.05;
+
+// Un corte por ataque detectado, adelantado el mismo margen que al grabar un pad
+export const getSliceCuts = (buffer: AudioBuffer, sensitivity: number) =>
+  detectBufferOnsets(buffer, { sensitivity, minGap: MIN_SLICE }).map(o => Math.max(0, o.time - ONSET_PRE_ROLL));
+
+// Cada trozo va de un corte al siguiente; el último llega hasta el final de la toma
+export const cutsToSlices = (cuts: number[], duration: number): Slice[] => {
+  const sorted = [...cuts].sort((a, b) => a - b);
+  return sorted
+    .map((start, i) => ({ start, end: i + 1 < sorted.length ? sorted[i + 1] : duration }))
+    .filter(slice => slice.end - slice.start >= MIN_SLICE);
+};
+
+// Pulsar cerca de un corte lo quita; en otro sitio añade uno nuevo
+export const toggleCut = (cuts: number[], time: number, tolerance: number) => {
+  const near = cuts.findIndex(cut => Math.abs(cut - time) <= tolerance);
+  return near >= 0 ? cuts.filter((_, i) => i !== near) : [...cuts, time].sort((a, b) => a - b);
+};
@@ -0,0 +1,78 @@
+import { getRecorderOptions } from './media';
+
+export interface StorageEstimate {
+  usage: number;
+  quota: number;
+  persisted: boolean;
+}
+
+// Una grabación típica no pasa de 30 s; el clip y su copia en el historial ocupan dos veces
+const RESERVED_RECORDING_SECONDS = 30;
+const HISTORY_COPIES = 2;
+
+export const isStorageSupported = () => !!navigator.storage?.estimate;
+
+export const getStorageEstimate = async (): Promise<StorageEstimate | null> => {
+  if (!isStorageSupported()) return null;
+  const [{ usage = 0, quota = 0 }, persisted] = await Promise.all([
+    navigator.storage.estimate(),
+    navigator.storage.persisted?.() ?? Promise.resolve(false),
+  ]);
+  return { usage, quota, persisted };
+};
+
+// Sin persistencia el navegador puede borrar los proyectos si le falta espacio
+export const requestPersistentStorage = async () => {
+  if (!navigator.storage?.persist) return false;
+  try {
+    return await navigator.storage.persist();
+  } catch (e) {
+    return false;
+  }
+};
+
+export const getRecordingReserve = () => {
+  const { videoBitsPerSecond = 0, audioBitsPerSecond = 0 } = getRecorderOptions();
+  return ((videoBitsPerSecond + audioBitsPerSecond) / 8) * RESERVED_RECORDING_SECONDS * HISTORY_COPIES;
+};
+
+// Devuelve los bytes libres si no cabe otra grabación, o null si hay sitio (o no se puede saber)
+export const checkRecordingSpace = async () => {
+  const estimate = await getStorageEstimate().catch(() => null);
+  if (!estimate || estimate.quota === 0) return null;
+  const free = Math.max(0, estimate.quota - estimate.usage);
+  return free < getRecordingReserve() ? free : null;
+};
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toLocaleString('es', { maximumFractionDigits: value < 10 ? 1 : 0 })} ${units[unit]}`;
+};
+
+// IndexedDB informa de la cuota de formas distintas según el navegador
+export const isQuotaError = (error: unknown) => {
+  if (!(error instanceof DOMException)) return false;
+  return error.name === 'QuotaExceededError' || error.code === DOMException.QUOTA_EXCEEDED_ERR ||
+    (error.name === 'UnknownError' && /quota|space/i.test(error.message));
+};
+
+// Mensaje para el usuario que explica qué falló y qué puede hacer
+export const describeStorageError = (error: unknown, action: string) => {
+  if (isQuotaError(error)) {
+    return `${action}: no queda espacio en este dispositivo. Borra pads, tomas o el historial que no uses, o exporta y elimina proyectos antiguos desde la Biblioteca.`;
+  }
+  if (error instanceof DOMException && (error.name === 'InvalidStateError' || error.name === 'SecurityError')) {
+    return `${action}: el navegador no permite guardar datos (¿ventana privada?). Abre VideoPad en una ventana normal.`;
+  }
+  if (error instanceof DOMException && error.name === 'NotFoundError') {
+    return `${action}: el pad ya no existe. Recarga la página y vuelve a intentarlo.`;
+  }
+  return `${action}: ${error instanceof Error ? error.message.replace(/\.$/, '') : 'error desconocido'}.`;
+};
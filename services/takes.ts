@@ -0,0 +1,102 @@
+import { Take, TakeEvent } from '../types';
+import { getAudioContext } from './audio';
+import { onPadTrigger } from './pads';
+import { getStepDuration } from './sequencer';
+
+// Misma estrategia que el secuenciador: reloj con setInterval y eventos
+// programados con antelación en la línea de tiempo del AudioContext
+const LOOKAHEAD_MS = 25;
+const SCHEDULE_AHEAD = 0.1;
+
+export const QUANTIZE_OPTIONS = [4, 8, 16, 32];
+
+export const createTakeRecorder = () => {
+  let unsubscribe: (() => void) | null = null;
+  let armedAt = 0;
+  let events: TakeEvent[] = [];
+
+  const arm = () => {
+    if (unsubscribe) return;
+    events = [];
+    armedAt = getAudioContext().currentTime;
+    unsubscribe = onPadTrigger(({ padId, time, velocity, volume, allowOverlap, transpose }) => {
+      events.push({ padId, time, velocity, volume, allowOverlap, transpose });
+    });
+  };
+
+  // Devuelve null si no se tocó ningún pad mientras estaba armado
+  const stop = (name: string): Take | null => {
+    if (unsubscribe) unsubscribe();
+    unsubscribe = null;
+    if (events.length === 0) return null;
+
+    // La toma empieza en el primer disparo, no al armar
+    const sorted = [...events].sort((a, b) => a.time - b.time);
+    const offset = sorted[0].time;
+    const stoppedAt = Math.max(getAudioContext().currentTime, armedAt);
+    return {
+      id: `take_${Date.now()}`,
+      name,
+      createdAt: Date.now(),
+      duration: Math.max(0, stoppedAt - offset),
+      events: sorted.map(e => ({ ...e, time: e.time - offset })),
+    };
+  };
+
+  return { arm, stop, isArmed: () => unsubscribe !== null };
+};
+
+// Ajusta cada evento a la rejilla más cercana (division = notas por compás)
+export const quantizeTake = (take: Take, bpm: number, division: number, strength = 1): Take => {
+  const grid = getStepDuration(bpm) * (16 / division);
+  const events = take.events
+    .map(e => {
+      const snapped = Math.round(e.time / grid) * grid;
+      return { ...e, time: Math.max(0, e.time + (snapped - e.time) * strength) };
+    })
+    .sort((a, b) => a.time - b.time);
+  return { ...take, events };
+};
+
+interface TakePlayerOptions {
+  onTrigger: (event: TakeEvent, when: number) => void;
+  onEnded?: () => void;
+}
+
+export const createTakePlayer = ({ onTrigger, onEnded }: TakePlayerOptions) => {
+  let timer: number | null = null;
+  let playing: Take | null = null;
+  let startAt = 0;
+  let nextIndex = 0;
+
+  const stop = () => {
+    if (timer !== null) window.clearInterval(timer);
+    timer = null;
+    playing = null;
+  };
+
+  const tick = () => {
+    if (!playing) return;
+    const ctx = getAudioContext();
+    while (nextIndex < playing.events.length && startAt + playing.events[nextIndex].time < ctx.currentTime + SCHEDULE_AHEAD) {
+      const event = playing.events[nextIndex];
+      onTrigger(event, startAt + event.time);
+      nextIndex++;
+    }
+    if (ctx.currentTime > startAt + playing.duration && nextIndex >= playing.events.length) {
+      stop();
+      if (onEnded) onEnded();
+    }
+  };
+
+  const play = (take: Take) => {
+    stop();
+    playing = take;
+    nextIndex = 0;
+    startAt = getAudioContext().currentTime + 0.05;
+    tick();
+    timer = window.setInterval(tick, LOOKAHEAD_MS);
+  };
+
+  return { play, stop, getPlayingId: () => playing?.id ?? null };
+};
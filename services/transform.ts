@@ -0,0 +1,49 @@
+import { PadTransform } from '../types';
+
+export const DEFAULT_TRANSFORM: PadTransform = { scale: 1, x: 0, y: 0, rotation: 0, flipX: false, flipY: false };
+
+export const MIN_SCALE = 0.5;
+export const MAX_SCALE = 4;
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+// Mantiene el encuadre dentro de rangos razonables para que el vídeo no se pierda fuera del pad
+export const normalizeTransform = (transform: PadTransform): PadTransform => ({
+  ...transform,
+  scale: clamp(transform.scale, MIN_SCALE, MAX_SCALE),
+  x: clamp(transform.x, -1, 1),
+  y: clamp(transform.y, -1, 1),
+  rotation: ((transform.rotation % 360) + 540) % 360 - 180,
+});
+
+// Misma transformación CSS en la rejilla y en el editor de encuadre
+export const toCssTransform = (transform: PadTransform) => {
+  const sx = transform.scale * (transform.flipX ? -1 : 1);
+  const sy = transform.scale * (transform.flipY ? -1 : 1);
+  return `translate(${transform.x * 100}%, ${transform.y * 100}%) scale(${sx}, ${sy}) rotate(${transform.rotation || 0}deg)`;
+};
+
+// Dibuja una imagen con el recorte de object-cover y el PadTransform en un cuadrado de `size`
+// con esquina en (x, y): lo mismo que GridCell hace con CSS
+export const drawTransformed = (
+  ctx: CanvasRenderingContext2D,
+  image: CanvasImageSource,
+  width: number,
+  height: number,
+  transform: PadTransform,
+  x: number,
+  y: number,
+  size: number
+) => {
+  const side = Math.min(width, height);
+  const sx = (width - side) / 2;
+  const sy = (height - side) / 2;
+  const { scale, rotation, flipX, flipY } = transform;
+
+  ctx.save();
+  ctx.translate(x + size / 2 + transform.x * size, y + size / 2 + transform.y * size);
+  ctx.scale(scale * (flipX ? -1 : 1), scale * (flipY ? -1 : 1));
+  ctx.rotate(((rotation || 0) * Math.PI) / 180);
+  ctx.drawImage(image, sx, sy, side, side, -size / 2, -size / 2, size, size);
+  ctx.restore();
+};
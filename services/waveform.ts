@@ -0,0 +1,65 @@
+// Picos mínimo/máximo por columna de píxeles, mezclando todos los canales
+export const computePeaks = (buffer: AudioBuffer, from: number, to: number, columns: number) => {
+  const peaks: [number, number][] = [];
+  const start = Math.max(0, Math.floor(from * buffer.sampleRate));
+  const end = Math.min(buffer.length, Math.ceil(to * buffer.sampleRate));
+  const samplesPerColumn = Math.max(1, (end - start) / columns);
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+
+  for (let col = 0; col < columns; col++) {
+    const first = start + Math.floor(col * samplesPerColumn);
+    const last = Math.min(end, start + Math.floor((col + 1) * samplesPerColumn));
+    let min = 0;
+    let max = 0;
+    for (const data of channels) {
+      for (let i = first; i < last; i++) {
+        if (data[i] < min) min = data[i];
+        if (data[i] > max) max = data[i];
+      }
+    }
+    peaks.push([min, max]);
+  }
+  return peaks;
+};
+
+// Muestra más cercana a `time` en la que la señal (mezcla de canales) cruza por cero,
+// buscando como mucho `window` segundos a cada lado
+export const findZeroCrossing = (buffer: AudioBuffer, time: number, window = 0.01) => {
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+  const sampleAt = (i: number) => channels.reduce((sum, data) => sum + data[i], 0);
+  const center = Math.round(time * buffer.sampleRate);
+  const radius = Math.round(window * buffer.sampleRate);
+
+  for (let offset = 0; offset <= radius; offset++) {
+    for (const i of [center - offset, center + offset]) {
+      if (i <= 0 || i >= buffer.length) continue;
+      const prev = sampleAt(i - 1);
+      const current = sampleAt(i);
+      if (prev === 0 || current === 0 || (prev < 0) !== (current < 0)) return i / buffer.sampleRate;
+    }
+  }
+  return time;
+};
+
+// Imagen cuadrada con la forma de onda, para que un clip solo de audio tenga algo que mostrar en el pad
+export const renderWaveformPoster = (buffer: AudioBuffer, hue: number, size = 360) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  const gradient = ctx.createLinearGradient(0, 0, size, size);
+  gradient.addColorStop(0, `hsl(${hue}, 70%, 18%)`);
+  gradient.addColorStop(1, `hsl(${(hue + 40) % 360}, 70%, 8%)`);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, size, size);
+
+  const mid = size / 2;
+  const columns = size / 3;
+  ctx.fillStyle = `hsl(${hue}, 90%, 65%)`;
+  computePeaks(buffer, 0, buffer.duration, columns).forEach(([min, max], col) => {
+    ctx.fillRect(col * 3, mid - max * mid * 0.8, 2, Math.max(2, (max - min) * mid * 0.8));
+  });
+  return canvas.toDataURL('image/png');
+};
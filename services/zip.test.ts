@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { createZipWriter, readZip } from './zip';
+
+const buildZip = async (files: Record<string, Blob>) => {
+  const parts: BlobPart[] = [];
+  const zip = createZipWriter(async chunk => { parts.push(chunk); });
+  for (const [name, data] of Object.entries(files)) await zip.add(name, data);
+  await zip.finish();
+  return new Blob(parts);
+};
+
+// CRC-32 del directorio central de la primera entrada
+const firstCrc = async (zip: Blob) => {
+  const bytes = new DataView(await zip.arrayBuffer());
+  for (let i = bytes.byteLength - 22; i >= 0; i--) {
+    if (bytes.getUint32(i, true) === 0x06054b50) return bytes.getUint32(bytes.getUint32(i + 16, true) + 16, true);
+  }
+  return -1;
+};
+
+describe('zip', () => {
+  it('escribe y vuelve a leer archivos grandes y nombres con acentos', async () => {
+    const video = new Uint8Array(300000).map((_, i) => i % 251);
+    const zip = await buildZip({
+      'video_assets/toma_ñ.webm': new Blob([video]),
+      'project_manifest.json': new Blob(['{"version":15}']),
+    });
+    const entries = await readZip(zip);
+    expect([...entries.keys()]).toEqual(['video_assets/toma_ñ.webm', 'project_manifest.json']);
+    expect(await (await entries.get('project_manifest.json')!.open()).text()).toBe('{"version":15}');
+    const read = await entries.get('video_assets/toma_ñ.webm')!.open('video/webm');
+    expect(read.type).toBe('video/webm');
+    const bytes = new Uint8Array(await read.arrayBuffer());
+    expect(bytes.length).toBe(video.length);
+    expect(bytes.every((byte, i) => byte === video[i])).toBe(true);
+  });
+
+  it('calcula el CRC-32 por partes', async () => {
+    const zip = await buildZip({ 'check.txt': new Blob(['123456789']) });
+    expect(await firstCrc(zip)).toBe(0xcbf43926);
+  });
+
+  it('lee archivos comprimidos con deflate', async () => {
+    const text = 'hola '.repeat(1000);
+    const compressed = new Uint8Array(await new Response(new Blob([text]).stream().pipeThrough(new CompressionStream('deflate-raw'))).arrayBuffer());
+    const name = new TextEncoder().encode('x.txt');
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(8, 8, true);
+    local.setUint32(18, compressed.length, true);
+    local.setUint32(22, text.length, true);
+    local.setUint16(26, name.length, true);
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true);
+    central.setUint16(10, 8, true);
+    central.setUint32(20, compressed.length, true);
+    central.setUint32(24, text.length, true);
+    central.setUint16(28, name.length, true);
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, 0x06054b50, true);
+    end.setUint16(8, 1, true);
+    end.setUint16(10, 1, true);
+    end.setUint32(12, 46 + name.length, true);
+    end.setUint32(16, 30 + name.length + compressed.length, true);
+
+    const entries = await readZip(new Blob([local, name, compressed, central, name, end]));
+    expect(await (await entries.get('x.txt')!.open()).text()).toBe(text);
+  });
+
+  it('con wholeFiles entrega los Blob originales sin trocearlos', async () => {
+    const video = new Blob([new Uint8Array(200000).map((_, i) => i % 253)]);
+    const parts: (Blob | Uint8Array)[] = [];
+    const zip = createZipWriter(async chunk => { parts.push(chunk); }, true);
+    await zip.add('video_assets/a.webm', video);
+    await zip.finish();
+    expect(parts).toContain(video);
+    // Aparte del vídeo solo quedan las cabeceras
+    const headers = parts.filter(part => part !== video).reduce((sum, part) => sum + (part instanceof Blob ? part.size : part.length), 0);
+    expect(headers).toBeLessThan(200);
+    const entries = await readZip(new Blob(parts));
+    expect((await entries.get('video_assets/a.webm')!.open()).size).toBe(video.size);
+    expect(await firstCrc(new Blob(parts))).toBe(await firstCrc(await buildZip({ 'video_assets/a.webm': video })));
+  });
+
+  it('rechaza lo que no es un ZIP', async () => {
+    await expect(readZip(new Blob(['no soy un zip']))).rejects.toThrow(/no es un ZIP válido/);
+  });
+});
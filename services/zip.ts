@@ -0,0 +1,191 @@
+// ZIP sin compresión escrito y leído archivo a archivo: ni la exportación ni la importación
+// necesitan tener el proyecto entero en memoria
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL = 0x06054b50;
+const DESCRIPTOR_SIGNATURE = 0x08074b50;
+const UTF8_NAMES = 0x0800;
+const DATA_DESCRIPTOR = 0x0008;     // CRC y tamaños detrás de los datos
+const MAX_OFFSET = 0xffffffff;   // Sin ZIP64: hasta 4 GB por proyecto
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+// CRC-32 por partes: se arranca en 0xffffffff, se actualiza con cada trozo y se cierra con finishCrc
+const updateCrc = (crc: number, bytes: Uint8Array) => {
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return crc;
+};
+
+const finishCrc = (crc: number) => (crc ^ 0xffffffff) >>> 0;
+
+const toDosTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+interface CentralEntry {
+  name: Uint8Array;
+  crc: number;
+  size: number;
+  offset: number;
+}
+
+export interface ZipWriter {
+  add: (name: string, data: Blob) => Promise<void>;
+  finish: () => Promise<void>;
+}
+
+// Cada archivo se entrega a `write` en cuanto está listo, con su cabecera delante. Con wholeFiles
+// el contenido llega como el Blob original en lugar de por trozos
+export const createZipWriter = (write: (chunk: Blob | Uint8Array) => Promise<void>, wholeFiles = false): ZipWriter => {
+  const entries: CentralEntry[] = [];
+  const stamp = toDosTime(new Date());
+  let offset = 0;
+
+  // El contenido se lee una sola vez, por trozos: cada trozo actualiza el CRC y se escribe en el
+  // destino. Como el CRC solo se sabe al final, va en un descriptor detrás de los datos (bit 3).
+  // Con wholeFiles los trozos solo sirven para el CRC y después se entrega el Blob sin copiarlo
+  const add = async (name: string, data: Blob) => {
+    const encodedName = new TextEncoder().encode(name);
+    if (offset + 30 + encodedName.length + data.size + 16 > MAX_OFFSET) {
+      throw new Error("El proyecto supera los 4 GB que admite un ZIP. Consolida o borra pads antes de exportar.");
+    }
+
+    const header = new DataView(new ArrayBuffer(30));
+    header.setUint32(0, LOCAL_HEADER, true);
+    header.setUint16(4, 20, true);          // Versión necesaria para extraer
+    header.setUint16(6, UTF8_NAMES | DATA_DESCRIPTOR, true);
+    header.setUint16(8, 0, true);           // Sin compresión
+    header.setUint16(10, stamp.time, true);
+    header.setUint16(12, stamp.date, true);
+    header.setUint16(26, encodedName.length, true);
+    await write(new Blob([header, encodedName]));
+
+    let crc = 0xffffffff;
+    let size = 0;
+    const reader = data.stream().getReader();
+    for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+      crc = updateCrc(crc, chunk.value);
+      size += chunk.value.length;
+      if (!wholeFiles) await write(chunk.value);
+    }
+    crc = finishCrc(crc);
+    if (wholeFiles) await write(data);
+
+    const descriptor = new DataView(new ArrayBuffer(16));
+    descriptor.setUint32(0, DESCRIPTOR_SIGNATURE, true);
+    descriptor.setUint32(4, crc, true);
+    descriptor.setUint32(8, size, true);
+    descriptor.setUint32(12, size, true);
+    await write(new Uint8Array(descriptor.buffer));
+
+    entries.push({ name: encodedName, crc, size, offset });
+    offset += 30 + encodedName.length + size + 16;
+  };
+
+  const finish = async () => {
+    if (entries.length > 0xffff) throw new Error("El proyecto tiene demasiados archivos para un ZIP.");
+    const parts: BlobPart[] = [];
+    let directorySize = 0;
+    for (const entry of entries) {
+      const header = new DataView(new ArrayBuffer(46));
+      header.setUint32(0, CENTRAL_HEADER, true);
+      header.setUint16(4, 20, true);        // Creado por
+      header.setUint16(6, 20, true);
+      header.setUint16(8, UTF8_NAMES | DATA_DESCRIPTOR, true);
+      header.setUint16(10, 0, true);
+      header.setUint16(12, stamp.time, true);
+      header.setUint16(14, stamp.date, true);
+      header.setUint32(16, entry.crc, true);
+      header.setUint32(20, entry.size, true);
+      header.setUint32(24, entry.size, true);
+      header.setUint16(28, entry.name.length, true);
+      header.setUint32(42, entry.offset, true);
+      parts.push(header, entry.name);
+      directorySize += 46 + entry.name.length;
+    }
+
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, END_OF_CENTRAL, true);
+    end.setUint16(8, entries.length, true);
+    end.setUint16(10, entries.length, true);
+    end.setUint32(12, directorySize, true);
+    end.setUint32(16, offset, true);
+    parts.push(end);
+    await write(new Blob(parts));
+  };
+
+  return { add, finish };
+};
+
+export interface ZipEntry {
+  name: string;
+  size: number;
+  open: (type?: string) => Promise<Blob>;
+}
+
+const readView = async (file: Blob, start: number, end: number) =>
+  new DataView(await file.slice(start, end).arrayBuffer());
+
+// Lee solo el directorio central; el contenido de cada archivo se saca del ZIP cuando se abre
+export const readZip = async (file: Blob): Promise<Map<string, ZipEntry>> => {
+  const tailStart = Math.max(0, file.size - 22 - 0xffff);
+  const tail = await readView(file, tailStart, file.size);
+  let endAt = -1;
+  for (let i = tail.byteLength - 22; i >= 0; i--) {
+    if (tail.getUint32(i, true) === END_OF_CENTRAL) { endAt = i; break; }
+  }
+  if (endAt < 0) throw new Error("El archivo no es un ZIP válido.");
+
+  const count = tail.getUint16(endAt + 10, true);
+  const directorySize = tail.getUint32(endAt + 12, true);
+  const directoryOffset = tail.getUint32(endAt + 16, true);
+  if (count === 0xffff || directoryOffset === MAX_OFFSET) {
+    throw new Error("El ZIP usa el formato de más de 4 GB, que no se puede importar.");
+  }
+
+  const directory = await readView(file, directoryOffset, directoryOffset + directorySize);
+  const decoder = new TextDecoder();
+  const entries = new Map<string, ZipEntry>();
+  let position = 0;
+  for (let i = 0; i < count; i++) {
+    if (position + 46 > directory.byteLength || directory.getUint32(position, true) !== CENTRAL_HEADER) {
+      throw new Error("El archivo no es un ZIP válido.");
+    }
+    const method = directory.getUint16(position + 10, true);
+    const compressedSize = directory.getUint32(position + 20, true);
+    const size = directory.getUint32(position + 24, true);
+    const nameLength = directory.getUint16(position + 28, true);
+    const extraLength = directory.getUint16(position + 30, true);
+    const commentLength = directory.getUint16(position + 32, true);
+    const localOffset = directory.getUint32(position + 42, true);
+    const name = decoder.decode(new Uint8Array(directory.buffer, position + 46, nameLength));
+    position += 46 + nameLength + extraLength + commentLength;
+    if (name.endsWith('/')) continue;
+
+    const open = async (type = '') => {
+      const local = await readView(file, localOffset, localOffset + 30);
+      const dataStart = localOffset + 30 + local.getUint16(26, true) + local.getUint16(28, true);
+      const data = file.slice(dataStart, dataStart + compressedSize, type);
+      if (method === 0) return data;
+      // ZIP recomprimidos a mano: el navegador descomprime sin pasar todo por JavaScript
+      if (method === 8 && typeof DecompressionStream !== 'undefined') {
+        const stream = data.stream().pipeThrough(new DecompressionStream('deflate-raw'));
+        const inflated = await new Response(stream).blob();
+        return type ? new Blob([inflated], { type }) : inflated;
+      }
+      throw new Error(`${name} usa una compresión que este navegador no puede leer.`);
+    };
+    entries.set(name, { name, size, open });
+  }
+  return entries;
+};
@@ -0,0 +1,44 @@
+// Service worker de VideoPad: guarda la app construida para que arranque sin conexión.
+// El plugin de vite.config.ts rellena la versión y la lista de archivos en cada build.
+const CACHE_NAME = `videopad-${__SW_VERSION__}`;
+const PRECACHE = __PRECACHE__;
+
+self.addEventListener('install', (event) => {
+  // No se activa solo: la app pregunta antes de cambiar de versión
+  event.waitUntil(caches.open(CACHE_NAME).then(cache => cache.addAll(PRECACHE)));
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const keys = await caches.keys();
+    await Promise.all(keys.filter(key => key.startsWith('videopad-') && key !== CACHE_NAME).map(key => caches.delete(key)));
+    await self.clients.claim();
+  })());
+});
+
+self.addEventListener('message', (event) => {
+  if (event.data?.type === 'SKIP_WAITING') self.skipWaiting();
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return;
+
+  // Las navegaciones prueban la red y, sin señal, sirven la app guardada
+  if (request.mode === 'navigate') {
+    event.respondWith(fetch(request).catch(async () => (await caches.match('/index.html')) || Response.error()));
+    return;
+  }
+
+  event.respondWith((async () => {
+    const cached = await caches.match(request);
+    if (cached) return cached;
+    const response = await fetch(request);
+    if (response.ok && response.type === 'basic') {
+      const cache = await caches.open(CACHE_NAME);
+      cache.put(request, response.clone());
+    }
+    return response;
+  })());
+});
@@ -3,11 +3,56 @@ export interface PadTransform {
   x: number;
   y: number;
   rotation: number;
+  flipX?: boolean;    // Espejo horizontal
+  flipY?: boolean;    // Volteo vertical
+}
+
+// one-shot suena entero; gate y loop solo mientras se mantiene pulsado; toggle alterna el bucle
+export type PlayMode = 'oneshot' | 'gate' | 'loop' | 'toggle';
+
+export interface PadPlayback {
+  mode: PlayMode;
+  reverse: boolean;
+  chokeGroup: number;  // 0 = sin grupo; disparar un pad silencia al resto de su grupo
+}
+
+export interface PadPitch {
+  semitones: number;
+  cents: number;
+  rate: number;        // Ajuste fino de velocidad, multiplica a la afinación
+}
+
+// Modo cromático: los 12 pads de un banco tocan el clip de `sourceId` en una escala
+export interface ChromaticSettings {
+  sourceId: number;
+  bank: string;
+  scale: string;
+}
+
+export type FilterType = 'off' | 'lowpass' | 'highpass' | 'bandpass';
+export type ReverbType = 'room' | 'plate' | 'hall';
+
+// Cadena de inserción por pad; mix 0 desactiva el envío correspondiente
+export interface PadFx {
+  filter: { type: FilterType; frequency: number; q: number };
+  delay: { time: number; feedback: number; mix: number };
+  reverb: { type: ReverbType; mix: number };
+  drive: number;       // 0..1
+  pan: number;         // -1 (izquierda) .. 1 (derecha)
+}
+
+// Envolvente de amplitud en segundos del clip; hold 0 mantiene hasta el final del recorte
+export interface PadEnvelope {
+  attack: number;
+  hold: number;
+  release: number;
+  autoFade: boolean;   // Micro-fundido en los bordes para evitar clics
 }
 
 export interface PadCell {
   id: number;
   videoUrl: string | null;
+  posterUrl?: string | null;   // Imagen generada para clips solo de audio
   audioBuffer?: AudioBuffer | null;
   startTime: number;
   endTime: number;
@@ -15,6 +60,10 @@ export interface PadCell {
   volume: number;
   transform: PadTransform;
   allowOverlap: boolean;
+  playback: PadPlayback;
+  pitch: PadPitch;
+  fx: PadFx;
+  envelope: PadEnvelope;
 }
 
 export interface GlobalRecorderProps {
@@ -24,3 +73,83 @@ export interface GlobalRecorderProps {
   onRecordingComplete: (blob: Blob) => void;
   onCancel: () => void;
 }
+
+export interface PadTriggerOptions {
+  when?: number;      // Tiempo del AudioContext en el que debe sonar (por defecto, ahora)
+  velocity?: number;  // 0..1, multiplica el volumen del pad
+  volume?: number;    // Sustituye al volumen del pad (reproducción de tomas)
+  allowOverlap?: boolean;
+  hold?: boolean;     // El control avisará al soltarse (puntero, tecla, nota MIDI)
+  transpose?: number; // Semitonos extra sobre la afinación del pad (modo cromático)
+}
+
+export interface PadTriggerEvent {
+  padId: number;
+  time: number;       // Tiempo del AudioContext en el que empezó a sonar
+  velocity: number;
+  volume: number;
+  duration: number;
+  transform: PadTransform;
+  allowOverlap: boolean;
+  transpose: number;
+}
+
+export interface SequencerSettings {
+  bpm: number;
+  steps: number;
+  swing: number;      // 0..1, retrasa los pasos impares
+}
+
+export interface PadPattern {
+  padId: number;
+  steps: number[];    // Velocidad por paso, 0 = paso apagado
+}
+
+export interface TakeEvent {
+  padId: number;
+  time: number;       // Segundos desde el inicio de la toma
+  velocity: number;
+  volume: number;
+  allowOverlap: boolean;
+  transpose?: number;  // Desde el modo cromático; las tomas anteriores no lo traen
+}
+
+export interface Take {
+  id: string;
+  name: string;
+  createdAt: number;
+  duration: number;
+  events: TakeEvent[];
+}
+
+export interface ProjectInfo {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface MidiMapping {
+  padId: number;
+  type: 'note' | 'cc';
+  channel: number;
+  number: number;
+}
+
+export interface MasterSettings {
+  gain: number;        // 0..1.5
+  eq: { low: number; mid: number; high: number };  // dB, -12..12
+  compressor: { threshold: number; knee: number; ratio: number; attack: number; release: number };
+  limiter: boolean;    // Limitador duro a -1 dB tras el compresor
+}
+
+export interface MixerSettings {
+  master: MasterSettings;
+  mutes: number[];     // Ids de pad silenciados
+  solos: number[];     // Con algún solo activo, solo suenan esos pads
+}
+
+export interface MasterLevels {
+  peak: [number, number];  // 0..1 por canal (L, R)
+  rms: [number, number];
+}
@@ -1,6 +1,24 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import crypto from 'crypto';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
+import tailwindcss from '@tailwindcss/vite';
+
+// Genera sw.js con la lista de archivos de este build; una versión nueva cambia el hash
+const serviceWorker = (): Plugin => ({
+  name: 'videopad-service-worker',
+  apply: 'build',
+  generateBundle(_, bundle) {
+    const publicFiles = fs.readdirSync(path.resolve(__dirname, 'public')).filter(file => !file.startsWith('_') && !file.endsWith('.txt'));
+    const precache = [...new Set(['/', '/index.html', ...publicFiles.map(file => `/${file}`), ...Object.keys(bundle).map(file => `/${file}`)])];
+    const version = crypto.createHash('sha256').update(precache.join('\n')).digest('hex').slice(0, 12);
+    const source = fs.readFileSync(path.resolve(__dirname, 'sw.js'), 'utf-8')
+      .replace('__SW_VERSION__', JSON.stringify(version))
+      .replace('__PRECACHE__', JSON.stringify(precache));
+    this.emitFile({ type: 'asset', fileName: 'sw.js', source });
+  },
+});
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
@@ -9,7 +27,7 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), tailwindcss(), serviceWorker()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)